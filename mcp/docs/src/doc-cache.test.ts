@@ -0,0 +1,125 @@
+import { mkdirSync, mkdtempSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocCache } from './doc-cache.js';
+
+describe('DocCache', () => {
+  let root: string;
+  let cache: DocCache;
+  let computed: number;
+
+  /** Derives a value that records how often it was computed */
+  const derive = (path: string, kind = 'count', size = 0) =>
+    cache.derive(path, kind, (content) => `${content}:${++computed}:${'x'.repeat(size)}`);
+
+  const write = (name: string, content: string) => {
+    const path = join(root, name);
+    writeFileSync(path, content);
+    return path;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'doc-cache-'));
+    cache = new DocCache();
+    computed = 0;
+  });
+
+  afterEach(() => {
+    cache.close();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('re-reads a file when its modification time or size changes', () => {
+    const path = write('a.md', 'one');
+    expect(cache.read(path)).toBe('one');
+
+    writeFileSync(path, 'three');
+    expect(cache.read(path)).toBe('three');
+
+    const { mtime } = statSync(path);
+    writeFileSync(path, 'seven');
+    utimesSync(path, mtime, new Date(mtime.getTime() + 1000));
+    expect(cache.read(path)).toBe('seven');
+  });
+
+  it('computes derived values once per version of the file and kind', () => {
+    const path = write('a.md', 'one');
+
+    expect(derive(path)).toBe(derive(path));
+    expect(derive(path, 'other')).not.toBe(derive(path));
+    expect(computed).toBe(2);
+
+    writeFileSync(path, 'two!');
+    expect(derive(path)).toMatch(/^two!:3:/);
+  });
+
+  it('drops a file, or every file below a directory, when invalidated', () => {
+    mkdirSync(join(root, 'api'));
+    const a = write('api/a.md', 'a');
+    const b = write('api/b.md', 'b');
+    const c = write('c.md', 'c');
+    [a, b, c].forEach((path) => derive(path));
+
+    cache.invalidate(a);
+    derive(a);
+    derive(b);
+    expect(computed).toBe(4);
+
+    cache.invalidate(join(root, 'api'));
+    [a, b, c].forEach((path) => derive(path));
+    expect(computed).toBe(6);
+  });
+
+  it('drops an edited file that kept its size and modification time once the watcher sees it', async () => {
+    const path = write('a.md', 'one');
+    const { atime, mtime } = statSync(path);
+    cache.watch([root]);
+    derive(path);
+
+    writeFileSync(path, 'two');
+    utimesSync(path, atime, mtime);
+
+    await vi.waitFor(() => expect(derive(path)).toMatch(/^two:/), { timeout: 2000 });
+  });
+
+  it('evicts the least recently used files beyond the byte bound', () => {
+    cache = new DocCache(25);
+    const a = write('a.md', 'aaaa');
+    const b = write('b.md', 'bbbb');
+    const c = write('c.md', 'cccc');
+    derive(a);
+    derive(b);
+    cache.read(a);
+
+    cache.read(c);
+    derive(a);
+    derive(b);
+
+    expect(computed).toBe(3);
+  });
+
+  it('counts derived values towards the byte bound', () => {
+    cache = new DocCache(100);
+    const a = write('a.md', 'a');
+    const b = write('b.md', 'b');
+    derive(a, 'count', 60);
+
+    derive(b, 'count', 60);
+    derive(b, 'count', 60);
+    expect(computed).toBe(2);
+
+    derive(a, 'count', 60);
+    expect(computed).toBe(3);
+  });
+
+  it('serves a file larger than the bound without keeping it', () => {
+    cache = new DocCache(4);
+    const path = write('a.md', 'too large');
+
+    expect(cache.read(path)).toBe('too large');
+    derive(path);
+    derive(path);
+    expect(computed).toBe(2);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Content cache for doc files.
+ *
+ * Every read is validated against the file's mtime and size, so an edited
+ * doc is re-read on the next call rather than when a TTL expires. Filesystem
+ * watchers on the configured doc paths drop entries as soon as a file
+ * changes, which also catches edits that keep the size within the same mtime
+ * tick. Values derived from a file (parsed front matter, extracted
+ * requirements) are cached with its content and dropped with it. The cache
+ * is bounded by the total size of the cached contents and derived values,
+ * and evicts the least recently used files first.
+ */
+
+import { FSWatcher, readFileSync, statSync, watch } from 'fs';
+import { join, resolve, sep } from 'path';
+
+interface CacheEntry {
+  stamp: string;
+  content: string;
+  /** Size of `content` and of the derived values */
+  bytes: number;
+  /** Values computed from `content`, by kind */
+  derived: Map<string, unknown>;
+}
+
+/** Default bound on the cached file contents and derived values */
+export const DEFAULT_MAX_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Approximate size of a derived value: its UTF-8 length as JSON, which is
+ * close enough for the strings, arrays and plain objects cached here.
+ */
+function estimateBytes(value: unknown): number {
+  if (typeof value === 'string') return Buffer.byteLength(value);
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? '');
+  } catch {
+    return 0; // Circular; counted as free rather than failing the read
+  }
+}
+
+export class DocCache {
+  /** Map order is recency order: the first entry is the least recently used */
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private watchers = new Map<string, FSWatcher>();
+
+  constructor(private readonly maxBytes = DEFAULT_MAX_BYTES) {}
+
+  /**
+   * Returns the content of the file at `path`, re-reading it if it changed
+   * since it was cached.
+   */
+  read(path: string): string {
+    return this.entry(path).content;
+  }
+
+  /**
+   * Returns `compute(content)` for the file at `path`, computed once per
+   * version of the file. `kind` distinguishes values derived from the same
+   * file, and should include any options `compute` depends on.
+   */
+  derive<T>(path: string, kind: string, compute: (content: string) => T): T {
+    const entry = this.entry(path);
+    if (!entry.derived.has(kind)) {
+      const value = compute(entry.content);
+      entry.derived.set(kind, value);
+
+      const bytes = estimateBytes(value);
+      entry.bytes += bytes;
+      if (this.entries.get(path) === entry) {
+        this.bytes += bytes;
+        this.evict();
+      }
+    }
+    return entry.derived.get(kind) as T;
+  }
+
+  private entry(path: string): CacheEntry {
+    const stat = statSync(path);
+    const stamp = `${stat.mtimeMs}:${stat.size}`;
+
+    const cached = this.entries.get(path);
+    if (cached?.stamp === stamp) {
+      this.entries.delete(path);
+      this.entries.set(path, cached);
+      return cached;
+    }
+
+    this.invalidate(path);
+    const content = readFileSync(path, 'utf-8');
+    const entry: CacheEntry = {
+      stamp,
+      content,
+      bytes: Buffer.byteLength(content),
+      derived: new Map(),
+    };
+
+    // A file larger than the whole cache is served but not kept
+    if (entry.bytes <= this.maxBytes) {
+      this.entries.set(path, entry);
+      this.bytes += entry.bytes;
+      this.evict();
+    }
+    return entry;
+  }
+
+  private evict() {
+    for (const [path, entry] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.entries.delete(path);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  /**
+   * Drops the cached file at `path`, and any cached files below it if it is
+   * a directory.
+   */
+  invalidate(path: string) {
+    const prefix = path.endsWith(sep) ? path : path + sep;
+    for (const [cachedPath, entry] of this.entries) {
+      if (cachedPath === path || cachedPath.startsWith(prefix)) {
+        this.entries.delete(cachedPath);
+        this.bytes -= entry.bytes;
+      }
+    }
+  }
+
+  /**
+   * Watches `paths` (files or directories) and invalidates entries as
+   * files change. Watchers for paths no longer listed are closed. Paths
+   * that do not exist or cannot be watched are skipped; reads stay correct
+   * through the mtime and size check.
+   */
+  watch(paths: string[]) {
+    const wanted = new Set(paths.map((path) => resolve(path)));
+
+    for (const [path, watcher] of this.watchers) {
+      if (!wanted.has(path)) {
+        watcher.close();
+        this.watchers.delete(path);
+      }
+    }
+
+    for (const path of wanted) {
+      if (this.watchers.has(path)) continue;
+      try {
+        const isDirectory = statSync(path).isDirectory();
+        const watcher = watch(path, { recursive: isDirectory }, (event, filename) => {
+          // Without a file name the change could be anywhere under `path`
+          this.invalidate(isDirectory && filename ? join(path, filename.toString()) : path);
+          if (!isDirectory && event === 'rename') {
+            // The file was replaced (e.g. an atomic save); watch the new one next time
+            watcher.close();
+            this.watchers.delete(path);
+          }
+        });
+        watcher.on('error', () => {
+          watcher.close();
+          this.watchers.delete(path);
+          this.invalidate(path);
+        });
+        // Watching must not keep the server alive on its own
+        watcher.unref();
+        this.watchers.set(path, watcher);
+      } catch {
+        // Missing or unwatchable; the mtime and size check still applies
+      }
+    }
+  }
+
+  close() {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+}
@@ -14,11 +14,37 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { readFileSync, existsSync, statSync } from 'fs';
-import { join, dirname, basename, extname, relative } from 'path';
+import { execFileSync } from 'child_process';
+import { readFileSync, existsSync, statSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, basename, extname, join, relative } from 'path';
 import { fileURLToPath } from 'url';
 import { glob } from 'glob';
 import matter from 'gray-matter';
+import { OrchestratorError, resolveInSandbox } from '@feature-orchestrator/mcp-shared';
+import { ProjectConfigStore } from './project-config.js';
+import { DocCache } from './doc-cache.js';
+import { MatchSpan, QUERY_MODES, QueryMode, compileQuery } from './query.js';
+import { SearchIndex, tokenize } from './search-index.js';
+import { LinkIndex, ResolvedLink, neighbors } from './links.js';
+import {
+  ExtractedRequirement,
+  extractRequirements as extractFromDoc,
+} from './requirements.js';
+import {
+  RequirementSnapshot,
+  SnapshotRequirement,
+  contentHash,
+  diffDocs,
+  diffRequirements,
+  snapshotRequirement,
+} from './snapshots.js';
+import {
+  HEADING_PATH_SEPARATOR,
+  extractSection,
+  findHeading,
+  headingPathAt,
+  parseHeadings as parseHeadingLines,
+} from './sections.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -47,30 +73,37 @@ interface SearchResult {
     line: number;
     text: string;
     context: string;
+    /** Headings enclosing the line, outermost first; a read_section heading path */
+    headingPath: string[];
+    /** Matched spans; `offset` is the span's start in the file (0-based) */
+    spans: Array<MatchSpan & { offset: number }>;
   }>;
   score: number;
 }
 
-interface ExtractedRequirement {
-  id: string;
-  text: string;
-  source: string;
-  line: number;
-  type: 'must' | 'should' | 'could' | 'guideline';
-  category?: string;
-}
+const DEFAULT_CATEGORIES = ['security', 'accessibility', 'api', 'ui', 'testing', 'performance'];
+
+/** Where a feature workspace keeps the snapshot recorded during its docs audit */
+const WORKSPACE_SNAPSHOT = 'requirements-snapshot.json';
+
+/** Share of a linked doc's relevance that find_related_docs passes on through the link */
+const LINK_PROXIMITY_WEIGHT = 0.3;
 
 class DocsReaderServer {
   private server: Server;
   private projectRoot: string;
-  private docsPaths: string[];
+  private projectConfig: ProjectConfigStore;
+  private snapshotsDir: string;
   private fileTypes: string[];
-  private cache: Map<string, { content: DocContent; timestamp: number }> = new Map();
-  private cacheTTL = 60 * 60 * 1000; // 1 hour
+  private docCache = new DocCache();
+  private searchIndex = new SearchIndex();
+  private linkIndex: LinkIndex;
 
   constructor() {
     this.projectRoot = process.cwd();
-    this.docsPaths = ['docs', 'specs', 'design', 'architecture', 'README.md'];
+    this.projectConfig = new ProjectConfigStore(this.projectRoot);
+    this.linkIndex = new LinkIndex(this.projectRoot);
+    this.snapshotsDir = join(this.projectRoot, '.claude', 'requirements-snapshots');
     this.fileTypes = ['md', 'txt', 'mdx'];
 
     this.server = new Server(
@@ -92,6 +125,7 @@ class DocsReaderServer {
     };
 
     process.on('SIGINT', async () => {
+      this.docCache.close();
       await this.server.close();
       process.exit(0);
     });
@@ -118,7 +152,8 @@ class DocsReaderServer {
             paths: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Paths to search for documentation (relative to project root)',
+              description:
+                'Paths to search for documentation (relative to project root; defaults to docs.paths from the project config)',
             },
             fileTypes: {
               type: 'array',
@@ -154,18 +189,35 @@ class DocsReaderServer {
       },
       {
         name: 'search_docs',
-        description: 'Search documentation files for specific keywords or patterns',
+        description:
+          'Search documentation files for keywords or patterns. Every match reports the spans it matched, with line, column and file offsets.',
         inputSchema: {
           type: 'object',
           properties: {
             query: {
               type: 'string',
-              description: 'Search query (supports simple text or regex pattern)',
+              description: 'Search query, interpreted according to mode',
+            },
+            mode: {
+              type: 'string',
+              enum: QUERY_MODES,
+              description:
+                'literal: exact text; regex: JavaScript regular expression, matched per line; boolean: terms and "quoted phrases" with AND, OR, NOT and parentheses, evaluated per document; fuzzy: every query word must appear in the line, allowing typos',
+              default: 'literal',
+            },
+            flags: {
+              type: 'string',
+              description: 'Extra regex flags (i, m, s, u) for regex mode',
+            },
+            maxEdits: {
+              type: 'number',
+              description:
+                'Maximum edits per word in fuzzy mode (defaults to 0 for words of up to 3 characters, 1 up to 7, 2 beyond)',
             },
             paths: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Paths to search in (relative to project root)',
+              description: 'Paths to search in (relative to project root; defaults to docs.paths from the project config)',
             },
             caseSensitive: {
               type: 'boolean',
@@ -195,7 +247,31 @@ class DocsReaderServer {
             paths: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Paths to documentation files to analyze',
+              description: 'Paths to documentation files to analyze (defaults to docs.paths from the project config)',
+            },
+            categories: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Categories to look for (e.g., ["security", "accessibility", "api"])',
+            },
+          },
+        },
+      },
+      {
+        name: 'snapshot_requirements',
+        description:
+          'Extract requirements and store them as a named snapshot with content hashes, as a baseline for diff_requirements',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Snapshot name (letters, digits, ".", "_" and "-"); defaults to a timestamp',
+            },
+            paths: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Paths to documentation files to analyze (defaults to docs.paths from the project config)',
             },
             categories: {
               type: 'array',
@@ -205,6 +281,38 @@ class DocsReaderServer {
           },
         },
       },
+      {
+        name: 'diff_requirements',
+        description:
+          'Compare the current docs to a requirements snapshot or a git revision: requirements added, removed, reworded, moved or changed in strength (e.g. SHOULD to MUST)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            snapshot: {
+              type: 'string',
+              description: 'Snapshot name, or the path of a snapshot file',
+            },
+            featureId: {
+              type: 'string',
+              description: 'Compare to the snapshot recorded in this feature workspace during its docs audit',
+            },
+            revision: {
+              type: 'string',
+              description: 'Compare to the docs at this git revision (commit, branch or tag)',
+            },
+            paths: {
+              type: 'array',
+              items: { type: 'string' },
+              description: "Paths to compare (defaults to the snapshot's paths, or docs.paths from the project config)",
+            },
+            categories: {
+              type: 'array',
+              items: { type: 'string' },
+              description: "Categories to look for (defaults to the snapshot's categories)",
+            },
+          },
+        },
+      },
       {
         name: 'get_doc_structure',
         description: 'Get the heading structure/outline of a documentation file',
@@ -219,6 +327,68 @@ class DocsReaderServer {
           required: ['path'],
         },
       },
+      {
+        name: 'read_section',
+        description:
+          'Read a single section of a documentation file, selected by heading path or heading line, instead of the whole file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the documentation file',
+            },
+            heading: {
+              type: ['string', 'array'],
+              items: { type: 'string' },
+              description:
+                'Heading path such as "API Guidelines > Standards", or its segments as an array. Intermediate headings may be left out; matching is case-insensitive',
+            },
+            line: {
+              type: 'number',
+              description:
+                'Line number of the section heading, as reported by read_doc, get_doc_structure and search_docs',
+            },
+            includeSubsections: {
+              type: 'boolean',
+              description:
+                'Include nested subsections; otherwise the section ends at the next heading of any level',
+              default: false,
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'get_doc_links',
+        description:
+          'List the links in a documentation file (with their resolved targets and status) and the links from other docs pointing to it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the documentation file',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'audit_doc_links',
+        description:
+          'Report broken relative links, dead #anchor fragments and orphan docs that no other doc links to',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            paths: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Paths to audit (defaults to docs.paths from the project config)',
+            },
+          },
+        },
+      },
       {
         name: 'find_related_docs',
         description: 'Find documentation files related to a topic or feature',
@@ -248,19 +418,32 @@ class DocsReaderServer {
 
   private async handleToolCall(name: string, args: Record<string, unknown>) {
     try {
+      // Follows docs.paths as the config changes
+      this.docCache.watch(this.projectConfig.get().paths.map((p) => join(this.projectRoot, p)));
+
       switch (name) {
         case 'list_docs':
-          return this.listDocs(args);
+          return await this.listDocs(args);
         case 'read_doc':
-          return this.readDoc(args);
+          return await this.readDoc(args);
         case 'search_docs':
-          return this.searchDocs(args);
+          return await this.searchDocs(args);
         case 'extract_requirements':
-          return this.extractRequirements(args);
+          return await this.extractRequirements(args);
+        case 'snapshot_requirements':
+          return await this.snapshotRequirements(args);
+        case 'diff_requirements':
+          return await this.diffRequirements(args);
         case 'get_doc_structure':
-          return this.getDocStructure(args);
+          return await this.getDocStructure(args);
+        case 'read_section':
+          return await this.readSection(args);
+        case 'get_doc_links':
+          return await this.getDocLinks(args);
+        case 'audit_doc_links':
+          return await this.auditDocLinks(args);
         case 'find_related_docs':
-          return this.findRelatedDocs(args);
+          return await this.findRelatedDocs(args);
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -269,7 +452,12 @@ class DocsReaderServer {
         content: [
           {
             type: 'text',
-            text: JSON.stringify({ error: String(error) }),
+            text: JSON.stringify({
+              error: String(error),
+              ...(error instanceof OrchestratorError
+                ? { code: error.code, details: error.details }
+                : {}),
+            }),
           },
         ],
         isError: true,
@@ -277,14 +465,45 @@ class DocsReaderServer {
     }
   }
 
+  /**
+   * Resolves a doc path argument, confined to the project root and the
+   * configured doc paths.
+   */
+  private resolveDocPath(path: string): string {
+    return resolveInSandbox(path, this.projectRoot, ['.', ...this.projectConfig.get().paths]);
+  }
+
   private async listDocs(args: Record<string, unknown>) {
-    const paths = (args.paths as string[]) || this.docsPaths;
+    const paths = (args.paths as string[]) || this.projectConfig.get().paths;
     const fileTypes = (args.fileTypes as string[]) || this.fileTypes;
+    const docs = await this.findDocs(paths, fileTypes);
 
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              projectRoot: this.projectRoot,
+              totalDocs: docs.length,
+              docs: docs.map((d) => ({
+                ...d,
+                modifiedAt: d.modifiedAt.toISOString(),
+              })),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async findDocs(paths: string[], fileTypes: string[]): Promise<DocFile[]> {
     const docs: DocFile[] = [];
 
     for (const docPath of paths) {
-      const fullPath = join(this.projectRoot, docPath);
+      const fullPath = this.resolveDocPath(docPath);
 
       if (!existsSync(fullPath)) {
         continue;
@@ -308,6 +527,12 @@ class DocsReaderServer {
         const files = await glob(pattern, { nodir: true });
 
         for (const file of files) {
+          try {
+            this.resolveDocPath(file);
+          } catch {
+            continue; // Symlink leading out of the sandbox
+          }
+
           const fileStat = statSync(file);
           docs.push({
             path: file,
@@ -321,25 +546,19 @@ class DocsReaderServer {
       }
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(
-            {
-              projectRoot: this.projectRoot,
-              totalDocs: docs.length,
-              docs: docs.map((d) => ({
-                ...d,
-                modifiedAt: d.modifiedAt.toISOString(),
-              })),
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return docs;
+  }
+
+  /**
+   * Finds the docs under `paths` and brings the search and link indexes up
+   * to date with them, re-indexing only files that changed since the last call.
+   */
+  private async indexedDocs(paths: string[]): Promise<DocFile[]> {
+    const docs = await this.findDocs(paths, this.fileTypes);
+    const read = (path: string) => this.docCache.read(path);
+    this.searchIndex.update(docs, read);
+    this.linkIndex.update(docs, read);
+    return docs;
   }
 
   private async readDoc(args: Record<string, unknown>) {
@@ -351,67 +570,39 @@ class DocsReaderServer {
       throw new Error('path is required');
     }
 
-    // Resolve path
-    const fullPath = docPath.startsWith('/') ? docPath : join(this.projectRoot, docPath);
+    const fullPath = this.resolveDocPath(docPath);
 
     if (!existsSync(fullPath)) {
       throw new Error(`File not found: ${fullPath}`);
     }
 
-    // Check cache
-    const cached = this.cache.get(fullPath);
-    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(cached.content, null, 2),
-          },
-        ],
-      };
-    }
-
-    const rawContent = readFileSync(fullPath, 'utf-8');
-    let content = rawContent;
-    let frontMatter: Record<string, unknown> | undefined;
-
-    // Parse front matter if markdown
-    if (parseFrontMatter && (fullPath.endsWith('.md') || fullPath.endsWith('.mdx'))) {
-      try {
-        const parsed = matter(rawContent);
-        content = parsed.content;
-        frontMatter = parsed.data as Record<string, unknown>;
-      } catch {
-        // Ignore front matter parsing errors
-      }
-    }
-
-    // Parse headings
-    const headings: Array<{ level: number; text: string; line: number }> = [];
-    if (parseHeadings) {
-      const lines = content.split('\n');
-      lines.forEach((line, index) => {
-        const match = line.match(/^(#{1,6})\s+(.+)$/);
-        if (match) {
-          headings.push({
-            level: match[1].length,
-            text: match[2].trim(),
-            line: index + 1,
-          });
+    const kind = `doc:${parseFrontMatter}:${parseHeadings}`;
+    const docContent = this.docCache.derive(fullPath, kind, (rawContent): DocContent => {
+      let content = rawContent;
+      let frontMatter: Record<string, unknown> | undefined;
+
+      // Parse front matter if markdown
+      if (parseFrontMatter && (fullPath.endsWith('.md') || fullPath.endsWith('.mdx'))) {
+        try {
+          const parsed = matter(rawContent);
+          content = parsed.content;
+          frontMatter = parsed.data as Record<string, unknown>;
+        } catch {
+          // Ignore front matter parsing errors
         }
-      });
-    }
+      }
 
-    const docContent: DocContent = {
-      path: fullPath,
-      content,
-      frontMatter,
-      headings,
-      wordCount: content.split(/\s+/).filter(Boolean).length,
-    };
+      // Parse headings; line numbers count from the top of the file
+      const headings = parseHeadings ? parseHeadingLines(rawContent.split('\n')) : [];
 
-    // Update cache
-    this.cache.set(fullPath, { content: docContent, timestamp: Date.now() });
+      return {
+        path: fullPath,
+        content,
+        frontMatter,
+        headings,
+        wordCount: content.split(/\s+/).filter(Boolean).length,
+      };
+    });
 
     return {
       content: [
@@ -425,34 +616,45 @@ class DocsReaderServer {
 
   private async searchDocs(args: Record<string, unknown>) {
     const query = args.query as string;
-    const paths = (args.paths as string[]) || this.docsPaths;
+    const paths = (args.paths as string[]) || this.projectConfig.get().paths;
     const caseSensitive = args.caseSensitive as boolean || false;
     const maxResults = (args.maxResults as number) || 20;
     const contextLines = (args.contextLines as number) || 2;
+    const mode = (args.mode as QueryMode) || 'literal';
 
     if (!query) {
       throw new Error('query is required');
     }
+    if (!QUERY_MODES.includes(mode)) {
+      throw new Error(`Invalid mode "${mode}"; expected one of: ${QUERY_MODES.join(', ')}`);
+    }
 
-    // Get all docs
-    const docsResult = await this.listDocs({ paths });
-    const docsData = JSON.parse(
-      (docsResult.content[0] as { type: string; text: string }).text
-    );
-    const docs = docsData.docs as DocFile[];
+    const compiled = compileQuery(query, {
+      mode,
+      caseSensitive,
+      flags: args.flags as string | undefined,
+      maxEdits: args.maxEdits as number | undefined,
+    });
 
+    const docs = await this.indexedDocs(paths);
+    const score = this.searchIndex.scorer(new Set(docs.map((doc) => doc.path)));
     const results: SearchResult[] = [];
-    const searchPattern = caseSensitive ? query : query.toLowerCase();
 
     for (const doc of docs) {
       try {
-        const content = readFileSync(doc.path, 'utf-8');
+        const content = this.docCache.read(doc.path);
+        if (!compiled.matchesDocument(content)) {
+          continue;
+        }
+
         const lines = content.split('\n');
+        const headings = parseHeadingLines(lines);
         const matches: SearchResult['matches'] = [];
+        let lineOffset = 0;
 
         lines.forEach((line, index) => {
-          const searchLine = caseSensitive ? line : line.toLowerCase();
-          if (searchLine.includes(searchPattern)) {
+          const spans = compiled.matchLine(line);
+          if (spans.length > 0) {
             // Get context
             const startLine = Math.max(0, index - contextLines);
             const endLine = Math.min(lines.length - 1, index + contextLines);
@@ -462,16 +664,24 @@ class DocsReaderServer {
               line: index + 1,
               text: line,
               context,
+              headingPath: headingPathAt(headings, index + 1),
+              spans: spans.map((span) => ({ ...span, offset: lineOffset + span.start })),
             });
           }
+          lineOffset += line.length + 1;
         });
 
         if (matches.length > 0) {
+          // Rank by BM25 over the words this doc actually matched, which also
+          // covers regex and fuzzy matches that differ from the query text
+          const terms = tokenize(
+            matches.flatMap((m) => m.spans.map((span) => span.text)).join(' ')
+          );
           results.push({
             path: doc.path,
             relativePath: doc.relativePath,
             matches,
-            score: matches.length,
+            score: Number(score(doc.path, terms).toFixed(4)),
           });
         }
       } catch {
@@ -479,8 +689,9 @@ class DocsReaderServer {
       }
     }
 
-    // Sort by score and limit results
-    results.sort((a, b) => b.score - a.score);
+    // Sort by score and limit results; match counts break ties, e.g. when
+    // only stop words matched
+    results.sort((a, b) => b.score - a.score || b.matches.length - a.matches.length);
     const limitedResults = results.slice(0, maxResults);
 
     return {
@@ -490,6 +701,7 @@ class DocsReaderServer {
           text: JSON.stringify(
             {
               query,
+              mode,
               totalMatches: results.reduce((sum, r) => sum + r.matches.length, 0),
               filesWithMatches: results.length,
               results: limitedResults,
@@ -503,107 +715,9 @@ class DocsReaderServer {
   }
 
   private async extractRequirements(args: Record<string, unknown>) {
-    const paths = (args.paths as string[]) || this.docsPaths;
-    const categories = (args.categories as string[]) || [
-      'security',
-      'accessibility',
-      'api',
-      'ui',
-      'testing',
-      'performance',
-    ];
-
-    // Get all docs
-    const docsResult = await this.listDocs({ paths });
-    const docsData = JSON.parse(
-      (docsResult.content[0] as { type: string; text: string }).text
-    );
-    const docs = docsData.docs as DocFile[];
-
-    const requirements: ExtractedRequirement[] = [];
-    let reqId = 1;
-
-    // Patterns to identify requirements
-    const mustPatterns = [
-      /\bmust\b/i,
-      /\brequired\b/i,
-      /\bshall\b/i,
-      /\bneed to\b/i,
-      /\bhas to\b/i,
-    ];
-    const shouldPatterns = [
-      /\bshould\b/i,
-      /\brecommended\b/i,
-      /\bprefer\b/i,
-    ];
-    const couldPatterns = [
-      /\bcould\b/i,
-      /\bmay\b/i,
-      /\boptional\b/i,
-      /\bnice to have\b/i,
-    ];
-
-    for (const doc of docs) {
-      try {
-        const content = readFileSync(doc.path, 'utf-8');
-        const lines = content.split('\n');
-
-        lines.forEach((line, index) => {
-          // Skip empty lines and headings
-          if (!line.trim() || line.startsWith('#')) {
-            return;
-          }
-
-          // Determine requirement type
-          let type: ExtractedRequirement['type'] = 'guideline';
-          if (mustPatterns.some((p) => p.test(line))) {
-            type = 'must';
-          } else if (shouldPatterns.some((p) => p.test(line))) {
-            type = 'should';
-          } else if (couldPatterns.some((p) => p.test(line))) {
-            type = 'could';
-          } else {
-            // Only include if it looks like a requirement or bullet point
-            if (!line.trim().startsWith('-') && !line.trim().startsWith('*') && !line.trim().startsWith('•')) {
-              return;
-            }
-          }
-
-          // Determine category from file path or content
-          let category: string | undefined;
-          const lowerLine = line.toLowerCase();
-          const lowerPath = doc.path.toLowerCase();
-
-          for (const cat of categories) {
-            if (lowerPath.includes(cat) || lowerLine.includes(cat)) {
-              category = cat;
-              break;
-            }
-          }
-
-          // Clean up the requirement text
-          let text = line.trim();
-          // Remove bullet points
-          text = text.replace(/^[-*•]\s*/, '');
-          // Remove checkbox markers
-          text = text.replace(/^\[[ x]\]\s*/i, '');
-
-          if (text.length > 10) {
-            // Only include non-trivial text
-            requirements.push({
-              id: `REQ${reqId++}`,
-              text,
-              source: doc.relativePath,
-              line: index + 1,
-              type,
-              category,
-            });
-          }
-        });
-      } catch {
-        // Skip files that can't be read
-      }
-    }
+    const paths = (args.paths as string[]) || this.projectConfig.get().paths;
+    const categories = (args.categories as string[]) || DEFAULT_CATEGORIES;
+    const { requirements } = await this.readRequirements(paths, categories);
 
     // Group by type
     const grouped = {
@@ -626,6 +740,7 @@ class DocsReaderServer {
                 could: grouped.could.length,
                 guideline: grouped.guideline.length,
               },
+              negated: requirements.filter((r) => r.negated).length,
               requirements: grouped,
             },
             null,
@@ -636,6 +751,250 @@ class DocsReaderServer {
     };
   }
 
+  /**
+   * Extracts the requirements of the docs under `paths`, and hashes each
+   * doc's content.
+   */
+  private async readRequirements(
+    paths: string[],
+    categories: string[]
+  ): Promise<{ docs: Record<string, string>; requirements: ExtractedRequirement[] }> {
+    const docs: Record<string, string> = {};
+    const requirements: ExtractedRequirement[] = [];
+
+    for (const doc of await this.findDocs(paths, this.fileTypes)) {
+      try {
+        const kind = `requirements:${doc.relativePath}:${categories.join('\n')}`;
+        docs[doc.relativePath] = this.docCache.derive(doc.path, 'sha256', contentHash);
+        requirements.push(
+          ...this.docCache.derive(doc.path, kind, (content) =>
+            extractFromDoc(content, doc.relativePath, categories)
+          )
+        );
+      } catch {
+        // Skip files that can't be read
+      }
+    }
+
+    return { docs, requirements };
+  }
+
+  private git(args: string[]): string {
+    return execFileSync('git', args, {
+      cwd: this.projectRoot,
+      encoding: 'utf-8',
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  }
+
+  /**
+   * Like readRequirements, for the docs as they were at git `revision`.
+   */
+  private revisionRequirements(
+    revision: string,
+    paths: string[],
+    categories: string[]
+  ): { docs: Record<string, string>; requirements: ExtractedRequirement[] } {
+    if (!revision.trim() || revision.startsWith('-')) {
+      throw new Error(`Invalid revision: "${revision}"`);
+    }
+    for (const path of paths) {
+      this.resolveDocPath(path);
+    }
+
+    let files: string[];
+    try {
+      files = this.git(['ls-tree', '-r', '-z', '--name-only', revision, '--', ...paths])
+        .split('\0')
+        .filter((file) => this.fileTypes.includes(extname(file).slice(1)));
+    } catch (error) {
+      const message = (error as { stderr?: string }).stderr?.trim() || String(error);
+      throw new Error(`Cannot read revision "${revision}": ${message}`);
+    }
+
+    const docs: Record<string, string> = {};
+    const requirements: ExtractedRequirement[] = [];
+    for (const file of files) {
+      const content = this.git(['show', `${revision}:./${file}`]);
+      docs[file] = contentHash(content);
+      requirements.push(...extractFromDoc(content, file, categories));
+    }
+
+    return { docs, requirements };
+  }
+
+  private currentGitRevision(): string | null {
+    try {
+      return this.git(['rev-parse', 'HEAD']).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  private async snapshotRequirements(args: Record<string, unknown>) {
+    const name =
+      (args.name as string) ||
+      `requirements-${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}`;
+    if (!/^[A-Za-z0-9][\w.-]*$/.test(name)) {
+      throw new Error(
+        `Invalid snapshot name "${name}": use letters, digits, ".", "_" and "-", ` +
+          'starting with a letter or digit'
+      );
+    }
+
+    const snapshotPath = join(this.snapshotsDir, `${name}.json`);
+    if (existsSync(snapshotPath)) {
+      throw new Error(`Snapshot "${name}" already exists; pick another name`);
+    }
+
+    const paths = (args.paths as string[]) || this.projectConfig.get().paths;
+    const categories = (args.categories as string[]) || DEFAULT_CATEGORIES;
+    const { docs, requirements } = await this.readRequirements(paths, categories);
+
+    const snapshot: RequirementSnapshot = {
+      format: 1,
+      name,
+      createdAt: new Date().toISOString(),
+      gitRevision: this.currentGitRevision(),
+      paths,
+      categories,
+      docs,
+      requirements: requirements.map(snapshotRequirement),
+    };
+    mkdirSync(this.snapshotsDir, { recursive: true });
+    writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              name,
+              path: relative(this.projectRoot, snapshotPath),
+              createdAt: snapshot.createdAt,
+              gitRevision: snapshot.gitRevision,
+              docs: Object.keys(docs).length,
+              totalRequirements: requirements.length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Loads a snapshot given by name, by file path or by the feature
+   * workspace it was recorded in.
+   */
+  private loadSnapshot(snapshot: string | undefined, featureId: string | undefined) {
+    let path: string;
+    if (featureId) {
+      const workspacesDir = join(this.projectRoot, '.claude', 'feature-dev');
+      if (/[\\/\0]/.test(featureId) || featureId.startsWith('.')) {
+        throw new Error(`Invalid feature ID: "${featureId}"`);
+      }
+      path = resolveInSandbox(join(featureId, WORKSPACE_SNAPSHOT), workspacesDir, ['.']);
+      if (!existsSync(path)) {
+        throw new Error(`Feature ${featureId} has no recorded requirements snapshot`);
+      }
+    } else if (snapshot!.endsWith('.json') || /[\\/]/.test(snapshot!)) {
+      path = this.resolveDocPath(snapshot!);
+    } else {
+      path = resolveInSandbox(`${snapshot}.json`, this.snapshotsDir, ['.']);
+    }
+
+    if (!existsSync(path)) {
+      throw new Error(`Snapshot not found: ${snapshot}`);
+    }
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as RequirementSnapshot;
+    if (data?.format !== 1 || !Array.isArray(data.requirements) || !data.docs) {
+      throw new Error(`${relative(this.projectRoot, path)} is not a requirements snapshot`);
+    }
+    return data;
+  }
+
+  private async diffRequirements(args: Record<string, unknown>) {
+    const snapshotArg = args.snapshot as string | undefined;
+    const featureId = args.featureId as string | undefined;
+    const revision = args.revision as string | undefined;
+
+    if ([snapshotArg, featureId, revision].filter(Boolean).length !== 1) {
+      throw new Error('Pass exactly one of snapshot, featureId or revision');
+    }
+
+    let base: {
+      snapshot?: string;
+      revision?: string;
+      createdAt?: string;
+      docs: Record<string, string>;
+      requirements: SnapshotRequirement[];
+    };
+    let paths = args.paths as string[] | undefined;
+    let categories = args.categories as string[] | undefined;
+
+    if (revision) {
+      paths ??= this.projectConfig.get().paths;
+      categories ??= DEFAULT_CATEGORIES;
+      const read = this.revisionRequirements(revision, paths, categories);
+      base = {
+        revision,
+        docs: read.docs,
+        requirements: read.requirements.map(snapshotRequirement),
+      };
+    } else {
+      const snapshot = this.loadSnapshot(snapshotArg, featureId);
+      paths ??= snapshot.paths;
+      categories ??= snapshot.categories ?? DEFAULT_CATEGORIES;
+      base = {
+        snapshot: snapshot.name,
+        revision: snapshot.gitRevision ?? undefined,
+        createdAt: snapshot.createdAt,
+        docs: snapshot.docs,
+        requirements: snapshot.requirements,
+      };
+    }
+
+    const current = await this.readRequirements(paths, categories);
+    const diff = diffRequirements(
+      base.requirements,
+      current.requirements.map(snapshotRequirement),
+      diffDocs(base.docs, current.docs)
+    );
+    const changed =
+      diff.summary.added +
+      diff.summary.removed +
+      diff.summary.reworded +
+      diff.summary.strengthChanged +
+      diff.summary.moved;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              base: {
+                snapshot: base.snapshot,
+                revision: base.revision,
+                createdAt: base.createdAt,
+                totalRequirements: base.requirements.length,
+              },
+              totalRequirements: current.requirements.length,
+              changed: changed > 0,
+              ...diff,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
   private async getDocStructure(args: Record<string, unknown>) {
     const docPath = args.path as string;
 
@@ -706,6 +1065,169 @@ class DocsReaderServer {
     };
   }
 
+  private async readSection(args: Record<string, unknown>) {
+    const docPath = args.path as string;
+    const heading = args.heading as string | string[] | undefined;
+    const line = args.line as number | undefined;
+
+    if (!docPath) {
+      throw new Error('path is required');
+    }
+    if ((heading === undefined) === (line === undefined)) {
+      throw new Error('Pass either heading or line');
+    }
+
+    const fullPath = this.resolveDocPath(docPath);
+    if (!existsSync(fullPath)) {
+      throw new Error(`File not found: ${fullPath}`);
+    }
+
+    const lines = this.docCache.read(fullPath).split('\n');
+    const headings = parseHeadingLines(lines);
+    const target =
+      line !== undefined
+        ? line
+        : Array.isArray(heading)
+          ? heading
+          : heading!.split(HEADING_PATH_SEPARATOR.trim());
+    const section = extractSection(
+      lines,
+      headings,
+      findHeading(headings, target),
+      args.includeSubsections === true
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              path: fullPath,
+              heading: section.headingPath.join(HEADING_PATH_SEPARATOR),
+              ...section,
+              wordCount: section.content.split(/\s+/).filter(Boolean).length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /** The link with its resolved path made project-relative for output */
+  private describeLink(link: ResolvedLink): ResolvedLink {
+    return {
+      ...link,
+      resolvedPath: link.resolvedPath && relative(this.projectRoot, link.resolvedPath),
+    };
+  }
+
+  private async getDocLinks(args: Record<string, unknown>) {
+    const docPath = args.path as string;
+
+    if (!docPath) {
+      throw new Error('path is required');
+    }
+
+    const fullPath = this.resolveDocPath(docPath);
+    if (!existsSync(fullPath)) {
+      throw new Error(`File not found: ${fullPath}`);
+    }
+
+    const docs = await this.indexedDocs(this.projectConfig.get().paths);
+    const docPaths = new Set(docs.map((doc) => doc.path));
+    if (!docPaths.has(fullPath)) {
+      // Outside the configured doc paths; parse it for its outgoing links
+      const stat = statSync(fullPath);
+      this.linkIndex.update([{ path: fullPath, size: stat.size, modifiedAt: stat.mtime }]);
+    }
+
+    const backlinks = docs
+      .filter((doc) => doc.path !== fullPath)
+      .flatMap((doc) =>
+        this.linkIndex
+          .resolve(doc.path, docPaths)
+          .filter((link) => link.resolvedPath === fullPath)
+          .map((link) => ({ source: doc.relativePath, ...this.describeLink(link) }))
+      );
+
+    const outgoing = this.linkIndex.resolve(fullPath, docPaths).map((l) => this.describeLink(l));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              path: fullPath,
+              relativePath: relative(this.projectRoot, fullPath),
+              outgoing,
+              backlinks,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async auditDocLinks(args: Record<string, unknown>) {
+    const paths = (args.paths as string[]) || this.projectConfig.get().paths;
+    const docs = await this.indexedDocs(paths);
+    const docPaths = new Set(docs.map((doc) => doc.path));
+
+    const brokenLinks: Array<ResolvedLink & { source: string }> = [];
+    const linkedTo = new Set<string>();
+    let totalLinks = 0;
+    let externalLinks = 0;
+
+    for (const doc of docs) {
+      for (const link of this.linkIndex.resolve(doc.path, docPaths)) {
+        totalLinks++;
+        if (link.status === 'external') externalLinks++;
+        if (link.status === 'missing_file' || link.status === 'missing_anchor') {
+          brokenLinks.push({ source: doc.relativePath, ...this.describeLink(link) });
+        }
+        if (link.type === 'doc' && link.resolvedPath !== doc.path) {
+          linkedTo.add(link.resolvedPath!);
+        }
+      }
+    }
+
+    // README and index files are entry points, not orphans
+    const orphanDocs = docs
+      .filter((doc) => !linkedTo.has(doc.path) && !/^(readme|index)\./i.test(doc.name))
+      .map((doc) => doc.relativePath);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              docsScanned: docs.length,
+              totalLinks,
+              externalLinks,
+              summary: {
+                brokenLinks: brokenLinks.length,
+                missingFiles: brokenLinks.filter((l) => l.status === 'missing_file').length,
+                missingAnchors: brokenLinks.filter((l) => l.status === 'missing_anchor').length,
+                orphanDocs: orphanDocs.length,
+              },
+              brokenLinks,
+              orphanDocs,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
   private async findRelatedDocs(args: Record<string, unknown>) {
     const topic = args.topic as string;
     const keywords = (args.keywords as string[]) || [];
@@ -718,38 +1240,41 @@ class DocsReaderServer {
     // Combine topic and keywords for search
     const searchTerms = [topic, ...keywords];
 
-    // Search for each term and combine results
-    const allResults: Map<string, { path: string; relativePath: string; score: number; matchedTerms: string[] }> =
-      new Map();
-
-    for (const term of searchTerms) {
-      const searchResult = await this.searchDocs({
-        query: term,
-        maxResults: 50,
-      });
-
-      const searchData = JSON.parse(
-        (searchResult.content[0] as { type: string; text: string }).text
-      );
-
-      for (const result of searchData.results) {
-        const existing = allResults.get(result.path);
-        if (existing) {
-          existing.score += result.score;
-          existing.matchedTerms.push(term);
-        } else {
-          allResults.set(result.path, {
-            path: result.path,
-            relativePath: result.relativePath,
-            score: result.score,
-            matchedTerms: [term],
-          });
-        }
-      }
+    // Rank all terms together with BM25, so a doc matching several of them
+    // is not outranked by a long doc repeating one
+    const docs = await this.indexedDocs(this.projectConfig.get().paths);
+    const byPath = new Map(docs.map((doc) => [doc.path, doc]));
+    const docPaths = new Set(byPath.keys());
+    const ranked = this.searchIndex.search(tokenize(searchTerms.join(' ')), docPaths);
+    const textScores = new Map(ranked.map((result) => [result.path, result.score]));
+
+    // Link proximity: a doc linked to or from a matching doc is related too,
+    // by a fraction of its best-scoring neighbor's score. Taking the best
+    // neighbor rather than the sum keeps index pages from dominating.
+    const adjacency = neighbors(this.linkIndex.graph(docPaths));
+    const candidates = new Set(textScores.keys());
+    for (const path of textScores.keys()) {
+      for (const neighbor of adjacency.get(path) ?? []) candidates.add(neighbor);
     }
 
-    // Sort by score and limit
-    const sorted = Array.from(allResults.values())
+    const sorted = [...candidates]
+      .map((path) => {
+        const linked = [...(adjacency.get(path) ?? [])].filter((n) => textScores.has(n));
+        const textScore = textScores.get(path) ?? 0;
+        const bestNeighbor = Math.max(0, ...linked.map((n) => textScores.get(n)!));
+        const linkScore = LINK_PROXIMITY_WEIGHT * bestNeighbor;
+        return {
+          path,
+          relativePath: byPath.get(path)!.relativePath,
+          score: Number((textScore + linkScore).toFixed(4)),
+          textScore: Number(textScore.toFixed(4)),
+          linkScore: Number(linkScore.toFixed(4)),
+          linkedWith: linked.map((n) => byPath.get(n)!.relativePath),
+          matchedTerms: searchTerms.filter((term) =>
+            tokenize(term).some((t) => this.searchIndex.has(path, t))
+          ),
+        };
+      })
       .sort((a, b) => b.score - a.score)
       .slice(0, maxResults);
 
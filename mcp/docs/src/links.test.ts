@@ -0,0 +1,168 @@
+import { mkdirSync, mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LinkIndex, headingAnchors, neighbors, parseLinks } from './links.js';
+
+describe('parseLinks', () => {
+  const parse = (text: string) => parseLinks(text.split('\n'));
+
+  it('finds inline links, images and autolinks with their positions', () => {
+    const { links } = parse(
+      'See [setup](setup.md#install "Setup") and ![logo](img/logo.png).\n<https://example.com>'
+    );
+
+    expect(links).toEqual([
+      { text: 'setup', target: 'setup.md#install', line: 1, column: 5, kind: 'inline' },
+      { text: 'logo', target: 'img/logo.png', line: 1, column: 43, kind: 'image' },
+      {
+        text: 'https://example.com',
+        target: 'https://example.com',
+        line: 2,
+        column: 1,
+        kind: 'autolink',
+      },
+    ]);
+  });
+
+  it('resolves reference links through their definitions', () => {
+    const { links } = parse(
+      [
+        'Read the [guide][Guide Ref], the [faq][] and [api].',
+        '',
+        '[guide ref]: docs/guide.md',
+        '[FAQ]: faq.md',
+        '[api]: <api.md>',
+      ].join('\n')
+    );
+
+    expect(links.map((link) => [link.text, link.target, link.kind])).toEqual([
+      ['guide', 'docs/guide.md', 'reference'],
+      ['faq', 'faq.md', 'reference'],
+      ['api', 'api.md', 'reference'],
+    ]);
+  });
+
+  it('ignores undefined references, code spans and fenced code', () => {
+    const { links } = parse(
+      ['Checkbox [x] and `[a](b.md)`.', '```', '[c](d.md)', '```', '[e](f.md)'].join('\n')
+    );
+    expect(links.map((link) => link.target)).toEqual(['f.md']);
+  });
+
+  it('skips front matter', () => {
+    const { links } = parse('---\ntitle: "[a](b.md)"\n---\n[c](d.md)');
+    expect(links).toEqual([expect.objectContaining({ target: 'd.md', line: 4 })]);
+  });
+
+  it('collects heading and HTML anchors', () => {
+    const { anchors } = parse('# Getting Started\n<a id="custom"></a>\n<a name="legacy">x</a>');
+    expect([...anchors].sort()).toEqual(['custom', 'getting-started', 'legacy']);
+  });
+});
+
+describe('headingAnchors', () => {
+  it('follows GitHub slug rules and numbers duplicates', () => {
+    const headings = ['API Reference (v2)', 'Notes', 'Notes', 'snake_case & more'].map(
+      (text) => ({ text })
+    );
+    expect(headingAnchors(headings)).toEqual([
+      'api-reference-v2',
+      'notes',
+      'notes-1',
+      'snake_case--more',
+    ]);
+  });
+});
+
+describe('LinkIndex', () => {
+  let root: string;
+  let index: LinkIndex;
+  const docs = new Set<string>();
+
+  const write = (path: string, text: string) => {
+    const full = join(root, path);
+    mkdirSync(join(full, '..'), { recursive: true });
+    writeFileSync(full, text);
+    const stat = statSync(full);
+    return { path: full, size: stat.size, modifiedAt: stat.mtime };
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'links-'));
+    index = new LinkIndex(root);
+    docs.clear();
+    const files = [
+      write(
+        'docs/guide.md',
+        [
+          '# Guide',
+          '[setup](setup.md#install)',
+          '[bad anchor](setup.md#missing)',
+          '[gone](gone.md)',
+          '[root](/README.md)',
+          '[script](../scripts/run.sh)',
+          '[self](#guide)',
+          '[web](https://example.com)',
+        ].join('\n')
+      ),
+      write('docs/setup.md', '# Setup\n## Install\n[guide](guide.md)'),
+      write('README.md', '# Project'),
+    ];
+    write('scripts/run.sh', 'echo');
+    index.update(files);
+    for (const file of files) docs.add(file.path);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('resolves each link and reports broken files and anchors', () => {
+    const guide = join(root, 'docs/guide.md');
+    const resolved = index.resolve(guide, docs);
+
+    const summary = resolved.map((link) => [link.text, link.type, link.status, link.resolvedPath]);
+
+    expect(summary).toEqual([
+      ['setup', 'doc', 'ok', join(root, 'docs/setup.md')],
+      ['bad anchor', 'doc', 'missing_anchor', join(root, 'docs/setup.md')],
+      ['gone', 'file', 'missing_file', join(root, 'docs/gone.md')],
+      ['root', 'doc', 'ok', join(root, 'README.md')],
+      ['script', 'file', 'ok', join(root, 'scripts/run.sh')],
+      ['self', 'doc', 'ok', guide],
+      ['web', 'external', 'external', undefined],
+    ]);
+  });
+
+  it('builds the doc graph without self-links or non-doc targets', () => {
+    const graph = index.graph(docs);
+
+    expect(graph.get(join(root, 'docs/guide.md'))).toEqual(
+      new Set([join(root, 'docs/setup.md'), join(root, 'README.md')])
+    );
+    expect(graph.get(join(root, 'README.md'))).toEqual(new Set());
+  });
+
+  it('returns no links for docs it has not indexed', () => {
+    expect(index.resolve(join(root, 'other.md'), docs)).toEqual([]);
+  });
+});
+
+describe('neighbors', () => {
+  it('makes the link graph undirected', () => {
+    const graph = new Map([
+      ['a', new Set(['b'])],
+      ['b', new Set(['c'])],
+      ['c', new Set<string>()],
+    ]);
+
+    expect(neighbors(graph)).toEqual(
+      new Map([
+        ['a', new Set(['b'])],
+        ['b', new Set(['a', 'c'])],
+        ['c', new Set(['b'])],
+      ])
+    );
+  });
+});
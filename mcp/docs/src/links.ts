@@ -0,0 +1,273 @@
+/**
+ * Link graph across the project docs.
+ *
+ * Parses inline links (`[text](target)`), images, autolinks (`<https://…>`)
+ * and reference-style links (`[text][ref]`, `[text][]`, `[ref]`) together
+ * with their `[ref]: target` definitions, skipping code. Heading anchors
+ * follow GitHub's slug rules; `<a id="…">` and `<a name="…">` also count.
+ * Like the search index, docs are re-parsed only when their mtime or size
+ * changes.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { frontMatterLength, parseHeadings } from './sections.js';
+
+export interface DocLink {
+  text: string;
+  /** Link target as written */
+  target: string;
+  line: number;
+  column: number;
+  kind: 'inline' | 'reference' | 'image' | 'autolink';
+}
+
+export type LinkStatus = 'ok' | 'missing_file' | 'missing_anchor' | 'external';
+
+export interface ResolvedLink extends DocLink {
+  /** `doc`: another discovered doc (or the same one); `file`: any other path */
+  type: 'doc' | 'file' | 'external';
+  /** Absolute path of the target file; absent for external links */
+  resolvedPath?: string;
+  fragment?: string;
+  status: LinkStatus;
+}
+
+export interface LinkableDoc {
+  path: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+interface LinkEntry {
+  stamp: string;
+  links: DocLink[];
+  anchors: Set<string>;
+}
+
+const EXTERNAL = /^[a-z][a-z0-9+.-]*:/i;
+/** `[text](target "title")`; the text may contain one level of brackets */
+const INLINE = new RegExp(
+  String.raw`(!?)\[((?:[^\][]|\[[^\]]*\])*)\]` +
+    String.raw`\(\s*<?([^)\s>]*)>?(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)`,
+  'g'
+);
+const REFERENCE = /(!?)\[((?:[^\][]|\[[^\]]*\])+)\](?:\[([^\]]*)\])?(?![(:])/g;
+const AUTOLINK = /<([a-z][a-z0-9+.-]*:[^\s<>]+)>/gi;
+const DEFINITION = /^\s{0,3}\[([^\]]+)\]:\s*<?([^\s>]+)>?/;
+const HTML_ANCHOR = /<a\s[^>]*\b(?:id|name)\s*=\s*["']([^"']+)["']/gi;
+
+function label(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * GitHub-style heading slug: lowercase, punctuation dropped, spaces to
+ * hyphens. Repeated headings get `-1`, `-2`, … appended.
+ */
+export function headingAnchors(headings: Array<{ text: string }>): string[] {
+  const seen = new Map<string, number>();
+  return headings.map((heading) => {
+    const slug = heading.text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .replace(/\s/g, '-');
+    const count = seen.get(slug) ?? 0;
+    seen.set(slug, count + 1);
+    return count === 0 ? slug : `${slug}-${count}`;
+  });
+}
+
+/** Replaces `length` characters at `start` with spaces, keeping columns intact */
+function blank(text: string, start: number, length: number): string {
+  return text.slice(0, start) + ' '.repeat(length) + text.slice(start + length);
+}
+
+function blankCode(line: string): string {
+  return line.replace(/(`+)[^`]*?\1/g, (code) => ' '.repeat(code.length));
+}
+
+export function parseLinks(lines: string[]): { links: DocLink[]; anchors: Set<string> } {
+  const definitions = new Map<string, string>();
+  const prose: Array<{ text: string; line: number }> = [];
+  let fence: string | null = null;
+
+  for (let i = frontMatterLength(lines); i < lines.length; i++) {
+    const fenceMatch = lines[i].match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) fence = marker;
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const definition = lines[i].match(DEFINITION);
+    if (definition) {
+      if (!definitions.has(label(definition[1]))) {
+        definitions.set(label(definition[1]), definition[2]);
+      }
+      continue;
+    }
+    prose.push({ text: blankCode(lines[i]), line: i + 1 });
+  }
+
+  const links: DocLink[] = [];
+  const anchors = new Set(headingAnchors(parseHeadings(lines)));
+
+  for (const { text, line } of prose) {
+    for (const match of text.matchAll(HTML_ANCHOR)) {
+      anchors.add(match[1]);
+    }
+
+    // Inline links first; blank them out so the reference pass skips them
+    let rest = text;
+    for (const match of text.matchAll(INLINE)) {
+      links.push({
+        text: match[2],
+        target: match[3],
+        line,
+        column: match.index! + 1,
+        kind: match[1] ? 'image' : 'inline',
+      });
+      rest = blank(rest, match.index!, match[0].length);
+    }
+
+    for (const match of rest.matchAll(REFERENCE)) {
+      const ref = label(match[3] || match[2]);
+      const target = definitions.get(ref);
+      if (target === undefined) continue; // Plain brackets, not a link
+      links.push({
+        text: match[2],
+        target,
+        line,
+        column: match.index! + 1,
+        kind: match[1] ? 'image' : 'reference',
+      });
+    }
+
+    for (const match of rest.matchAll(AUTOLINK)) {
+      const column = match.index! + 1;
+      links.push({ text: match[1], target: match[1], line, column, kind: 'autolink' });
+    }
+  }
+
+  links.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { links, anchors };
+}
+
+export class LinkIndex {
+  private entries = new Map<string, LinkEntry>();
+
+  constructor(private readonly projectRoot: string) {}
+
+  /**
+   * Brings the index up to date with `docs`, re-parsing only files whose
+   * mtime or size changed (read through `read`) and dropping files that no
+   * longer exist.
+   */
+  update(
+    docs: LinkableDoc[],
+    read: (path: string) => string = (path) => readFileSync(path, 'utf-8')
+  ) {
+    for (const path of [...this.entries.keys()]) {
+      if (!existsSync(path)) this.entries.delete(path);
+    }
+
+    for (const doc of docs) {
+      const stamp = `${doc.modifiedAt.getTime()}:${doc.size}`;
+      if (this.entries.get(doc.path)?.stamp === stamp) continue;
+      try {
+        const parsed = parseLinks(read(doc.path).split('\n'));
+        this.entries.set(doc.path, { stamp, ...parsed });
+      } catch {
+        this.entries.delete(doc.path);
+      }
+    }
+  }
+
+  /**
+   * Resolves the links of the doc at `path`. Relative targets are resolved
+   * against the doc's directory and `/`-rooted ones against the project root.
+   * `docs` is the set of discovered docs, which decides between `doc` and `file`.
+   */
+  resolve(path: string, docs: Set<string>): ResolvedLink[] {
+    const entry = this.entries.get(path);
+    if (!entry) return [];
+
+    return entry.links.map((link): ResolvedLink => {
+      if (EXTERNAL.test(link.target)) {
+        return { ...link, type: 'external', status: 'external' };
+      }
+
+      const hashIndex = link.target.indexOf('#');
+      const filePart = hashIndex === -1 ? link.target : link.target.slice(0, hashIndex);
+      const fragment = hashIndex === -1 ? undefined : link.target.slice(hashIndex + 1);
+
+      const decoded = safeDecode(filePart);
+      const resolvedPath = !decoded
+        ? path
+        : decoded.startsWith('/')
+          ? resolve(this.projectRoot, `.${decoded}`)
+          : resolve(dirname(path), decoded);
+      const type = docs.has(resolvedPath) ? 'doc' : 'file';
+
+      let status: LinkStatus = 'ok';
+      if (!existsSync(resolvedPath)) {
+        status = 'missing_file';
+      } else if (fragment && statSync(resolvedPath).isFile()) {
+        const anchors = this.entries.get(resolvedPath)?.anchors;
+        // Only docs have known anchors; fragments into other files are not checked
+        if (anchors && !anchors.has(safeDecode(fragment))) {
+          status = 'missing_anchor';
+        }
+      }
+
+      return { ...link, type, resolvedPath, fragment, status };
+    });
+  }
+
+  /**
+   * Links between discovered docs, as `source -> targets` (self-links excluded).
+   */
+  graph(docs: Set<string>): Map<string, Set<string>> {
+    const edges = new Map<string, Set<string>>();
+    for (const path of docs) {
+      const targets = new Set(
+        this.resolve(path, docs)
+          .filter((link) => link.type === 'doc' && link.resolvedPath !== path)
+          .map((link) => link.resolvedPath!)
+      );
+      edges.set(path, targets);
+    }
+    return edges;
+  }
+}
+
+/** Decodes `%20` and the like; malformed escapes are kept as written */
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Turns `source -> targets` edges into undirected adjacency: the docs each
+ * doc links to or is linked from.
+ */
+export function neighbors(graph: Map<string, Set<string>>): Map<string, Set<string>> {
+  const adjacency = new Map<string, Set<string>>();
+  const add = (from: string, to: string) => {
+    if (!adjacency.has(from)) adjacency.set(from, new Set());
+    adjacency.get(from)!.add(to);
+  };
+  for (const [source, targets] of graph) {
+    for (const target of targets) {
+      add(source, target);
+      add(target, source);
+    }
+  }
+  return adjacency;
+}
@@ -0,0 +1,52 @@
+/**
+ * Project config reader for the docs server.
+ *
+ * Loads the shared `.claude/feature-orchestrator.yml` through the loader in
+ * `@feature-orchestrator/mcp-shared`, which all three servers use, and picks `docs.paths`. The file is
+ * re-read whenever it changes on disk; invalid values and parse errors are
+ * handled and reported the same way in every server.
+ */
+
+import { join } from 'path';
+import {
+  LoadedConfig,
+  ProjectConfig,
+  ProjectConfigStore as ConfigFileStore,
+} from '@feature-orchestrator/mcp-shared';
+
+export interface DocsSettings {
+  /** Documentation paths relative to the project root */
+  paths: string[];
+}
+
+/**
+ * Picks this server's settings from a resolved config, whose defaults the
+ * shared loader has already filled in.
+ */
+export function resolveSettings(config: ProjectConfig): DocsSettings {
+  // Config paths are written as `/docs` as often as `docs`; both mean project-relative
+  return { paths: (config.docs?.paths ?? []).map((p) => p.replace(/^\/+/, '')) };
+}
+
+/**
+ * Resolves the settings from the shared config store, again whenever the
+ * file changes.
+ */
+export class ProjectConfigStore {
+  private readonly file: ConfigFileStore;
+  private loaded: LoadedConfig | null = null;
+  private settings!: DocsSettings;
+
+  constructor(projectRoot: string) {
+    this.file = new ConfigFileStore(join(projectRoot, '.claude', 'feature-orchestrator.yml'));
+  }
+
+  get(): DocsSettings {
+    const loaded = this.file.get();
+    if (loaded !== this.loaded) {
+      this.loaded = loaded;
+      this.settings = resolveSettings(loaded.config);
+    }
+    return this.settings;
+  }
+}
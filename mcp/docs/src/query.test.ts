@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { compileQuery, editDistance } from './query.js';
+
+const insensitive = { caseSensitive: false } as const;
+
+describe('literal mode', () => {
+  it('reports every occurrence, ignoring case', () => {
+    const query = compileQuery('token', { mode: 'literal', ...insensitive });
+    expect(query.matchLine('Token refresh renews the token')).toEqual([
+      { start: 0, end: 5, text: 'Token' },
+      { start: 25, end: 30, text: 'token' },
+    ]);
+  });
+
+  it('respects case when asked', () => {
+    const query = compileQuery('Token', { mode: 'literal', caseSensitive: true });
+    expect(query.matchLine('token Token').map((span) => span.start)).toEqual([6]);
+  });
+});
+
+describe('regex mode', () => {
+  it('reports matches with their columns', () => {
+    const query = compileQuery('AC\\d+', { mode: 'regex', ...insensitive });
+    expect(query.matchLine('covers ac1 and AC12')).toEqual([
+      { start: 7, end: 10, text: 'ac1' },
+      { start: 15, end: 19, text: 'AC12' },
+    ]);
+  });
+
+  it('skips empty matches', () => {
+    const query = compileQuery('x*', { mode: 'regex', ...insensitive });
+    expect(query.matchLine('abc')).toEqual([]);
+  });
+
+  it('rejects unsupported flags and invalid patterns', () => {
+    expect(() => compileQuery('a', { mode: 'regex', flags: 'g', ...insensitive })).toThrow(
+      'Invalid regex flags "g"'
+    );
+    expect(() => compileQuery('(', { mode: 'regex', ...insensitive })).toThrow(/^Invalid regex: /);
+  });
+});
+
+describe('boolean mode', () => {
+  const doc = 'Sessions expire after 30 minutes.\nRefresh tokens rotate on use.';
+  const matches = (query: string) =>
+    compileQuery(query, { mode: 'boolean', ...insensitive }).matchesDocument(doc);
+
+  it('ANDs adjacent terms', () => {
+    expect(matches('session refresh')).toBe(true);
+    expect(matches('session password')).toBe(false);
+  });
+
+  it('gives AND precedence over OR and honors parentheses', () => {
+    expect(matches('password AND mfa OR rotate')).toBe(true);
+    expect(matches('password AND (mfa OR rotate)')).toBe(false);
+  });
+
+  it('evaluates NOT and leaves negated terms out of the matches', () => {
+    const query = compileQuery('"refresh tokens" NOT password', { mode: 'boolean', ...insensitive });
+
+    expect(query.matchesDocument(doc)).toBe(true);
+    expect(query.matchLine('Refresh tokens rotate on use.')).toEqual([
+      { start: 0, end: 14, text: 'Refresh tokens' },
+    ]);
+    expect(matches('refresh NOT rotate')).toBe(false);
+  });
+
+  it('rejects malformed queries', () => {
+    const compile = (q: string) => () => compileQuery(q, { mode: 'boolean', ...insensitive });
+
+    expect(compile('(session OR refresh')).toThrow('Invalid boolean query: missing ")"');
+    expect(compile('session AND')).toThrow('expected a term at the end of the query');
+    expect(compile('"unterminated phrase')).toThrow('unterminated phrase');
+    expect(compile('NOT session')).toThrow('at least one term must not be negated');
+    expect(compile('session )')).toThrow('unexpected )');
+  });
+});
+
+describe('fuzzy mode', () => {
+  it('matches words within the edit budget', () => {
+    const query = compileQuery('authentcation', { mode: 'fuzzy', ...insensitive });
+    expect(query.matchLine('Authentication uses OAuth')).toEqual([
+      { start: 0, end: 14, text: 'Authentication', distance: 1 },
+    ]);
+  });
+
+  it('requires every query word in the line', () => {
+    const query = compileQuery('refresh tokesn', { mode: 'fuzzy', ...insensitive });
+    expect(query.matchLine('Refresh tokens rotate').map((span) => span.text)).toEqual([
+      'Refresh',
+      'tokens',
+    ]);
+    expect(query.matchLine('Refresh rotates')).toEqual([]);
+  });
+
+  it('allows no edits in short words', () => {
+    const query = compileQuery('api', { mode: 'fuzzy', ...insensitive });
+    expect(query.matchLine('the apa endpoint')).toEqual([]);
+  });
+
+  it('validates maxEdits', () => {
+    expect(() => compileQuery('token', { mode: 'fuzzy', maxEdits: -1, ...insensitive })).toThrow(
+      'maxEdits must be a non-negative integer'
+    );
+  });
+});
+
+describe('editDistance', () => {
+  it('counts a transposition as one edit', () => {
+    expect(editDistance('form', 'from', 2)).toBe(1);
+  });
+
+  it('stops counting past the limit', () => {
+    expect(editDistance('session', 'token', 1)).toBe(2);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
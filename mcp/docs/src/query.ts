@@ -0,0 +1,321 @@
+/**
+ * Query modes for search_docs.
+ *
+ * - literal: every occurrence of the query text
+ * - regex:   a JavaScript regular expression, applied line by line
+ * - boolean: terms and "quoted phrases" combined with AND, OR, NOT and
+ *            parentheses; adjacent terms are ANDed. The expression is
+ *            evaluated against the whole document, and occurrences of the
+ *            terms that are not negated are reported as matches.
+ * - fuzzy:   every query word must match a word in the line within a small
+ *            edit distance (insertions, deletions, substitutions and
+ *            transpositions), so typos in either still match
+ */
+
+export type QueryMode = 'literal' | 'regex' | 'boolean' | 'fuzzy';
+
+export const QUERY_MODES: QueryMode[] = ['literal', 'regex', 'boolean', 'fuzzy'];
+
+export interface QueryOptions {
+  mode: QueryMode;
+  caseSensitive: boolean;
+  /** Extra regex flags (`i`, `m`, `s`, `u`); regex mode only */
+  flags?: string;
+  /** Maximum edits per word; fuzzy mode only, defaults by word length */
+  maxEdits?: number;
+}
+
+export interface MatchSpan {
+  /** Column of the first matched character in the line (0-based) */
+  start: number;
+  /** Column just past the last matched character */
+  end: number;
+  text: string;
+  /** Edits between the matched word and the query word; fuzzy mode only */
+  distance?: number;
+}
+
+export interface CompiledQuery {
+  /** Whether the document can contain matches; only boolean mode looks at the whole text */
+  matchesDocument(content: string): boolean;
+  /** Matched spans in one line, in order of position */
+  matchLine(line: string): MatchSpan[];
+}
+
+const REGEX_FLAGS = /^[imsu]*$/;
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+function literalSpans(line: string, needle: string, caseSensitive: boolean): MatchSpan[] {
+  if (!needle) return [];
+  const haystack = caseSensitive ? line : line.toLowerCase();
+  const target = caseSensitive ? needle : needle.toLowerCase();
+  const spans: MatchSpan[] = [];
+  let index = haystack.indexOf(target);
+  while (index !== -1) {
+    const end = index + target.length;
+    spans.push({ start: index, end, text: line.slice(index, end) });
+    index = haystack.indexOf(target, end);
+  }
+  return spans;
+}
+
+function sortSpans(spans: MatchSpan[]): MatchSpan[] {
+  return spans.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+function literalQuery(query: string, caseSensitive: boolean): CompiledQuery {
+  return {
+    matchesDocument: () => true,
+    matchLine: (line) => literalSpans(line, query, caseSensitive),
+  };
+}
+
+function regexQuery(query: string, options: QueryOptions): CompiledQuery {
+  const extra = options.flags ?? '';
+  if (!REGEX_FLAGS.test(extra)) {
+    throw new Error(`Invalid regex flags "${extra}": only i, m, s and u are supported`);
+  }
+
+  const flags = new Set(['g', ...extra, ...(options.caseSensitive ? [] : ['i'])]);
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(query, [...flags].join(''));
+  } catch (error) {
+    throw new Error(`Invalid regex: ${(error as Error).message}`);
+  }
+
+  return {
+    matchesDocument: () => true,
+    matchLine: (line) => {
+      const spans: MatchSpan[] = [];
+      for (const match of line.matchAll(pattern)) {
+        // Empty matches (e.g. `^` or `a*`) mark a position, not a span to cite
+        if (match[0].length === 0) continue;
+        const start = match.index!;
+        spans.push({ start, end: start + match[0].length, text: match[0] });
+      }
+      return spans;
+    },
+  };
+}
+
+type BooleanNode =
+  | { type: 'term'; value: string }
+  | { type: 'and' | 'or'; left: BooleanNode; right: BooleanNode }
+  | { type: 'not'; operand: BooleanNode };
+
+type Token = { kind: 'term' | 'and' | 'or' | 'not' | 'open' | 'close'; value: string };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:"([^"]*)"|(\()|(\))|([^\s()"]+))/gy;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  while ((match = pattern.exec(query)) !== null && match[0].length > 0) {
+    consumed = pattern.lastIndex;
+    const [, phrase, open, close, word] = match;
+    if (phrase !== undefined) tokens.push({ kind: 'term', value: phrase });
+    else if (open) tokens.push({ kind: 'open', value: open });
+    else if (close) tokens.push({ kind: 'close', value: close });
+    else if (word === 'AND') tokens.push({ kind: 'and', value: word });
+    else if (word === 'OR') tokens.push({ kind: 'or', value: word });
+    else if (word === 'NOT') tokens.push({ kind: 'not', value: word });
+    else tokens.push({ kind: 'term', value: word });
+  }
+
+  const rest = query.slice(consumed).trim();
+  if (rest) {
+    throw new Error(`Invalid boolean query: unterminated phrase at "${rest}"`);
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent over `or := and (OR and)*`, `and := not ((AND)? not)*`,
+ * `not := NOT not | primary`, `primary := ( or ) | term`.
+ */
+function parseBoolean(query: string): BooleanNode {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid boolean query: ${message}`);
+  };
+
+  const parseOr = (): BooleanNode => {
+    let node = parseAnd();
+    while (tokens[pos]?.kind === 'or') {
+      pos++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): BooleanNode => {
+    let node = parseNot();
+    for (;;) {
+      const next = tokens[pos];
+      if (next?.kind === 'and') {
+        pos++;
+      } else if (!next || next.kind === 'or' || next.kind === 'close') {
+        return node;
+      }
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+  };
+
+  const parseNot = (): BooleanNode => {
+    if (tokens[pos]?.kind === 'not') {
+      pos++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): BooleanNode => {
+    const token = tokens[pos++];
+    if (!token) return fail('expected a term at the end of the query');
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (tokens[pos++]?.kind !== 'close') fail('missing ")"');
+      return node;
+    }
+    if (token.kind !== 'term') return fail(`unexpected ${token.value}`);
+    if (!token.value) return fail('empty phrase');
+    return { type: 'term', value: token.value };
+  };
+
+  const root = parseOr();
+  if (pos < tokens.length) fail(`unexpected ${tokens[pos].value}`);
+  return root;
+}
+
+/** Terms under an even number of NOTs, i.e. the ones a matching document contains */
+function positiveTerms(node: BooleanNode, negated = false): string[] {
+  switch (node.type) {
+    case 'term':
+      return negated ? [] : [node.value];
+    case 'not':
+      return positiveTerms(node.operand, !negated);
+    default:
+      return [...positiveTerms(node.left, negated), ...positiveTerms(node.right, negated)];
+  }
+}
+
+function booleanQuery(query: string, caseSensitive: boolean): CompiledQuery {
+  const root = parseBoolean(query);
+  const terms = [...new Set(positiveTerms(root))];
+  if (terms.length === 0) {
+    throw new Error('Invalid boolean query: at least one term must not be negated');
+  }
+
+  const evaluate = (node: BooleanNode, text: string): boolean => {
+    switch (node.type) {
+      case 'term':
+        return text.includes(caseSensitive ? node.value : node.value.toLowerCase());
+      case 'not':
+        return !evaluate(node.operand, text);
+      case 'and':
+        return evaluate(node.left, text) && evaluate(node.right, text);
+      case 'or':
+        return evaluate(node.left, text) || evaluate(node.right, text);
+    }
+  };
+
+  return {
+    matchesDocument: (content) => evaluate(root, caseSensitive ? content : content.toLowerCase()),
+    matchLine: (line) =>
+      sortSpans(terms.flatMap((term) => literalSpans(line, term, caseSensitive))),
+  };
+}
+
+/**
+ * Optimal string alignment distance, giving up once it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Edits allowed for a query word: none for short words, where any edit changes the word */
+function defaultMaxEdits(word: string): number {
+  if (word.length <= 3) return 0;
+  return word.length <= 7 ? 1 : 2;
+}
+
+function fuzzyQuery(query: string, options: QueryOptions): CompiledQuery {
+  const normalize = (s: string) => (options.caseSensitive ? s : s.toLowerCase());
+  const terms = [...query.matchAll(WORD)].map((m) => normalize(m[0]));
+  if (terms.length === 0) {
+    throw new Error('Fuzzy query must contain at least one word');
+  }
+  if (
+    options.maxEdits !== undefined &&
+    (!Number.isInteger(options.maxEdits) || options.maxEdits < 0)
+  ) {
+    throw new Error('maxEdits must be a non-negative integer');
+  }
+
+  return {
+    matchesDocument: () => true,
+    matchLine: (line) => {
+      const words = [...line.matchAll(WORD)];
+      const spans: MatchSpan[] = [];
+
+      for (const term of terms) {
+        const max = options.maxEdits ?? defaultMaxEdits(term);
+        const termSpans: MatchSpan[] = [];
+        for (const word of words) {
+          const distance = editDistance(term, normalize(word[0]), max);
+          if (distance <= max) {
+            termSpans.push({
+              start: word.index!,
+              end: word.index! + word[0].length,
+              text: word[0],
+              distance,
+            });
+          }
+        }
+        // Every query word has to occur in the line
+        if (termSpans.length === 0) return [];
+        spans.push(...termSpans);
+      }
+
+      const unique = new Map(spans.map((span) => [span.start, span]));
+      return sortSpans([...unique.values()]);
+    },
+  };
+}
+
+export function compileQuery(query: string, options: QueryOptions): CompiledQuery {
+  switch (options.mode) {
+    case 'literal':
+      return literalQuery(query, options.caseSensitive);
+    case 'regex':
+      return regexQuery(query, options);
+    case 'boolean':
+      return booleanQuery(query, options.caseSensitive);
+    case 'fuzzy':
+      return fuzzyQuery(query, options);
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { extractRequirements, findKeyword, normalizeText } from './requirements.js';
+
+const categories = ['security', 'performance'];
+
+describe('findKeyword', () => {
+  it('takes the strongest uppercase keyword in the sentence', () => {
+    expect(findKeyword('Clients MAY cache and MUST revalidate.')).toBe('MUST');
+    expect(findKeyword('Tokens MUST NOT be logged.')).toBe('MUST NOT');
+    expect(findKeyword('Plain text is NOT RECOMMENDED.')).toBe('NOT RECOMMENDED');
+  });
+
+  it('only counts unambiguous lowercase keywords', () => {
+    expect(findKeyword('The server must reject stale tokens.')).toBe('MUST');
+    expect(findKeyword("Clients shouldn't retry forever.")).toBe('SHOULD NOT');
+    expect(findKeyword('This may be slow when it is required.')).toBeUndefined();
+  });
+
+  it('lets uppercase keywords override lowercase ones', () => {
+    expect(findKeyword('You must restart, but clients MAY reconnect.')).toBe('MAY');
+  });
+
+  it('ignores keywords in inline code', () => {
+    expect(findKeyword('Set `MUST_RESTART` to true.')).toBeUndefined();
+  });
+});
+
+describe('normalizeText', () => {
+  it('ignores case, emphasis, spacing and trailing punctuation', () => {
+    expect(normalizeText('Tokens **MUST**  be   `rotated`.')).toBe('tokens must be rotated');
+  });
+});
+
+describe('extractRequirements', () => {
+  it('yields one requirement per sentence with a keyword', () => {
+    const doc =
+      'Sessions MUST expire after 30 minutes. Users SHOULD be warned first. Some context.';
+    const requirements = extractRequirements(doc, 'docs/auth.md', categories);
+
+    expect(requirements).toEqual([
+      expect.objectContaining({
+        text: 'Sessions MUST expire after 30 minutes.',
+        type: 'must',
+        keyword: 'MUST',
+        negated: false,
+        kind: 'paragraph',
+        context: doc,
+      }),
+      expect.objectContaining({ text: 'Users SHOULD be warned first.', type: 'should' }),
+    ]);
+  });
+
+  it('joins list item continuation lines and keeps keyword-free items as guidelines', () => {
+    const doc = [
+      '- Passwords MUST NOT be stored',
+      '  in plain text.',
+      '- [x] Use the shared button component',
+    ].join('\n');
+
+    expect(extractRequirements(doc, 'docs/auth.md', categories)).toEqual([
+      expect.objectContaining({
+        text: 'Passwords MUST NOT be stored in plain text.',
+        line: 1,
+        type: 'must',
+        negated: true,
+        kind: 'list_item',
+        context: undefined,
+      }),
+      expect.objectContaining({
+        text: 'Use the shared button component',
+        line: 3,
+        type: 'guideline',
+        keyword: undefined,
+      }),
+    ]);
+  });
+
+  it('reads table rows but not header or separator rows', () => {
+    const doc = [
+      '| Rule | Level |',
+      '| --- | --- |',
+      '| Audit logs MAY be exported | low |',
+    ].join('\n');
+
+    expect(extractRequirements(doc, 'docs/audit.md', categories)).toEqual([
+      expect.objectContaining({
+        text: 'Audit logs MAY be exported | low',
+        line: 3,
+        type: 'could',
+        kind: 'table_row',
+      }),
+    ]);
+  });
+
+  it('skips front matter, headings and fenced code', () => {
+    const doc = [
+      '---',
+      'title: Clients MUST NOT appear',
+      '---',
+      '# Servers MUST NOT appear',
+      '```',
+      'Code MUST NOT appear either.',
+      '```',
+      'Only this line MUST appear.',
+    ].join('\n');
+
+    expect(extractRequirements(doc, 'docs/a.md', categories).map((r) => r.line)).toEqual([8]);
+  });
+
+  it('records the heading path and the nearest category', () => {
+    const doc = ['# Security', '## Sessions', 'Sessions MUST expire after 30 minutes.'].join('\n');
+    const [requirement] = extractRequirements(doc, 'docs/performance.md', categories);
+
+    expect(requirement.headingPath).toEqual(['Security', 'Sessions']);
+    expect(requirement.category).toBe('security');
+  });
+
+  it('falls back to a category named in the file path', () => {
+    const [requirement] = extractRequirements(
+      'Pages MUST render within 2 seconds.',
+      'docs/performance.md',
+      categories
+    );
+    expect(requirement.category).toBe('performance');
+  });
+
+  it('keeps IDs stable across formatting edits and unrelated changes', () => {
+    const before = extractRequirements('Tokens MUST be rotated.', 'docs/a.md', categories);
+    const after = extractRequirements(
+      'Intro paragraph.\n\nTokens **MUST** be rotated',
+      'docs/a.md',
+      categories
+    );
+
+    expect(after[0].id).toBe(before[0].id);
+    expect(before[0].id).toMatch(/^REQ-[0-9a-f]{8}$/);
+  });
+
+  it('includes the source in the ID and numbers repeated requirements', () => {
+    const doc = 'Tokens MUST be rotated.\n\nTokens MUST be rotated.';
+    const [first, second] = extractRequirements(doc, 'docs/a.md', categories);
+    const [elsewhere] = extractRequirements(doc, 'docs/b.md', categories);
+
+    expect(second.id).toBe(`${first.id}-2`);
+    expect(elsewhere.id).not.toBe(first.id);
+  });
+
+  it('does not split sentences after abbreviations', () => {
+    const doc = 'Clients MUST send a nonce, e.g. a UUID. Done.';
+    expect(extractRequirements(doc, 'docs/a.md', categories).map((r) => r.text)).toEqual([
+      'Clients MUST send a nonce, e.g. a UUID.',
+    ]);
+  });
+});
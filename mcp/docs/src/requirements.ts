@@ -0,0 +1,287 @@
+/**
+ * RFC 2119 requirement extraction for extract_requirements.
+ *
+ * Docs are split into paragraphs, list items (with their continuation
+ * lines) and table rows; fenced code, headings and front matter are
+ * skipped. Every sentence containing a keyword becomes one requirement, so
+ * a bullet with two MUSTs yields two. Uppercase keywords are authoritative
+ * as in RFC 8174; in lowercase only the unambiguous must, shall and should
+ * (and their negations) count, so prose such as "this may be slow" is not
+ * a requirement. Keyword-free list items are kept as guidelines.
+ *
+ * IDs hash the doc path and the normalized requirement text, so they stay
+ * the same when unrelated parts of the doc change.
+ */
+
+import { createHash } from 'crypto';
+import { frontMatterLength, headingPathAt, parseHeadings } from './sections.js';
+
+export type Rfc2119Keyword =
+  | 'MUST'
+  | 'MUST NOT'
+  | 'REQUIRED'
+  | 'SHALL'
+  | 'SHALL NOT'
+  | 'SHOULD'
+  | 'SHOULD NOT'
+  | 'RECOMMENDED'
+  | 'NOT RECOMMENDED'
+  | 'MAY'
+  | 'OPTIONAL';
+
+export interface ExtractedRequirement {
+  /** `REQ-` plus a hash of the source and the normalized text */
+  id: string;
+  text: string;
+  source: string;
+  line: number;
+  type: 'must' | 'should' | 'could' | 'guideline';
+  /** The RFC 2119 keyword found, normalized to uppercase; absent for guidelines */
+  keyword?: Rfc2119Keyword;
+  /** MUST NOT, SHALL NOT, SHOULD NOT and NOT RECOMMENDED */
+  negated: boolean;
+  kind: 'paragraph' | 'list_item' | 'table_row';
+  /** Headings enclosing the requirement, outermost first */
+  headingPath: string[];
+  category?: string;
+  /** The whole paragraph, list item or table row, if it holds more than this sentence */
+  context?: string;
+}
+
+interface Unit {
+  kind: ExtractedRequirement['kind'];
+  /** Text pieces with the line each starts on */
+  pieces: Array<{ text: string; line: number }>;
+}
+
+type KeywordMeaning = { type: ExtractedRequirement['type']; negated: boolean };
+
+const KEYWORD_TYPES: Record<Rfc2119Keyword, KeywordMeaning> = {
+  'MUST NOT': { type: 'must', negated: true },
+  'SHALL NOT': { type: 'must', negated: true },
+  MUST: { type: 'must', negated: false },
+  SHALL: { type: 'must', negated: false },
+  REQUIRED: { type: 'must', negated: false },
+  'SHOULD NOT': { type: 'should', negated: true },
+  'NOT RECOMMENDED': { type: 'should', negated: true },
+  SHOULD: { type: 'should', negated: false },
+  RECOMMENDED: { type: 'should', negated: false },
+  MAY: { type: 'could', negated: false },
+  OPTIONAL: { type: 'could', negated: false },
+};
+
+/** Strongest first; a sentence takes the strongest keyword it contains */
+const KEYWORDS = Object.keys(KEYWORD_TYPES) as Rfc2119Keyword[];
+
+/** Negated forms come before their plain keyword, so they match first */
+const UPPERCASE_KEYWORD = new RegExp(`\\b(${KEYWORDS.join('|')})\\b`, 'g');
+const LOWERCASE_KEYWORD =
+  /\b(must not|mustn't|shall not|shan't|should not|shouldn't|must|shall|should)\b/gi;
+
+const LIST_ITEM = /^(\s*)(?:[-*+•]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+/** Abbreviations whose trailing period does not end a sentence */
+const ABBREVIATION = /\b(?:e\.g|i\.e|etc|vs|cf|approx|incl)\.$/i;
+const MIN_LENGTH = 10;
+
+function isBlank(line: string) {
+  return !line.trim() || /^\s*<!--.*-->\s*$/.test(line);
+}
+
+/**
+ * Groups the doc's lines into paragraphs, list items and table rows.
+ */
+function splitUnits(lines: string[], headingLines: Set<number>): Unit[] {
+  const units: Unit[] = [];
+  let current: Unit | null = null;
+  let fence: string | null = null;
+
+  const close = () => {
+    if (current) units.push(current);
+    current = null;
+  };
+
+  for (let i = frontMatterLength(lines); i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      close();
+      const marker = fenceMatch[1];
+      if (fence === null) fence = marker;
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    if (isBlank(line) || headingLines.has(i + 1)) {
+      close();
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      close();
+      const isHeader = TABLE_SEPARATOR.test(lines[i + 1] ?? '');
+      if (!TABLE_SEPARATOR.test(line) && !isHeader) {
+        const cells = line.trim().replace(/^\||\|$/g, '').split('|').map((c) => c.trim());
+        units.push({
+          kind: 'table_row',
+          pieces: [{ text: cells.filter(Boolean).join(' | '), line: i + 1 }],
+        });
+      }
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      close();
+      current = { kind: 'list_item', pieces: [{ text: item[2], line: i + 1 }] };
+      continue;
+    }
+
+    if (current === null) {
+      current = { kind: 'paragraph', pieces: [] };
+    }
+    current.pieces.push({ text: line.trim(), line: i + 1 });
+  }
+  close();
+  return units;
+}
+
+/**
+ * Splits a unit into sentences, each with the line it starts on.
+ */
+function splitSentences(unit: Unit): Array<{ text: string; line: number }> {
+  const sentences: Array<{ text: string; line: number }> = [];
+  let text = '';
+  let line = unit.pieces[0]?.line ?? 0;
+
+  for (const piece of unit.pieces) {
+    const words = piece.text.split(/\s+/).filter(Boolean);
+    for (const word of words) {
+      if (!text) line = piece.line;
+      text = text ? `${text} ${word}` : word;
+      const endsSentence = /[.!?]["')\]]*$/.test(word) && !ABBREVIATION.test(word);
+      if (endsSentence && unit.kind !== 'table_row') {
+        sentences.push({ text, line });
+        text = '';
+      }
+    }
+  }
+  if (text) sentences.push({ text, line });
+  return sentences;
+}
+
+/**
+ * Returns the strongest RFC 2119 keyword in `sentence`, ignoring inline code.
+ */
+export function findKeyword(sentence: string): Rfc2119Keyword | undefined {
+  const prose = sentence.replace(/(`+)[^`]*?\1/g, '');
+  let found = [...prose.matchAll(UPPERCASE_KEYWORD)].map((m) => m[1] as Rfc2119Keyword);
+  if (found.length === 0) {
+    found = [...prose.matchAll(LOWERCASE_KEYWORD)].map(
+      (m) =>
+        m[1]
+          .toUpperCase()
+          .replace("MUSTN'T", 'MUST NOT')
+          .replace("SHAN'T", 'SHALL NOT')
+          .replace("SHOULDN'T", 'SHOULD NOT') as Rfc2119Keyword
+    );
+  }
+  return KEYWORDS.find((keyword) => found.includes(keyword));
+}
+
+/**
+ * Lowercases `text` and drops emphasis markers, extra whitespace and
+ * trailing punctuation, so formatting-only edits leave it unchanged.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.;:,!?]+$/, '')
+    .trim();
+}
+
+function wordPattern(category: string): RegExp {
+  const escaped = category.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Extracts the requirements of one doc. `source` is the doc's path as
+ * reported, and is part of every ID.
+ */
+export function extractRequirements(
+  content: string,
+  source: string,
+  categories: string[]
+): ExtractedRequirement[] {
+  const lines = content.split('\n');
+  const headings = parseHeadings(lines);
+  const headingLines = new Set(headings.map((h) => h.line));
+  const patterns = categories.map((category) => ({ category, pattern: wordPattern(category) }));
+
+  const categoryOf = (headingPath: string[]) => {
+    // The nearest heading naming a category wins, then the file path
+    for (const heading of [...headingPath].reverse()) {
+      const match = patterns.find(({ pattern }) => pattern.test(heading));
+      if (match) return match.category;
+    }
+    return patterns.find(({ pattern }) => pattern.test(source))?.category;
+  };
+
+  const requirements: ExtractedRequirement[] = [];
+  const seen = new Map<string, number>();
+
+  const add = (
+    text: string,
+    line: number,
+    unit: Unit,
+    unitText: string,
+    keyword: Rfc2119Keyword | undefined
+  ) => {
+    if (text.length <= MIN_LENGTH) return;
+
+    const hash = createHash('sha256')
+      .update(`${source}\n${normalizeText(text)}`)
+      .digest('hex')
+      .slice(0, 8);
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+
+    const headingPath = headingPathAt(headings, line);
+    requirements.push({
+      id: occurrence === 1 ? `REQ-${hash}` : `REQ-${hash}-${occurrence}`,
+      text,
+      source,
+      line,
+      type: keyword ? KEYWORD_TYPES[keyword].type : 'guideline',
+      keyword,
+      negated: keyword ? KEYWORD_TYPES[keyword].negated : false,
+      kind: unit.kind,
+      headingPath,
+      category: categoryOf(headingPath),
+      context: unitText !== text ? unitText : undefined,
+    });
+  };
+
+  for (const unit of splitUnits(lines, headingLines)) {
+    const sentences = splitSentences(unit);
+    const unitText = sentences.map((s) => s.text).join(' ');
+    const withKeywords = sentences
+      .map((sentence) => ({ ...sentence, keyword: findKeyword(sentence.text) }))
+      .filter((sentence) => sentence.keyword);
+
+    if (withKeywords.length > 0) {
+      for (const sentence of withKeywords) {
+        add(sentence.text, sentence.line, unit, unitText, sentence.keyword);
+      }
+    } else if (unit.kind === 'list_item') {
+      add(unitText, unit.pieces[0].line, unit, unitText, undefined);
+    }
+  }
+
+  return requirements;
+}
@@ -0,0 +1,162 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SearchIndex, tokenize } from './search-index.js';
+
+const modifiedAt = new Date('2026-01-01T00:00:00Z');
+
+/** Indexes in-memory docs; their paths do not exist on disk */
+function indexOf(docs: Record<string, string>): SearchIndex {
+  const index = new SearchIndex();
+  index.update(
+    Object.entries(docs).map(([path, text]) => ({ path, size: text.length, modifiedAt })),
+    (path) => docs[path]
+  );
+  return index;
+}
+
+describe('tokenize', () => {
+  it('lowercases, drops stop words and stems', () => {
+    expect(tokenize('The Authentication of users')).toEqual(['authent', 'user']);
+    expect(tokenize('authenticated')).toEqual(tokenize('authentication'));
+  });
+
+  it('splits on punctuation and leaves identifiers unstemmed', () => {
+    expect(tokenize('run_retention, max-age 30')).toEqual(['run_retention', 'max', 'ag', '30']);
+  });
+});
+
+describe('SearchIndex', () => {
+  const filler = 'Unrelated prose about deployment pipelines and caching. '.repeat(20);
+
+  it('ranks a doc whose heading names the topic above a passing mention', () => {
+    const index = indexOf({
+      'long.md': `# Operations\n\n${filler}\nSessions expire eventually.\n${filler}`,
+      'short.md': '# Sessions\n\nHow long they last.',
+    });
+
+    const ranked = index.search(tokenize('sessions'));
+
+    expect(ranked.map((doc) => doc.path)).toEqual(['short.md', 'long.md']);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('weights the front-matter title above body text', () => {
+    const index = indexOf({
+      'titled.md': '---\ntitle: Password reset\n---\nSee the flow below. Reset links expire.',
+      'body.md': 'Password reset links expire. See the flow below.',
+    });
+
+    expect(index.search(tokenize('password')).map((doc) => doc.path)).toEqual([
+      'titled.md',
+      'body.md',
+    ]);
+  });
+
+  it('scores rare terms above common ones', () => {
+    const index = indexOf({
+      'a.md': 'token rotation',
+      'b.md': 'token expiry',
+      'c.md': 'token scopes',
+    });
+
+    expect(index.score('a.md', ['rotat'])).toBeGreaterThan(index.score('a.md', ['token']));
+  });
+
+  it('reports which query terms each doc contains', () => {
+    const index = indexOf({ 'a.md': 'refresh tokens', 'b.md': 'tokens only' });
+
+    expect(index.search(tokenize('refresh tokens'))).toEqual([
+      { path: 'a.md', score: expect.any(Number), terms: ['refresh', 'token'] },
+      { path: 'b.md', score: expect.any(Number), terms: ['token'] },
+    ]);
+  });
+
+  it('restricts results to the given paths', () => {
+    const index = indexOf({ 'a.md': 'tokens', 'b.md': 'tokens' });
+    expect(index.search(['token'], new Set(['b.md'])).map((doc) => doc.path)).toEqual(['b.md']);
+  });
+
+  it('scores unindexed docs and absent terms as zero', () => {
+    const index = indexOf({ 'a.md': 'tokens' });
+    expect(index.score('missing.md', ['token'])).toBe(0);
+    expect(index.score('a.md', ['session'])).toBe(0);
+  });
+
+  it('computes the corpus statistics over the searched docs only', () => {
+    const api = {
+      'api/tokens.md': '# Tokens\n\nRefresh tokens rotate.',
+      'api/sessions.md': 'Sessions hold a token.',
+    };
+    const index = indexOf({
+      ...api,
+      'guides/a.md': `${filler} tokens`,
+      'guides/b.md': `${filler} tokens`,
+      'guides/c.md': `${filler} tokens`,
+    });
+    const alone = indexOf(api);
+    const paths = new Set(Object.keys(api));
+
+    expect(index.search(tokenize('refresh tokens'), paths)).toEqual(
+      alone.search(tokenize('refresh tokens'))
+    );
+    expect(index.scorer(paths)('api/sessions.md', ['token'])).toBe(
+      alone.score('api/sessions.md', ['token'])
+    );
+    expect(index.scorer(paths)('guides/a.md', ['token'])).toBe(0);
+    expect(index.score('api/sessions.md', ['token'])).not.toBe(
+      alone.score('api/sessions.md', ['token'])
+    );
+  });
+
+  it('indexes a doc without a title when its front matter does not parse', () => {
+    const index = indexOf({ 'broken.md': '---\ntitle: [unclosed\n---\nTokens rotate.' });
+    expect(index.has('broken.md', 'token')).toBe(true);
+  });
+
+  describe('update', () => {
+    let dir: string;
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('re-indexes only changed docs and drops deleted ones', () => {
+      dir = mkdtempSync(join(tmpdir(), 'search-index-'));
+      const a = join(dir, 'a.md');
+      const b = join(dir, 'b.md');
+      writeFileSync(a, 'tokens');
+      writeFileSync(b, 'sessions');
+      const index = new SearchIndex();
+      const doc = (path: string, size: number) => ({ path, size, modifiedAt });
+
+      expect(index.update([doc(a, 6), doc(b, 8)])).toEqual({ indexed: 2, removed: 0 });
+      expect(index.update([doc(a, 6), doc(b, 8)])).toEqual({ indexed: 0, removed: 0 });
+
+      writeFileSync(a, 'refresh tokens');
+      rmSync(b);
+      expect(index.update([doc(a, 14)])).toEqual({ indexed: 1, removed: 1 });
+      expect(index.size).toBe(1);
+      expect(index.has(a, 'refresh')).toBe(true);
+      expect(index.search(['session'])).toEqual([]);
+    });
+
+    it('drops a doc that can no longer be read', () => {
+      dir = mkdtempSync(join(tmpdir(), 'search-index-'));
+      const a = join(dir, 'a.md');
+      writeFileSync(a, 'tokens');
+      const index = new SearchIndex();
+      index.update([{ path: a, size: 6, modifiedAt }]);
+
+      const unreadable = () => {
+        throw new Error('EACCES');
+      };
+      expect(index.update([{ path: a, size: 7, modifiedAt }], unreadable)).toEqual({
+        indexed: 0,
+        removed: 0,
+      });
+      expect(index.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Inverted index with BM25 ranking for search_docs and find_related_docs.
+ *
+ * Terms are lowercased, stemmed and stripped of stop words. Occurrences in
+ * headings and in the front-matter title count several times over, so a
+ * short doc whose heading names the topic ranks above a long doc that
+ * mentions it in passing. Docs are re-indexed only when their mtime or size
+ * changes.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import matter from 'gray-matter';
+import { frontMatterLength, parseHeadings } from './sections.js';
+import { stem } from './stemmer.js';
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+const HEADING_WEIGHT = 3;
+const TITLE_WEIGHT = 5;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by for from has have if in into is it its of on or ' +
+    'that the their then there these this to was were will with'
+  ).split(' ')
+);
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+export interface IndexableDoc {
+  path: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface RankedDoc {
+  path: string;
+  score: number;
+  /** Query terms (stemmed) the doc contains */
+  terms: string[];
+}
+
+interface IndexEntry {
+  stamp: string;
+  /** Weighted number of terms */
+  length: number;
+  terms: Map<string, number>;
+}
+
+/**
+ * Splits `text` into index terms: lowercased, stemmed, without stop words.
+ */
+export function tokenize(text: string): string[] {
+  return [...text.toLowerCase().matchAll(WORD)]
+    .map((match) => match[0])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+export class SearchIndex {
+  private entries = new Map<string, IndexEntry>();
+  /** term -> doc path -> weighted term frequency */
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Brings the index up to date with `docs`: new and changed files are
+   * (re-)indexed through `read`, and indexed files that no longer exist
+   * are dropped.
+   */
+  update(
+    docs: IndexableDoc[],
+    read: (path: string) => string = (path) => readFileSync(path, 'utf-8')
+  ): { indexed: number; removed: number } {
+    let indexed = 0;
+    let removed = 0;
+
+    for (const path of [...this.entries.keys()]) {
+      if (!existsSync(path)) {
+        this.remove(path);
+        removed++;
+      }
+    }
+
+    for (const doc of docs) {
+      const stamp = `${doc.modifiedAt.getTime()}:${doc.size}`;
+      if (this.entries.get(doc.path)?.stamp === stamp) {
+        continue;
+      }
+      try {
+        this.add(doc.path, stamp, read(doc.path));
+        indexed++;
+      } catch {
+        this.remove(doc.path); // Unreadable now; drop any stale entry
+      }
+    }
+
+    return { indexed, removed };
+  }
+
+  private add(path: string, stamp: string, raw: string) {
+    this.remove(path);
+
+    let title = '';
+    if (path.endsWith('.md') || path.endsWith('.mdx')) {
+      try {
+        const data = matter(raw).data;
+        title = typeof data.title === 'string' ? data.title : '';
+      } catch {
+        // Index without a title if the front matter does not parse
+      }
+    }
+
+    const terms = new Map<string, number>();
+    const count = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        terms.set(term, (terms.get(term) ?? 0) + weight);
+      }
+    };
+
+    const lines = raw.split('\n');
+    const headings = new Map(parseHeadings(lines).map((h) => [h.line, h.text]));
+    count(title, TITLE_WEIGHT);
+    for (let i = frontMatterLength(lines); i < lines.length; i++) {
+      const heading = headings.get(i + 1);
+      count(heading ?? lines[i], heading !== undefined ? HEADING_WEIGHT : 1);
+    }
+
+    let length = 0;
+    for (const [term, frequency] of terms) {
+      length += frequency;
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(path, frequency);
+    }
+
+    this.entries.set(path, { stamp, length, terms });
+    this.totalLength += length;
+  }
+
+  private remove(path: string) {
+    const entry = this.entries.get(path);
+    if (!entry) return;
+
+    for (const term of entry.terms.keys()) {
+      const docs = this.postings.get(term)!;
+      docs.delete(path);
+      if (docs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.entries.delete(path);
+    this.totalLength -= entry.length;
+  }
+
+  has(path: string, term: string): boolean {
+    return this.entries.get(path)?.terms.has(term) ?? false;
+  }
+
+  /**
+   * BM25 score of the doc at `path` for `terms` over the whole index; 0 if
+   * it is not indexed.
+   */
+  score(path: string, terms: string[]): number {
+    return this.scorer()(path, terms);
+  }
+
+  /**
+   * Returns a BM25 scoring function whose corpus is the indexed docs in
+   * `paths`, or every indexed doc. The doc count, average length and term
+   * frequencies then describe the docs being searched rather than every
+   * path indexed so far. Docs outside the corpus score 0.
+   */
+  scorer(paths?: Set<string>): (path: string, terms: string[]) => number {
+    const inCorpus = (path: string) => !paths || paths.has(path);
+
+    let count = this.entries.size;
+    let totalLength = this.totalLength;
+    if (paths) {
+      count = 0;
+      totalLength = 0;
+      for (const path of paths) {
+        const entry = this.entries.get(path);
+        if (!entry) continue;
+        count++;
+        totalLength += entry.length;
+      }
+    }
+    const averageLength = totalLength / count || 1;
+
+    const docFrequencies = new Map<string, number>();
+    const docFrequency = (term: string) => {
+      let frequency = docFrequencies.get(term);
+      if (frequency === undefined) {
+        frequency = 0;
+        for (const path of this.postings.get(term)?.keys() ?? []) {
+          if (inCorpus(path)) frequency++;
+        }
+        docFrequencies.set(term, frequency);
+      }
+      return frequency;
+    };
+
+    return (path, terms) => {
+      const entry = this.entries.get(path);
+      if (!entry || !inCorpus(path)) return 0;
+
+      let score = 0;
+      for (const term of new Set(terms)) {
+        const frequency = entry.terms.get(term);
+        if (!frequency) continue;
+
+        const df = docFrequency(term);
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * entry.length) / averageLength));
+      }
+      return score;
+    };
+  }
+
+  /**
+   * Ranks the docs containing any of `terms`, optionally only those in
+   * `paths`, best first. Scores are computed over the docs in `paths`.
+   */
+  search(terms: string[], paths?: Set<string>): RankedDoc[] {
+    const unique = [...new Set(terms)];
+    const candidates = new Set<string>();
+    for (const term of unique) {
+      for (const path of this.postings.get(term)?.keys() ?? []) {
+        if (!paths || paths.has(path)) candidates.add(path);
+      }
+    }
+
+    const score = this.scorer(paths);
+    return [...candidates]
+      .map((path) => ({
+        path,
+        score: score(path, unique),
+        terms: unique.filter((term) => this.has(path, term)),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
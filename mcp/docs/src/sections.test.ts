@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractSection,
+  findHeading,
+  frontMatterLength,
+  headingPathAt,
+  parseHeadings,
+} from './sections.js';
+
+const doc = [
+  '---', //                        1
+  'title: API Guidelines', //      2
+  '---', //                        3
+  '# API Guidelines', //           4
+  '', //                           5
+  'Intro.', //                     6
+  '', //                           7
+  '## Standards', //               8
+  '', //                           9
+  'Use JSON.', //                  10
+  '', //                           11
+  '### Errors', //                 12
+  '', //                           13
+  '```md', //                      14
+  '# Not a heading', //            15
+  '```', //                        16
+  '', //                           17
+  '##### Codes', //                18
+  'Stable codes.', //              19
+  '', //                           20
+  '### Paging', //                 21
+  'Cursor based.', //              22
+  '', //                           23
+  '## Security', //                24
+  '', //                           25
+  '### Errors ##', //              26
+  'Never leak stack traces.', //   27
+  '', //                           28
+].join('\n');
+
+const lines = doc.split('\n');
+const headings = parseHeadings(lines);
+
+describe('parseHeadings', () => {
+  it('numbers headings by file line, skipping front matter and code fences', () => {
+    expect(headings).toEqual([
+      { level: 1, text: 'API Guidelines', line: 4 },
+      { level: 2, text: 'Standards', line: 8 },
+      { level: 3, text: 'Errors', line: 12 },
+      { level: 5, text: 'Codes', line: 18 },
+      { level: 3, text: 'Paging', line: 21 },
+      { level: 2, text: 'Security', line: 24 },
+      { level: 3, text: 'Errors', line: 26 },
+    ]);
+  });
+
+  it('measures the front matter block', () => {
+    expect(frontMatterLength(lines)).toBe(3);
+    expect(frontMatterLength(['# Title'])).toBe(0);
+    expect(frontMatterLength(['---', 'unterminated'])).toBe(0);
+  });
+});
+
+describe('headingPathAt', () => {
+  it('lists the enclosing headings, outermost first', () => {
+    expect(headingPathAt(headings, 19)).toEqual(['API Guidelines', 'Standards', 'Errors', 'Codes']);
+    expect(headingPathAt(headings, 21)).toEqual(['API Guidelines', 'Standards', 'Paging']);
+    expect(headingPathAt(headings, 2)).toEqual([]);
+  });
+});
+
+describe('findHeading', () => {
+  it('finds a heading by line', () => {
+    expect(findHeading(headings, 21).text).toBe('Paging');
+    expect(() => findHeading(headings, 10)).toThrow('No heading at line 10');
+  });
+
+  it('matches path segments in order, case-insensitively, skipping levels', () => {
+    expect(findHeading(headings, ['api guidelines', 'errors', 'CODES']).line).toBe(18);
+    expect(findHeading(headings, ['Security', 'Errors']).line).toBe(26);
+    expect(findHeading(headings, ['Paging']).line).toBe(21);
+  });
+
+  it('rejects a path that matches no heading or several', () => {
+    expect(() => findHeading(headings, ['Security', 'Paging'])).toThrow(
+      'No heading matches "Security > Paging"'
+    );
+    expect(() => findHeading(headings, ['Errors'])).toThrow(
+      /"Errors" is ambiguous; it matches the headings at lines 12, 26/
+    );
+    expect(() => findHeading(headings, [' '])).toThrow('heading must name at least one heading');
+  });
+});
+
+describe('extractSection', () => {
+  const section = (line: number, includeSubsections: boolean) =>
+    extractSection(lines, headings, findHeading(headings, line), includeSubsections);
+
+  it('ends at the next heading without subsections, trimming blank lines', () => {
+    expect(section(8, false)).toEqual({
+      headingPath: ['API Guidelines', 'Standards'],
+      level: 2,
+      line: 8,
+      endLine: 10,
+      content: '## Standards\n\nUse JSON.',
+      subsections: [
+        { level: 3, text: 'Errors', line: 12 },
+        { level: 3, text: 'Paging', line: 21 },
+      ],
+    });
+  });
+
+  it('runs to the next heading of the same level with subsections', () => {
+    const standards = section(8, true);
+    expect(standards.endLine).toBe(22);
+    expect(standards.content).toContain('##### Codes');
+    expect(standards.content).toContain('# Not a heading');
+    expect(standards.content.endsWith('Cursor based.')).toBe(true);
+  });
+
+  it('lists a nested heading as a direct subsection when levels are skipped', () => {
+    expect(section(12, true).subsections).toEqual([{ level: 5, text: 'Codes', line: 18 }]);
+  });
+
+  it('runs to the end of the file for the last section', () => {
+    expect(section(26, true)).toMatchObject({
+      endLine: 27,
+      content: '### Errors ##\nNever leak stack traces.',
+      subsections: [],
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Markdown heading and section parsing.
+ *
+ * Line numbers are 1-based lines of the file as stored, front matter
+ * included, so they agree between read_doc, search_docs and read_section.
+ * Lines inside fenced code blocks are never headings.
+ */
+
+export interface Heading {
+  level: number;
+  text: string;
+  line: number;
+}
+
+export interface Section {
+  /** Headings from the top-level ancestor down to the section's own heading */
+  headingPath: string[];
+  level: number;
+  line: number;
+  /** Last line of the section */
+  endLine: number;
+  content: string;
+  /** Direct subsections, whether or not their content is included */
+  subsections: Heading[];
+}
+
+/** Separator between headings in a heading path, e.g. `API Guidelines > Standards` */
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+/**
+ * Number of lines taken by a leading `---` front matter block, or 0.
+ */
+export function frontMatterLength(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') return 0;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === '---' || lines[i].trim() === '...') return i + 1;
+  }
+  return 0;
+}
+
+export function parseHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let fence: string | null = null;
+
+  for (let i = frontMatterLength(lines); i < lines.length; i++) {
+    const fenceMatch = lines[i].match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) fence = marker;
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const match = lines[i].match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2].trim(), line: i + 1 });
+    }
+  }
+  return headings;
+}
+
+/**
+ * Texts of the headings enclosing `line`, outermost first. A heading line
+ * belongs to its own section.
+ */
+export function headingPathAt(headings: Heading[], line: number): string[] {
+  const stack: Heading[] = [];
+  for (const heading of headings) {
+    if (heading.line > line) break;
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+  }
+  return stack.map((h) => h.text);
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Finds the heading named by `target`: either a heading line number, or a
+ * heading path whose segments must appear in order among the heading's
+ * ancestors (levels may be skipped) and whose last segment is the heading
+ * itself. Segments are compared case-insensitively.
+ */
+export function findHeading(headings: Heading[], target: string[] | number): Heading {
+  if (typeof target === 'number') {
+    const heading = headings.find((h) => h.line === target);
+    if (!heading) {
+      throw new Error(`No heading at line ${target}`);
+    }
+    return heading;
+  }
+
+  const wanted = target.map(normalize).filter(Boolean);
+  if (wanted.length === 0) {
+    throw new Error('heading must name at least one heading');
+  }
+
+  const candidates = headings.filter((heading) => {
+    const path = headingPathAt(headings, heading.line).map(normalize);
+    if (path[path.length - 1] !== wanted[wanted.length - 1]) return false;
+    let next = 0;
+    for (const segment of path) {
+      if (segment === wanted[next]) next++;
+    }
+    return next === wanted.length;
+  });
+
+  if (candidates.length === 0) {
+    throw new Error(`No heading matches "${target.join(HEADING_PATH_SEPARATOR)}"`);
+  }
+  if (candidates.length > 1) {
+    const lines = candidates.map((h) => h.line).join(', ');
+    throw new Error(
+      `Heading path "${target.join(HEADING_PATH_SEPARATOR)}" is ambiguous; it matches the ` +
+        `headings at lines ${lines}. Pass a longer path or a line`
+    );
+  }
+  return candidates[0];
+}
+
+/**
+ * Extracts the section under `heading`. Without `includeSubsections` it
+ * ends at the next heading of any level, otherwise at the next heading of
+ * the same or a higher level.
+ */
+export function extractSection(
+  lines: string[],
+  headings: Heading[],
+  heading: Heading,
+  includeSubsections: boolean
+): Section {
+  const index = headings.indexOf(heading);
+  const following = headings.slice(index + 1);
+  const sectionEnd = following.find((h) => h.level <= heading.level);
+  const next = includeSubsections ? sectionEnd : following[0];
+
+  let endLine = next ? next.line - 1 : lines.length;
+  while (endLine > heading.line && !lines[endLine - 1].trim()) {
+    endLine--;
+  }
+
+  // A nested heading is a direct child unless an earlier one is its parent
+  const subsections: Heading[] = [];
+  let shallowest = Infinity;
+  for (const h of following) {
+    if (sectionEnd && h.line >= sectionEnd.line) break;
+    if (h.level <= shallowest) subsections.push(h);
+    shallowest = Math.min(shallowest, h.level);
+  }
+
+  return {
+    headingPath: headingPathAt(headings, heading.line),
+    level: heading.level,
+    line: heading.line,
+    endLine,
+    content: lines.slice(heading.line - 1, endLine).join('\n'),
+    subsections,
+  };
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { extractRequirements } from './requirements.js';
+import { contentHash, diffDocs, diffRequirements, snapshotRequirement } from './snapshots.js';
+
+function requirementsOf(docs: Record<string, string>) {
+  return Object.entries(docs).flatMap(([source, content]) =>
+    extractRequirements(content, source, []).map(snapshotRequirement)
+  );
+}
+
+function diff(before: Record<string, string>, after: Record<string, string>) {
+  const hashes = (docs: Record<string, string>) =>
+    Object.fromEntries(Object.entries(docs).map(([path, text]) => [path, contentHash(text)]));
+  return diffRequirements(
+    requirementsOf(before),
+    requirementsOf(after),
+    diffDocs(hashes(before), hashes(after))
+  );
+}
+
+describe('snapshotRequirement', () => {
+  it('hashes the normalized text', () => {
+    const [plain] = requirementsOf({ 'a.md': 'Tokens MUST be rotated.' });
+    const [formatted] = requirementsOf({ 'b.md': 'Tokens **MUST** be rotated' });
+
+    expect(plain.hash).toBe(formatted.hash);
+    expect(plain.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('diffDocs', () => {
+  it('sorts docs into added, removed and changed', () => {
+    const before = { 'a.md': '1', 'b.md': '2', 'c.md': '3' };
+    const after = { 'b.md': '2', 'c.md': '4', 'd.md': '5' };
+
+    expect(diffDocs(before, after)).toEqual({
+      added: ['d.md'],
+      removed: ['a.md'],
+      changed: ['c.md'],
+    });
+  });
+});
+
+describe('diffRequirements', () => {
+  it('counts requirements with the same ID as unchanged', () => {
+    const docs = { 'a.md': 'Tokens MUST be rotated.' };
+    const result = diff(docs, { 'a.md': 'Intro.\n\nTokens MUST be rotated.' });
+
+    expect(result.summary).toEqual({
+      added: 0,
+      removed: 0,
+      reworded: 0,
+      strengthChanged: 0,
+      moved: 0,
+      unchanged: 1,
+    });
+    expect(result.docs.changed).toEqual(['a.md']);
+  });
+
+  it('reports the same text under another doc as moved', () => {
+    const result = diff(
+      { 'a.md': 'Tokens MUST be rotated.' },
+      { 'b.md': 'Tokens MUST be rotated.' }
+    );
+
+    expect(result.summary.moved).toBe(1);
+    expect(result.moved[0]).toMatchObject({
+      before: { source: 'a.md' },
+      after: { source: 'b.md' },
+      similarity: 1,
+    });
+    expect(result.added).toEqual([]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('pairs a reworded requirement within its doc', () => {
+    const result = diff(
+      { 'a.md': 'Sessions MUST expire after 30 idle minutes.' },
+      { 'a.md': 'Sessions MUST expire after 15 idle minutes.' }
+    );
+
+    expect(result.summary.reworded).toBe(1);
+    expect(result.reworded[0]).toMatchObject({
+      before: { text: 'Sessions MUST expire after 30 idle minutes.' },
+      after: { text: 'Sessions MUST expire after 15 idle minutes.' },
+      similarity: 0.83,
+    });
+    expect(result.reworded[0].strength).toBeUndefined();
+  });
+
+  it('does not pair reworded requirements across docs', () => {
+    const result = diff(
+      { 'a.md': 'Sessions MUST expire after 30 idle minutes.' },
+      { 'b.md': 'Sessions MUST expire after 15 idle minutes.' }
+    );
+
+    expect(result.summary).toMatchObject({ added: 1, removed: 1, reworded: 0 });
+  });
+
+  it('reports dissimilar requirements as added and removed', () => {
+    const result = diff(
+      { 'a.md': 'Sessions MUST expire after 30 idle minutes.' },
+      { 'a.md': 'Passwords MUST contain at least twelve characters.' }
+    );
+
+    expect(result.summary).toMatchObject({ added: 1, removed: 1, reworded: 0 });
+  });
+
+  it('reports a changed keyword as a strength change', () => {
+    const result = diff(
+      { 'a.md': 'Clients SHOULD retry failed uploads.' },
+      { 'a.md': 'Clients MUST retry failed uploads.' }
+    );
+
+    expect(result.summary.strengthChanged).toBe(1);
+    expect(result.strengthChanged[0].strength).toEqual({
+      from: 'SHOULD',
+      to: 'MUST',
+      direction: 'strengthened',
+      reworded: false,
+    });
+  });
+
+  it('reports a weakened and reworded requirement', () => {
+    const result = diff(
+      { 'a.md': 'Clients MUST retry failed uploads three times.' },
+      { 'a.md': 'Clients MAY retry failed uploads twice.' }
+    );
+
+    expect(result.strengthChanged[0].strength).toEqual({
+      from: 'MUST',
+      to: 'MAY',
+      direction: 'weakened',
+      reworded: true,
+    });
+  });
+
+  it('reports adding a negation as reversed', () => {
+    const result = diff(
+      { 'a.md': 'Servers MUST log request bodies.' },
+      { 'a.md': 'Servers MUST NOT log request bodies.' }
+    );
+
+    expect(result.strengthChanged[0].strength).toMatchObject({
+      from: 'MUST',
+      to: 'MUST NOT',
+      direction: 'reversed',
+    });
+  });
+
+  it('pairs each requirement at most once, most similar first', () => {
+    const result = diff(
+      { 'a.md': 'Uploads MUST be scanned for malware before storage.' },
+      {
+        'a.md': [
+          'Uploads MUST be scanned for viruses before storage.',
+          '',
+          'Uploads MUST be scanned for malware before storage begins.',
+        ].join('\n'),
+      }
+    );
+
+    expect(result.summary).toMatchObject({ reworded: 1, added: 1, removed: 0 });
+    expect(result.reworded[0].after.text).toBe(
+      'Uploads MUST be scanned for malware before storage begins.'
+    );
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Requirement snapshots and the diffs between them.
+ *
+ * A snapshot stores the requirements extracted from a set of docs together
+ * with a hash of every doc and of every requirement's normalized text.
+ * diff_requirements compares two requirement lists: requirements with the
+ * same ID are unchanged, the same text under another doc has moved, and the
+ * remaining ones are paired up within a doc by word overlap (ignoring the
+ * RFC 2119 keywords) so a reworded sentence or a SHOULD that became a MUST
+ * is reported as a change rather than as one removal plus one addition.
+ */
+
+import { createHash } from 'crypto';
+import { ExtractedRequirement, normalizeText } from './requirements.js';
+
+export interface SnapshotRequirement extends ExtractedRequirement {
+  /** sha256 of the normalized requirement text */
+  hash: string;
+}
+
+export interface RequirementSnapshot {
+  format: 1;
+  name: string;
+  createdAt: string;
+  /** HEAD commit the docs were read at; null outside a git repository */
+  gitRevision: string | null;
+  paths: string[];
+  categories: string[];
+  /** Doc path -> sha256 of its content */
+  docs: Record<string, string>;
+  requirements: SnapshotRequirement[];
+}
+
+/** The fields of a requirement a diff reports */
+export type RequirementSummary = Pick<
+  ExtractedRequirement,
+  'id' | 'text' | 'source' | 'line' | 'type' | 'keyword' | 'negated' | 'headingPath' | 'category'
+>;
+
+export interface RequirementChange {
+  before: RequirementSummary;
+  after: RequirementSummary;
+  /** Word overlap of the two texts without their keywords, from 0 to 1 */
+  similarity: number;
+  /** Set when the type or the negation changed */
+  strength?: {
+    from: string;
+    to: string;
+    /** `reversed` when a requirement was negated or its negation dropped */
+    direction: 'strengthened' | 'weakened' | 'reversed';
+    /** Whether the text changed beyond the keyword */
+    reworded: boolean;
+  };
+}
+
+export interface RequirementDiff {
+  summary: {
+    added: number;
+    removed: number;
+    reworded: number;
+    strengthChanged: number;
+    moved: number;
+    unchanged: number;
+  };
+  docs: { added: string[]; removed: string[]; changed: string[] };
+  added: RequirementSummary[];
+  removed: RequirementSummary[];
+  reworded: RequirementChange[];
+  strengthChanged: RequirementChange[];
+  moved: RequirementChange[];
+}
+
+/** Least word overlap for two requirements in one doc to count as one reworded requirement */
+const MIN_SIMILARITY = 0.6;
+
+const STRENGTH: Record<ExtractedRequirement['type'], number> = {
+  must: 3,
+  should: 2,
+  could: 1,
+  guideline: 0,
+};
+
+const KEYWORD_WORDS = new Set(
+  (
+    "must mustn't shall shan't should shouldn't may not required recommended optional"
+  ).split(' ')
+);
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export function snapshotRequirement(requirement: ExtractedRequirement): SnapshotRequirement {
+  return { ...requirement, hash: contentHash(normalizeText(requirement.text)) };
+}
+
+function summarize(requirement: ExtractedRequirement): RequirementSummary {
+  const { id, text, source, line, type, keyword, negated, headingPath, category } = requirement;
+  return { id, text, source, line, type, keyword, negated, headingPath, category };
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    normalizeText(text)
+      .split(/[^\p{L}\p{N}_']+/u)
+      .filter((word) => word && !KEYWORD_WORDS.has(word))
+  );
+}
+
+/** Dice coefficient of the two word sets */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+function strengthChange(
+  before: SnapshotRequirement,
+  after: SnapshotRequirement,
+  overlap: number
+): RequirementChange['strength'] {
+  if (before.type === after.type && before.negated === after.negated) return undefined;
+
+  const direction =
+    before.negated !== after.negated
+      ? 'reversed'
+      : STRENGTH[after.type] > STRENGTH[before.type]
+        ? 'strengthened'
+        : 'weakened';
+  return {
+    from: before.keyword ?? before.type,
+    to: after.keyword ?? after.type,
+    direction,
+    reworded: overlap < 1,
+  };
+}
+
+/**
+ * Compares doc hashes: docs only in `after` are added, only in `before`
+ * removed, and in both with a different hash changed.
+ */
+export function diffDocs(
+  before: Record<string, string>,
+  after: Record<string, string>
+): RequirementDiff['docs'] {
+  const added = Object.keys(after).filter((path) => !(path in before));
+  const removed = Object.keys(before).filter((path) => !(path in after));
+  const changed = Object.keys(after).filter(
+    (path) => path in before && before[path] !== after[path]
+  );
+  return { added: added.sort(), removed: removed.sort(), changed: changed.sort() };
+}
+
+export function diffRequirements(
+  before: SnapshotRequirement[],
+  after: SnapshotRequirement[],
+  docs: RequirementDiff['docs']
+): RequirementDiff {
+  const afterIds = new Set(after.map((r) => r.id));
+  const beforeIds = new Set(before.map((r) => r.id));
+  let removed = before.filter((r) => !afterIds.has(r.id));
+  let added = after.filter((r) => !beforeIds.has(r.id));
+  const unchanged = before.length - removed.length;
+
+  // The same text under another doc: moved
+  const moved: RequirementChange[] = [];
+  for (const old of removed) {
+    const match = added.find((r) => r.hash === old.hash && r.source !== old.source);
+    if (match) {
+      moved.push({ before: summarize(old), after: summarize(match), similarity: 1 });
+      added = added.filter((r) => r !== match);
+    }
+  }
+  const movedIds = new Set(moved.map((change) => change.before.id));
+  removed = removed.filter((r) => !movedIds.has(r.id));
+
+  // Pair the rest within each doc, most similar first
+  const words = new Map([...removed, ...added].map((r) => [r, contentWords(r.text)]));
+  const candidates: Array<{ old: SnapshotRequirement; now: SnapshotRequirement; score: number }> =
+    [];
+  for (const old of removed) {
+    for (const now of added) {
+      if (now.source !== old.source) continue;
+      const score = similarity(words.get(old)!, words.get(now)!);
+      if (score >= MIN_SIMILARITY) candidates.push({ old, now, score });
+    }
+  }
+  candidates.sort(
+    (a, b) =>
+      b.score - a.score ||
+      Math.abs(a.old.line - a.now.line) - Math.abs(b.old.line - b.now.line)
+  );
+
+  const paired = new Set<SnapshotRequirement>();
+  const reworded: RequirementChange[] = [];
+  const strengthChanged: RequirementChange[] = [];
+  for (const { old, now, score } of candidates) {
+    if (paired.has(old) || paired.has(now)) continue;
+    paired.add(old);
+    paired.add(now);
+
+    const change: RequirementChange = {
+      before: summarize(old),
+      after: summarize(now),
+      similarity: Math.round(score * 100) / 100,
+      strength: strengthChange(old, now, score),
+    };
+    (change.strength ? strengthChanged : reworded).push(change);
+  }
+
+  removed = removed.filter((r) => !paired.has(r));
+  added = added.filter((r) => !paired.has(r));
+
+  return {
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      reworded: reworded.length,
+      strengthChanged: strengthChanged.length,
+      moved: moved.length,
+      unchanged,
+    },
+    docs,
+    added: added.map(summarize),
+    removed: removed.map(summarize),
+    reworded,
+    strengthChanged,
+    moved,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Porter stemmer (M.F. Porter, "An algorithm for suffix stripping", 1980),
+ * so that "authenticate", "authenticated" and "authentication" index and
+ * search as one term. Only lowercase ASCII words are stemmed; anything else
+ * is returned unchanged.
+ */
+
+const c = '[^aeiou]';
+const v = '[aeiouy]';
+const C = `${c}[^aeiouy]*`;
+const V = `${v}[aeiou]*`;
+
+/** Measure m > 0 */
+const MGR0 = new RegExp(`^(${C})?${V}${C}`);
+/** Measure m = 1 */
+const MEQ1 = new RegExp(`^(${C})?${V}${C}(${V})?$`);
+/** Measure m > 1 */
+const MGR1 = new RegExp(`^(${C})?${V}${C}${V}${C}`);
+/** Stem contains a vowel */
+const S_V = new RegExp(`^(${C})?${v}`);
+/** Ends consonant-vowel-consonant, where the last consonant is not w, x or y */
+const CVC = new RegExp(`^${C}${v}[^aeiouwxy]$`);
+
+const STEP2: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log',
+};
+
+const STEP3: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: '',
+};
+
+const STEP2_SUFFIX = new RegExp(`^(.+?)(${Object.keys(STEP2).join('|')})$`);
+const STEP3_SUFFIX = new RegExp(`^(.+?)(${Object.keys(STEP3).join('|')})$`);
+const STEP4_SUFFIX =
+  /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  // An initial y is a consonant; uppercase it so the vowel patterns skip it
+  const initialY = word[0] === 'y';
+  let w = initialY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2];
+  }
+
+  // Step 1b: past tense and gerunds
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MGR0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    if (S_V.test(match[1])) {
+      w = match[1];
+      if (/(at|bl|iz)$/.test(w)) w += 'e';
+      else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+      else if (CVC.test(w)) w += 'e';
+    }
+  }
+
+  // Step 1c: terminal y
+  if ((match = /^(.+?)y$/.exec(w)) && S_V.test(match[1])) {
+    w = `${match[1]}i`;
+  }
+
+  // Steps 2 and 3: double and single suffixes
+  if ((match = STEP2_SUFFIX.exec(w)) && MGR0.test(match[1])) {
+    w = match[1] + STEP2[match[2]];
+  }
+  if ((match = STEP3_SUFFIX.exec(w)) && MGR0.test(match[1])) {
+    w = match[1] + STEP3[match[2]];
+  }
+
+  // Step 4: remaining suffixes
+  if ((match = STEP4_SUFFIX.exec(w))) {
+    if (MGR1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (MGR1.test(match[1] + match[2])) w = match[1] + match[2];
+  }
+
+  // Step 5: final e and double l
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (MGR1.test(base) || (MEQ1.test(base) && !CVC.test(base))) w = base;
+  }
+  if (/ll$/.test(w) && MGR1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return initialY ? `y${w.slice(1)}` : w;
+}
@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EventLog, writeWorkspaceArtifact } from '@feature-orchestrator/mcp-shared';
+import { ArtifactGateError, checkArtifacts } from './artifacts.js';
+
+describe('checkArtifacts', () => {
+  let workspace: string;
+  const save = (name: string, content: string) =>
+    writeWorkspaceArtifact(workspace, 'feat-2fa', name, content, { tool: 'save_artifact', actor: 'test' });
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'artifacts-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('passes when every artifact exists and validates', () => {
+    save('spec.json', '{"title": "2FA reset"}');
+    save('notes.md', '# Notes');
+
+    expect(checkArtifacts(workspace, ['spec.json', 'notes.md'])).toEqual({
+      passed: true,
+      missing: [],
+      invalid: [],
+      stale: [],
+    });
+  });
+
+  it('reports missing and invalid artifacts', () => {
+    save('spec.json', '{}');
+
+    expect(checkArtifacts(workspace, ['spec.json', 'checklist.json'])).toEqual({
+      passed: false,
+      missing: ['checklist.json'],
+      invalid: [{ artifact: 'spec.json', errors: ["/ must have required property 'title'"] }],
+      stale: [],
+    });
+  });
+
+  it('after a loop-back, only accepts artifacts written since', () => {
+    save('spec.json', '{"title": "2FA reset"}');
+    save('notes.md', '# Notes');
+    const loopBack = new EventLog(join(workspace, 'events.jsonl')).append({
+      feature_id: 'feat-2fa',
+      tool: 'update_state',
+      actor: 'test',
+      changes: [{ path: 'current_phase', before: 'docs_audit', after: 'spec' }],
+    });
+
+    expect(checkArtifacts(workspace, ['spec.json', 'notes.md'], loopBack.seq - 1)).toMatchObject({
+      passed: false,
+      stale: ['spec.json', 'notes.md'],
+    });
+
+    // Saving unchanged content still counts as redoing the work
+    save('spec.json', '{"title": "2FA reset"}');
+    expect(checkArtifacts(workspace, ['spec.json', 'notes.md'], loopBack.seq - 1).stale).toEqual(['notes.md']);
+  });
+
+  it('treats artifacts written outside the event log as stale after a loop-back', () => {
+    writeFileSync(join(workspace, 'spec.json'), '{"title": "2FA reset"}');
+
+    expect(checkArtifacts(workspace, ['spec.json'], 0).stale).toEqual(['spec.json']);
+    expect(checkArtifacts(workspace, ['spec.json']).passed).toBe(true);
+  });
+});
+
+describe('ArtifactGateError', () => {
+  it('names every problem and carries them as details', () => {
+    const error = new ArtifactGateError('coverage_validation', {
+      passed: false,
+      missing: ['a.json'],
+      invalid: [{ artifact: 'b.json', errors: ['/ bad'] }],
+      stale: ['coverage-check.json'],
+    });
+
+    expect(error.code).toBe('ARTIFACT_GATE_FAILED');
+    expect(error.message).toBe(
+      'Cannot complete "coverage_validation" until its artifacts validate: a.json (missing), b.json (invalid), coverage-check.json (not written since the loop-back)'
+    );
+    expect(error.details).toEqual({
+      phase: 'coverage_validation',
+      missing: ['a.json'],
+      invalid: [{ artifact: 'b.json', errors: ['/ bad'] }],
+      stale: ['coverage-check.json'],
+    });
+  });
+});
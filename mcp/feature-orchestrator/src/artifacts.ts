@@ -0,0 +1,122 @@
+/**
+ * Artifact validation and phase completion gates.
+ *
+ * A phase can only be marked completed once the artifacts it declares in the
+ * phase graph exist in the workspace and validate. After a loop-back they
+ * must also have been written since, so a gate cannot pass on an artifact
+ * from before the work was redone.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { EventLog, OrchestratorError } from '@feature-orchestrator/mcp-shared';
+import { validateAgainstSchema } from './schemas.js';
+
+export interface ArtifactProblem {
+  artifact: string;
+  errors: string[];
+}
+
+export interface ArtifactGateResult {
+  passed: boolean;
+  missing: string[];
+  invalid: ArtifactProblem[];
+  /** Artifacts last written at or before the loop-back the gate was checked against */
+  stale: string[];
+}
+
+/**
+ * Validates artifact content and returns a list of problems (empty when valid).
+ * JSON artifacts must parse and, when a schema is registered for `name`,
+ * match it.
+ */
+export function validateArtifactContent(name: string, content: string): string[] {
+  if (!name.endsWith('.json')) {
+    return content.trim() ? [] : ['Artifact is empty'];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return [`Invalid JSON: ${(error as Error).message}`];
+  }
+
+  return validateAgainstSchema(name, data);
+}
+
+/**
+ * Checks that every artifact in `names` exists in the workspace and validates.
+ * With `writtenAfterSeq`, each must also have a write in the event log after
+ * that event.
+ */
+export function checkArtifacts(
+  workspacePath: string,
+  names: string[],
+  writtenAfterSeq?: number
+): ArtifactGateResult {
+  const missing: string[] = [];
+  const invalid: ArtifactProblem[] = [];
+  const stale: string[] = [];
+
+  const lastWrite = new Map<string, number>();
+  if (writtenAfterSeq !== undefined) {
+    for (const event of new EventLog(join(workspacePath, 'events.jsonl')).read()) {
+      if (event.artifact) lastWrite.set(event.artifact.name, event.seq);
+    }
+  }
+
+  for (const name of names) {
+    const artifactPath = join(workspacePath, name);
+
+    if (!existsSync(artifactPath)) {
+      missing.push(name);
+      continue;
+    }
+
+    const errors = validateArtifactContent(name, readFileSync(artifactPath, 'utf-8'));
+    if (errors.length > 0) {
+      invalid.push({ artifact: name, errors });
+    }
+    if (writtenAfterSeq !== undefined && (lastWrite.get(name) ?? 0) <= writtenAfterSeq) {
+      stale.push(name);
+    }
+  }
+
+  return {
+    passed: missing.length === 0 && invalid.length === 0 && stale.length === 0,
+    missing,
+    invalid,
+    stale,
+  };
+}
+
+/**
+ * Error raised when a phase is marked completed without its required artifacts.
+ */
+export class ArtifactGateError extends OrchestratorError {
+  constructor(phase: string, result: ArtifactGateResult) {
+    const problems = [
+      ...result.missing.map((name) => `${name} (missing)`),
+      ...result.invalid.map((p) => `${p.artifact} (invalid)`),
+      ...result.stale.map((name) => `${name} (not written since the loop-back)`),
+    ];
+    super(
+      `Cannot complete "${phase}" until its artifacts validate: ${problems.join(', ')}`,
+      'ARTIFACT_GATE_FAILED',
+      { phase, missing: result.missing, invalid: result.invalid, stale: result.stale }
+    );
+  }
+}
+
+/**
+ * Error raised when save_artifact receives content that fails validation.
+ */
+export class ArtifactValidationError extends OrchestratorError {
+  constructor(artifact: string, errors: string[]) {
+    super(`Artifact ${artifact} failed validation:\n${errors.join('\n')}`, 'ARTIFACT_INVALID', {
+      artifact,
+      errors,
+    });
+  }
+}
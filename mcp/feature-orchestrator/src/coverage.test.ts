@@ -0,0 +1,143 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CoverageInputs, computeCoverage, scanTaggedFiles } from './coverage.js';
+
+describe('scanTaggedFiles', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'coverage-'));
+    mkdirSync(join(root, 'e2e/auth'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('pairs the feature and AC tags per test', async () => {
+    writeFileSync(
+      join(root, 'e2e/auth/reset.spec.ts'),
+      `
+test.describe('reset @feat-2fa', () => {
+  test('sends a code @AC1', async () => {});
+});
+test('logs in @feat-login @AC2', async () => {});
+`
+    );
+    writeFileSync(
+      join(root, 'e2e/other.spec.ts'),
+      `test('audits @feat-2fa', { tag: '@AC3' }, async () => {});`
+    );
+    writeFileSync(join(root, 'e2e/notes.md'), '@feat-2fa @AC4');
+
+    const { taggedFiles, filesScanned } = await scanTaggedFiles(root, 'e2e', 'feat-2fa');
+
+    expect(filesScanned).toBe(2);
+    expect(taggedFiles).toEqual(
+      new Map([
+        ['AC1', ['e2e/auth/reset.spec.ts']],
+        ['AC3', ['e2e/other.spec.ts']],
+      ])
+    );
+  });
+});
+
+describe('computeCoverage', () => {
+  const inputs = (overrides: Partial<CoverageInputs> = {}): CoverageInputs => ({
+    featureId: 'feat-2fa',
+    checklist: {
+      items: [
+        { id: 'AC1', text: 'Send a code', priority: 'P0', verification_hint: 'E2E' },
+        { id: 'AC2', text: 'Codes expire', priority: 'P1', verification_hint: 'unit' },
+      ],
+    },
+    testPlan: {
+      test_scenarios: [
+        { checklist_id: 'AC1', test_cases: [{ test_id: 'T1', name: 'sends', type: 'e2e' }] },
+        { checklist_id: 'AC2', test_cases: [{ test_id: 'T2', name: 'expires', type: 'unit' }] },
+      ],
+    },
+    testCoverage: {
+      checklist_coverage: [
+        { checklist_id: 'AC1', coverage_status: 'covered', tests: [{ name: 'sends', type: 'E2E' }] },
+        { checklist_id: 'AC2', coverage_status: 'covered', tests: [{ name: 'expires', type: 'unit' }] },
+      ],
+    },
+    taggedFiles: new Map([['AC1', ['e2e/reset.spec.ts']]]),
+    testFilesScanned: 1,
+    ...overrides,
+  });
+
+  it('passes when every item is planned, written and, for E2E, tagged', () => {
+    const { coverage_check, items } = computeCoverage(inputs());
+
+    expect(coverage_check).toEqual({
+      status: 'passed',
+      coverage_percentage: 100,
+      missing_coverage: [],
+      blockers: [],
+      action: 'proceed',
+    });
+    expect(items[0]).toMatchObject({ requires_e2e: true, e2e_tests: 1, tagged_files: ['e2e/reset.spec.ts'] });
+  });
+
+  it('requires a paired tag for E2E items', () => {
+    const { coverage_check } = computeCoverage(inputs({ taggedFiles: new Map() }));
+
+    expect(coverage_check).toMatchObject({ status: 'failed', coverage_percentage: 50, action: 'remediate' });
+    expect(coverage_check.missing_coverage).toEqual([
+      { checklist_id: 'AC1', reasons: ['No test tagged with both @feat-2fa and @AC1'] },
+    ]);
+  });
+
+  it('explains every gap of an item', () => {
+    const { items } = computeCoverage(
+      inputs({
+        testPlan: { test_scenarios: [] },
+        testCoverage: {
+          checklist_coverage: [{ checklist_id: 'AC1', coverage_status: 'partial', tests: [] }],
+        },
+        taggedFiles: new Map(),
+      })
+    );
+
+    expect(items[0].reasons).toEqual([
+      'No planned tests in test-plan.json',
+      'coverage_status is "partial"',
+      'No tests recorded in test-coverage.json',
+      'verification_hint requires E2E but no E2E test is recorded',
+      'No test tagged with both @feat-2fa and @AC1',
+    ]);
+    expect(items[1].reasons).toEqual([
+      'No planned tests in test-plan.json',
+      'Not listed in test-coverage.json',
+    ]);
+  });
+
+  it('blocks on missing artifacts, recorded blockers and an empty test directory', () => {
+    const { coverage_check } = computeCoverage(
+      inputs({ testPlan: null, testCoverage: null, taggedFiles: new Map(), testFilesScanned: 0 })
+    );
+
+    expect(coverage_check.blockers).toEqual([
+      'test-plan.json not found',
+      'test-coverage.json not found',
+      'No E2E test files found in the test directory',
+    ]);
+
+    const recorded = computeCoverage(
+      inputs({ testCoverage: { ...inputs().testCoverage!, blockers: ['CI is down', { id: 'B1' }] } })
+    );
+    expect(recorded.coverage_check).toMatchObject({
+      status: 'failed',
+      blockers: ['CI is down', '{"id":"B1"}'],
+    });
+  });
+
+  it('fails an empty checklist', () => {
+    const { coverage_check } = computeCoverage(inputs({ checklist: { items: [] } }));
+    expect(coverage_check).toMatchObject({ status: 'failed', coverage_percentage: 0 });
+  });
+});
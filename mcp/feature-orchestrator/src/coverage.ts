@@ -0,0 +1,197 @@
+/**
+ * Coverage validation gate (orchestrator Phase 5).
+ *
+ * Cross-references every checklist item against test-plan.json,
+ * test-coverage.json and the tags actually present in the E2E test files,
+ * and produces the `coverage_check` object the orchestrator acts on.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { glob } from 'glob';
+import { AC_TAG, scanSource } from '@feature-orchestrator/mcp-shared';
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  priority?: string;
+  verification_hint?: string;
+}
+
+interface TestCase {
+  test_id: string;
+  name: string;
+  type: string;
+}
+
+interface CoveredTest {
+  test_id?: string;
+  name: string;
+  type?: string;
+  file?: string;
+}
+
+export interface CoverageInputs {
+  featureId: string;
+  checklist: { items: ChecklistItem[] };
+  testPlan: { test_scenarios: Array<{ checklist_id: string; test_cases: TestCase[] }> } | null;
+  testCoverage: {
+    checklist_coverage: Array<{ checklist_id: string; coverage_status: string; tests?: CoveredTest[] }>;
+    blockers?: unknown[];
+  } | null;
+  /** AC id -> test files with a test tagged with both the feature tag and the AC tag */
+  taggedFiles: Map<string, string[]>;
+  testFilesScanned: number;
+}
+
+export interface AcCoverage {
+  checklist_id: string;
+  priority?: string;
+  requires_e2e: boolean;
+  planned_tests: number;
+  written_tests: number;
+  e2e_tests: number;
+  tagged_files: string[];
+  covered: boolean;
+  reasons: string[];
+}
+
+export interface CoverageCheck {
+  status: 'passed' | 'failed';
+  coverage_percentage: number;
+  missing_coverage: Array<{ checklist_id: string; reasons: string[] }>;
+  blockers: string[];
+  action: 'proceed' | 'remediate';
+}
+
+const TEST_FILE_PATTERN = '**/*.{spec,test}.{ts,tsx,js,jsx,mjs,cjs,mts,cts}';
+
+export function requiresE2E(item: ChecklistItem): boolean {
+  return /\be2e\b/i.test(item.verification_hint || '');
+}
+
+/**
+ * Scans test files under `testDirectory` (relative to `projectRoot`) and maps
+ * each AC id to the files with a test tagged with both `@<featureId>` and
+ * `@<acId>`. Tags are paired per test, including those inherited from
+ * `test.describe` blocks, so a file with one feature test and an unrelated
+ * AC-tagged test does not count.
+ */
+export async function scanTaggedFiles(
+  projectRoot: string,
+  testDirectory: string,
+  featureId: string
+): Promise<{ taggedFiles: Map<string, string[]>; filesScanned: number }> {
+  const files = await glob(`${testDirectory}/${TEST_FILE_PATTERN}`, {
+    cwd: projectRoot,
+    nodir: true,
+  });
+  const featureTag = `@${featureId}`;
+  const taggedFiles = new Map<string, string[]>();
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = readFileSync(join(projectRoot, file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const acIds = new Set(
+      scanSource(content, file)
+        .filter((test) => test.tags.includes(featureTag))
+        .flatMap((test) => test.tags.filter((tag) => AC_TAG.test(tag)).map((tag) => tag.slice(1)))
+    );
+    for (const acId of acIds) {
+      taggedFiles.set(acId, [...(taggedFiles.get(acId) || []), file]);
+    }
+  }
+
+  return { taggedFiles, filesScanned: files.length };
+}
+
+export function computeCoverage(inputs: CoverageInputs): {
+  coverage_check: CoverageCheck;
+  items: AcCoverage[];
+} {
+  const { featureId, checklist, testPlan, testCoverage, taggedFiles } = inputs;
+  const blockers: string[] = [];
+
+  if (!testPlan) {
+    blockers.push('test-plan.json not found');
+  }
+  if (!testCoverage) {
+    blockers.push('test-coverage.json not found');
+  }
+  for (const blocker of testCoverage?.blockers || []) {
+    blockers.push(typeof blocker === 'string' ? blocker : JSON.stringify(blocker));
+  }
+
+  const items: AcCoverage[] = checklist.items.map((item) => {
+    const planned = (testPlan?.test_scenarios || [])
+      .filter((s) => s.checklist_id === item.id)
+      .flatMap((s) => s.test_cases);
+    const coverageEntry = testCoverage?.checklist_coverage.find(
+      (c) => c.checklist_id === item.id
+    );
+    const written = coverageEntry?.tests || [];
+    const e2eTests = written.filter((t) => t.type?.toLowerCase() === 'e2e');
+    const files = taggedFiles.get(item.id) || [];
+    const needsE2E = requiresE2E(item);
+    const reasons: string[] = [];
+
+    if (testPlan && planned.length === 0) {
+      reasons.push('No planned tests in test-plan.json');
+    }
+    if (testCoverage) {
+      if (!coverageEntry) {
+        reasons.push('Not listed in test-coverage.json');
+      } else if (coverageEntry.coverage_status !== 'covered') {
+        reasons.push(`coverage_status is "${coverageEntry.coverage_status}"`);
+      }
+      if (coverageEntry && written.length === 0) {
+        reasons.push('No tests recorded in test-coverage.json');
+      }
+    }
+    if (needsE2E && e2eTests.length === 0) {
+      reasons.push('verification_hint requires E2E but no E2E test is recorded');
+    }
+    if (needsE2E && files.length === 0) {
+      reasons.push(`No test tagged with both @${featureId} and @${item.id}`);
+    }
+
+    return {
+      checklist_id: item.id,
+      priority: item.priority,
+      requires_e2e: needsE2E,
+      planned_tests: planned.length,
+      written_tests: written.length,
+      e2e_tests: e2eTests.length,
+      tagged_files: files,
+      covered: reasons.length === 0,
+      reasons,
+    };
+  });
+
+  if (items.some((i) => i.requires_e2e) && inputs.testFilesScanned === 0) {
+    blockers.push('No E2E test files found in the test directory');
+  }
+
+  const coveredCount = items.filter((i) => i.covered).length;
+  const percentage = items.length > 0 ? Math.round((coveredCount / items.length) * 100) : 0;
+  const missing = items
+    .filter((i) => !i.covered)
+    .map((i) => ({ checklist_id: i.checklist_id, reasons: i.reasons }));
+  const passed = items.length > 0 && missing.length === 0 && blockers.length === 0;
+
+  return {
+    coverage_check: {
+      status: passed ? 'passed' : 'failed',
+      coverage_percentage: percentage,
+      missing_coverage: missing,
+      blockers,
+      action: passed ? 'proceed' : 'remediate',
+    },
+    items,
+  };
+}
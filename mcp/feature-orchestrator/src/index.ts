@@ -17,17 +17,80 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import {
   readFileSync,
-  writeFileSync,
   existsSync,
   mkdirSync,
   readdirSync,
+  renameSync,
   rmSync,
   statSync,
 } from 'fs';
-import { join, dirname, basename } from 'path';
+import { join, dirname, basename, relative } from 'path';
 import { fileURLToPath } from 'url';
 import { glob } from 'glob';
 import matter from 'gray-matter';
+import {
+  ArtifactVersions,
+  EventLog,
+  OrchestratorError,
+  ProjectConfigStore,
+  RevisionConflictError,
+  artifactFile,
+  artifactVersion,
+  diffJson,
+  diffLines,
+  diffState,
+  filterEvents,
+  loadConfig,
+  lockWorkspace,
+  replayState,
+  resolveInSandbox,
+  workspaceDir,
+  writeFileAtomic,
+  writeWorkspaceArtifact,
+} from '@feature-orchestrator/mcp-shared';
+import {
+  PHASES,
+  PHASE_GRAPH,
+  Phase,
+  PhaseTransitionError,
+  isLoopBack,
+  isPhase,
+  missingPrerequisites,
+  nextPhases,
+  phasesFrom,
+} from './phases.js';
+import {
+  ArtifactGateError,
+  ArtifactValidationError,
+  checkArtifacts,
+  validateArtifactContent,
+} from './artifacts.js';
+import { hasSchema, validateAgainstSchema } from './schemas.js';
+import { computeCoverage, scanTaggedFiles } from './coverage.js';
+import {
+  buildTraceability,
+  loadRuns,
+  traceabilityCsv,
+  traceabilityMarkdown,
+} from './traceability.js';
+import { IterationBudgetError, checkIterationBudget, iterationLimit } from './iterations.js';
+
+const ACTOR_PROPERTY = {
+  type: 'string',
+  description: 'Name of the agent making the change (e.g., planner), recorded in the event log',
+};
+
+const EXPECTED_REVISION_PROPERTY = {
+  type: 'number',
+  description:
+    'State revision the change is based on; rejected with REVISION_CONFLICT if the state has changed since',
+};
+
+const EXPECTED_ARTIFACT_REVISION_PROPERTY = {
+  type: 'number',
+  description:
+    'Artifact version the change is based on (0 if the artifact must not exist yet); rejected with REVISION_CONFLICT if a newer version was saved since',
+};
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -44,12 +107,24 @@ interface FeatureState {
   title?: string;
   current_phase: string;
   status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'paused';
+  /** Why the server set the current status, e.g. an exhausted iteration budget */
+  status_reason?: string;
   scope: FeatureScope;
   created_at: string;
   updated_at: string;
+  /** Incremented on every write; pass it back as expected_revision to detect concurrent changes */
+  revision: number;
   phases_completed: string[];
+  /**
+   * The last move back to an earlier phase. Artifacts written at or before
+   * event `after_seq` no longer satisfy phase gates.
+   */
+  loop_back?: { from: string; to: string; after_seq: number };
   current_iteration: number;
   max_iterations: number;
+  /** Iterations spent in each phase */
+  phase_iterations?: Record<string, number>;
+  max_iterations_per_phase?: number;
   errors: string[];
 }
 
@@ -70,36 +145,18 @@ interface Artifact {
   modified_at: string;
 }
 
-interface ProjectConfig {
-  tests?: {
-    e2e?: { runner: string; command: string; tag_flag?: string; test_directory?: string };
-    unit?: { runner: string; command: string };
-    integration?: { runner: string; command: string };
-  };
-  docs?: {
-    paths?: string[];
-    guidelines?: Record<string, string>;
-  };
-  default_feature_env?: {
-    base_url?: string;
-    api_base_url?: string;
-  };
-  behavior?: {
-    auto_approve_plan?: boolean;
-    auto_approve_spec?: boolean;
-    create_branch?: boolean;
-    max_iterations?: number;
-  };
-}
-
 class FeatureOrchestratorServer {
   private server: Server;
   private projectRoot: string;
   private workspacesDir: string;
+  private projectConfig: ProjectConfigStore;
 
   constructor() {
     this.projectRoot = process.cwd();
     this.workspacesDir = join(this.projectRoot, '.claude', 'feature-dev');
+    this.projectConfig = new ProjectConfigStore(
+      join(this.projectRoot, '.claude', 'feature-orchestrator.yml')
+    );
 
     this.server = new Server(
       {
@@ -162,6 +219,17 @@ class FeatureOrchestratorServer {
               type: 'string',
               description: 'Notes about the scope selection',
             },
+            actor: ACTOR_PROPERTY,
+            max_iterations: {
+              type: 'number',
+              description:
+                'Iteration budget for this feature (defaults to behavior.max_iterations from the project config)',
+            },
+            max_iterations_per_phase: {
+              type: 'number',
+              description:
+                'Iterations a single phase may use (defaults to behavior.max_iterations_per_phase from the project config)',
+            },
           },
           required: ['feature_id'],
         },
@@ -210,6 +278,8 @@ class FeatureOrchestratorServer {
               description: 'Confirm deletion',
               default: false,
             },
+            expected_revision: EXPECTED_REVISION_PROPERTY,
+            actor: ACTOR_PROPERTY,
           },
           required: ['feature_id', 'confirm'],
         },
@@ -242,7 +312,8 @@ class FeatureOrchestratorServer {
             },
             phase: {
               type: 'string',
-              description: 'Current phase name',
+              enum: [...PHASES],
+              description: 'Phase to move to (must be a legal transition from the current phase)',
             },
             status: {
               type: 'string',
@@ -251,7 +322,18 @@ class FeatureOrchestratorServer {
             },
             increment_iteration: {
               type: 'boolean',
-              description: 'Increment the iteration counter',
+              description:
+                'Increment the iteration counter, counted against the current phase (after any phase transition in the same call). ' +
+                'Rejected once the feature or phase budget is used up; the feature is then paused or failed with a status_reason.',
+            },
+            max_iterations: {
+              type: 'number',
+              description: 'Change the iteration budget for this feature (applied before increment_iteration)',
+            },
+            max_iterations_per_phase: {
+              type: 'number',
+              description:
+                'Change the per-phase iteration budget for this feature (applied before increment_iteration)',
             },
             add_error: {
               type: 'string',
@@ -259,7 +341,27 @@ class FeatureOrchestratorServer {
             },
             mark_phase_completed: {
               type: 'string',
-              description: 'Mark a phase as completed',
+              enum: [...PHASES],
+              description:
+                'Mark the current phase as completed (applied before any phase transition in the same call). ' +
+                'Rejected unless the artifacts the phase must produce exist and validate.',
+            },
+            expected_revision: EXPECTED_REVISION_PROPERTY,
+            actor: ACTOR_PROPERTY,
+          },
+          required: ['feature_id'],
+        },
+      },
+      {
+        name: 'get_allowed_transitions',
+        description:
+          'List the phases a feature may move to next and which prerequisite phases are still missing',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
             },
           },
           required: ['feature_id'],
@@ -284,10 +386,82 @@ class FeatureOrchestratorServer {
               type: 'string',
               description: 'Notes about the scope change',
             },
+            expected_revision: EXPECTED_REVISION_PROPERTY,
+            actor: ACTOR_PROPERTY,
           },
           required: ['feature_id', 'scope'],
         },
       },
+      {
+        name: 'get_events',
+        description:
+          'Read the append-only event log of a workspace: who changed state or artifacts, when, and what changed',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID (the log of a deleted workspace is read from its archive)',
+            },
+            tool: {
+              type: 'string',
+              description: 'Only events from this tool (e.g., set_scope)',
+            },
+            actor: {
+              type: 'string',
+              description: 'Only events from this actor',
+            },
+            path: {
+              type: 'string',
+              description:
+                'Only events changing this state field or anything below it (e.g., scope, current_phase)',
+            },
+            artifact: {
+              type: 'string',
+              description: 'Only events writing this artifact (e.g., plan.json)',
+            },
+            since: {
+              type: 'string',
+              description: 'Only events at or after this ISO timestamp',
+            },
+            until: {
+              type: 'string',
+              description: 'Only events at or before this ISO timestamp',
+            },
+            after_seq: {
+              type: 'number',
+              description: 'Only events with a higher sequence number',
+            },
+            limit: {
+              type: 'number',
+              description: 'Return only the most recent matching events',
+            },
+          },
+          required: ['feature_id'],
+        },
+      },
+      {
+        name: 'rebuild_state',
+        description:
+          'Rebuild state.json by replaying the workspace event log, and report how it differs from the current file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+            write: {
+              type: 'boolean',
+              description: 'Overwrite state.json and scope.json with the rebuilt state',
+              default: false,
+            },
+            expected_revision: EXPECTED_REVISION_PROPERTY,
+            actor: ACTOR_PROPERTY,
+          },
+          required: ['feature_id'],
+        },
+      },
 
       // Artifact Management
       {
@@ -314,6 +488,8 @@ class FeatureOrchestratorServer {
               description: 'Content type',
               default: 'json',
             },
+            expected_revision: EXPECTED_ARTIFACT_REVISION_PROPERTY,
+            actor: ACTOR_PROPERTY,
           },
           required: ['feature_id', 'name', 'content'],
         },
@@ -332,10 +508,84 @@ class FeatureOrchestratorServer {
               type: 'string',
               description: 'Artifact name',
             },
+            version: {
+              type: 'number',
+              description: 'Version to read (default: the current file)',
+            },
+          },
+          required: ['feature_id', 'name'],
+        },
+      },
+      {
+        name: 'list_artifact_versions',
+        description: 'List the numbered versions of an artifact, oldest first',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+            name: {
+              type: 'string',
+              description: 'Artifact name',
+            },
+          },
+          required: ['feature_id', 'name'],
+        },
+      },
+      {
+        name: 'diff_artifacts',
+        description:
+          'Diff two versions of an artifact: a structural diff for JSON artifacts, a line diff for markdown and text',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+            name: {
+              type: 'string',
+              description: 'Artifact name',
+            },
+            from_version: {
+              type: 'number',
+              description: 'Older version (default: the version before to_version)',
+            },
+            to_version: {
+              type: 'number',
+              description: 'Newer version (default: the latest version)',
+            },
           },
           required: ['feature_id', 'name'],
         },
       },
+      {
+        name: 'restore_artifact_version',
+        description:
+          'Restore an earlier version of an artifact. The restored content is saved as a new version, so nothing is lost',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+            name: {
+              type: 'string',
+              description: 'Artifact name',
+            },
+            version: {
+              type: 'number',
+              description: 'Version to restore',
+            },
+            expected_revision: EXPECTED_ARTIFACT_REVISION_PROPERTY,
+            actor: ACTOR_PROPERTY,
+          },
+          required: ['feature_id', 'name', 'version'],
+        },
+      },
       {
         name: 'list_artifacts',
         description: 'List all artifacts in a workspace',
@@ -350,11 +600,67 @@ class FeatureOrchestratorServer {
           required: ['feature_id'],
         },
       },
+      {
+        name: 'validate_workspace',
+        description:
+          'Re-validate every artifact in a workspace against its schema and report missing phase artifacts',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+          },
+          required: ['feature_id'],
+        },
+      },
+
+      // Coverage
+      {
+        name: 'validate_coverage',
+        description:
+          'Coverage gate: cross-reference checklist items against test-plan.json, test-coverage.json and ' +
+          'the @feature/@AC tags in E2E test files, and save the result as coverage-check.json',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+            test_directory: {
+              type: 'string',
+              description:
+                'E2E test directory relative to the project root (default: tests.e2e.test_directory from the project config, then plan.json test_frameworks.e2e.test_directory, then tests/e2e)',
+            },
+          },
+          required: ['feature_id'],
+        },
+      },
+      {
+        name: 'build_traceability_matrix',
+        description:
+          'Join doc requirements (requirements-snapshot.json), checklist ACs, plan tasks, test-plan test cases and stored test runs, flag gaps in both directions, ' +
+          'and save the matrix as traceability.json, traceability.md and traceability.csv',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+            actor: ACTOR_PROPERTY,
+          },
+          required: ['feature_id'],
+        },
+      },
 
       // Configuration
       {
         name: 'get_config',
-        description: 'Get the project configuration for feature orchestrator',
+        description:
+          'Get the resolved project configuration: the YAML file merged over defaults, with validation errors and the source of each value',
         inputSchema: {
           type: 'object',
           properties: {
@@ -394,7 +700,7 @@ class FeatureOrchestratorServer {
             paths: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Paths to search in',
+              description: 'Paths to search in (default: docs.paths from the project config)',
             },
             max_results: {
               type: 'number',
@@ -419,6 +725,27 @@ class FeatureOrchestratorServer {
           required: ['path'],
         },
       },
+      {
+        name: 'record_requirements_snapshot',
+        description:
+          "Record a docs-reader requirements snapshot in the workspace as requirements-snapshot.json, so diff_requirements can later show how the docs changed since the feature's docs audit",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            feature_id: {
+              type: 'string',
+              description: 'Feature ID',
+            },
+            snapshot: {
+              type: 'string',
+              description: 'Snapshot name returned by snapshot_requirements',
+            },
+            expected_revision: EXPECTED_ARTIFACT_REVISION_PROPERTY,
+            actor: ACTOR_PROPERTY,
+          },
+          required: ['feature_id', 'snapshot'],
+        },
+      },
 
       // Report Generation
       {
@@ -443,55 +770,81 @@ class FeatureOrchestratorServer {
       switch (name) {
         // Workspace Management
         case 'create_workspace':
-          return this.createWorkspace(args);
+          return await this.createWorkspace(args);
         case 'list_workspaces':
-          return this.listWorkspaces(args);
+          return await this.listWorkspaces(args);
         case 'get_workspace':
-          return this.getWorkspace(args);
+          return await this.getWorkspace(args);
         case 'delete_workspace':
-          return this.deleteWorkspace(args);
+          return await this.withWorkspaceLock(args, () => this.deleteWorkspace(args));
 
         // State Management
         case 'get_state':
-          return this.getState(args);
+          return await this.getState(args);
         case 'update_state':
-          return this.updateState(args);
+          return await this.withWorkspaceLock(args, () => this.updateState(args));
+        case 'get_allowed_transitions':
+          return await this.getAllowedTransitions(args);
         case 'set_scope':
-          return this.setScope(args);
+          return await this.withWorkspaceLock(args, () => this.setScope(args));
+        case 'get_events':
+          return await this.getEvents(args);
+        case 'rebuild_state':
+          return await this.withWorkspaceLock(args, () => this.rebuildState(args));
 
         // Artifact Management
         case 'save_artifact':
-          return this.saveArtifact(args);
+          return await this.withWorkspaceLock(args, () => this.saveArtifact(args));
         case 'get_artifact':
-          return this.getArtifact(args);
+          return await this.getArtifact(args);
+        case 'list_artifact_versions':
+          return await this.listArtifactVersions(args);
+        case 'diff_artifacts':
+          return await this.diffArtifacts(args);
+        case 'restore_artifact_version':
+          return await this.withWorkspaceLock(args, () => this.restoreArtifactVersion(args));
         case 'list_artifacts':
-          return this.listArtifacts(args);
+          return await this.listArtifacts(args);
+        case 'validate_workspace':
+          return await this.validateWorkspace(args);
+
+        // Coverage
+        case 'validate_coverage':
+          return await this.withWorkspaceLock(args, () => this.validateCoverage(args));
+        case 'build_traceability_matrix':
+          return await this.withWorkspaceLock(args, () => this.buildTraceabilityMatrix(args));
 
         // Configuration
         case 'get_config':
-          return this.getConfig(args);
+          return await this.getConfig(args);
         case 'generate_feature_id':
-          return this.generateFeatureId(args);
+          return await this.generateFeatureId(args);
 
         // Documentation
         case 'search_docs':
-          return this.searchDocs(args);
+          return await this.searchDocs(args);
         case 'read_doc':
-          return this.readDoc(args);
+          return await this.readDoc(args);
+        case 'record_requirements_snapshot':
+          return await this.withWorkspaceLock(args, () => this.recordRequirementsSnapshot(args));
 
         // Reporting
         case 'generate_report':
-          return this.generateReport(args);
+          return await this.withWorkspaceLock(args, () => this.generateReport(args));
 
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
     } catch (error) {
+      const structured =
+        error instanceof OrchestratorError
+          ? { code: error.code, details: error.details }
+          : {};
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify({ error: String(error) }),
+            text: JSON.stringify({ error: String(error), ...structured }),
           },
         ],
         isError: true,
@@ -509,16 +862,28 @@ class FeatureOrchestratorServer {
     if (!featureId) {
       throw new Error('feature_id is required');
     }
+    this.assertIterationLimitArgs(args);
+
+    const workspacePath = this.workspacePath(featureId);
+    const behavior = this.projectConfig.config.behavior ?? {};
+    const maxIterations = iterationLimit(args.max_iterations ?? behavior.max_iterations, 5);
+    const maxIterationsPerPhase = iterationLimit(
+      args.max_iterations_per_phase ?? behavior.max_iterations_per_phase,
+      3
+    );
 
-    const workspacePath = join(this.workspacesDir, featureId);
-
-    if (existsSync(workspacePath)) {
-      throw new Error(`Workspace already exists: ${featureId}`);
+    // Create workspace directory; creating the leaf without `recursive` fails
+    // if a concurrent call created it first
+    mkdirSync(this.workspacesDir, { recursive: true });
+    try {
+      mkdirSync(workspacePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new Error(`Workspace already exists: ${featureId}`);
+      }
+      throw error;
     }
 
-    // Create workspace directory
-    mkdirSync(workspacePath, { recursive: true });
-
     // Create initial state
     const state: FeatureState = {
       feature_id: featureId,
@@ -532,17 +897,19 @@ class FeatureOrchestratorServer {
       },
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
+      revision: 0,
       phases_completed: [],
       current_iteration: 0,
-      max_iterations: 5,
+      max_iterations: maxIterations,
+      phase_iterations: {},
+      max_iterations_per_phase: maxIterationsPerPhase,
       errors: [],
     };
 
-    // Save state
-    writeFileSync(join(workspacePath, 'state.json'), JSON.stringify(state, null, 2));
+    // Save state and scope
+    this.writeState(workspacePath, state);
 
-    // Save scope
-    writeFileSync(join(workspacePath, 'scope.json'), JSON.stringify(state.scope, null, 2));
+    this.recordEvent(featureId, 'create_workspace', args, {}, state);
 
     return {
       content: [
@@ -644,7 +1011,7 @@ class FeatureOrchestratorServer {
       throw new Error('feature_id is required');
     }
 
-    const workspacePath = join(this.workspacesDir, featureId);
+    const workspacePath = this.workspacePath(featureId);
 
     if (!existsSync(workspacePath)) {
       throw new Error(`Workspace not found: ${featureId}`);
@@ -700,12 +1067,25 @@ class FeatureOrchestratorServer {
       throw new Error('Must confirm deletion by setting confirm: true');
     }
 
-    const workspacePath = join(this.workspacesDir, featureId);
+    const workspacePath = this.workspacePath(featureId);
 
     if (!existsSync(workspacePath)) {
       throw new Error(`Workspace not found: ${featureId}`);
     }
 
+    // The log outlives the workspace so the deletion stays auditable
+    const statePath = join(workspacePath, 'state.json');
+    const state = existsSync(statePath) ? JSON.parse(readFileSync(statePath, 'utf-8')) : {};
+    this.assertRevision(state, args);
+    const event = this.recordEvent(featureId, 'delete_workspace', args, state, {});
+    const archivedLog = join(
+      this.workspacesDir,
+      '.deleted',
+      `${featureId}-${event.timestamp.replace(/[:.]/g, '-')}.events.jsonl`
+    );
+    mkdirSync(dirname(archivedLog), { recursive: true });
+    renameSync(this.eventLog(featureId).path, archivedLog);
+
     rmSync(workspacePath, { recursive: true, force: true });
 
     return {
@@ -715,6 +1095,7 @@ class FeatureOrchestratorServer {
           text: JSON.stringify({
             success: true,
             deleted: featureId,
+            event_log: archivedLog,
           }),
         },
       ],
@@ -729,7 +1110,7 @@ class FeatureOrchestratorServer {
       throw new Error('feature_id is required');
     }
 
-    const statePath = join(this.workspacesDir, featureId, 'state.json');
+    const statePath = join(this.workspacePath(featureId), 'state.json');
 
     if (!existsSync(statePath)) {
       throw new Error(`State not found for feature: ${featureId}`);
@@ -754,37 +1135,98 @@ class FeatureOrchestratorServer {
       throw new Error('feature_id is required');
     }
 
-    const statePath = join(this.workspacesDir, featureId, 'state.json');
+    const statePath = join(this.workspacePath(featureId), 'state.json');
 
     if (!existsSync(statePath)) {
       throw new Error(`State not found for feature: ${featureId}`);
     }
 
     const state = JSON.parse(readFileSync(statePath, 'utf-8')) as FeatureState;
+    const before = structuredClone(state);
+    this.assertRevision(state, args);
+    this.assertIterationLimitArgs(args);
 
-    // Update fields
-    if (args.phase) {
-      state.current_phase = args.phase as string;
+    // Completion is applied first so a single call can finish the current
+    // phase and move on to the next one.
+    if (args.mark_phase_completed) {
+      const phase = args.mark_phase_completed as string;
+      this.assertCanCompletePhase(state, phase, this.workspacePath(featureId));
+      if (!state.phases_completed.includes(phase)) {
+        state.phases_completed.push(phase);
+      }
+    }
+    if (args.phase && args.phase !== state.current_phase) {
+      const phase = args.phase as Phase;
+      this.assertCanEnterPhase(state, phase);
+      if (isLoopBack(state.current_phase, phase)) {
+        const events = this.eventLog(featureId).read();
+        state.loop_back = {
+          from: state.current_phase,
+          to: phase,
+          after_seq: events.length > 0 ? events[events.length - 1].seq : 0,
+        };
+      }
+      // The phase and everything after it have to be done (again)
+      const redo = phasesFrom(phase);
+      state.phases_completed = state.phases_completed.filter((p) => !redo.includes(p as Phase));
+      state.current_phase = phase;
     }
     if (args.status) {
-      state.status = args.status as FeatureState['status'];
+      const status = args.status as FeatureState['status'];
+      if (status === 'completed' && state.current_phase !== 'report') {
+        throw new PhaseTransitionError(
+          `Cannot mark feature completed from phase "${state.current_phase}"; the report phase must be reached first`,
+          {
+            current_phase: state.current_phase,
+            requested: 'completed',
+            allowed_transitions: nextPhases(state.current_phase),
+            phases_completed: state.phases_completed,
+          }
+        );
+      }
+      state.status = status;
+      state.status_reason = undefined;
     }
-    if (args.increment_iteration) {
-      state.current_iteration++;
+    if (args.max_iterations !== undefined) {
+      state.max_iterations = args.max_iterations as number;
+    }
+    if (args.max_iterations_per_phase !== undefined) {
+      state.max_iterations_per_phase = args.max_iterations_per_phase as number;
     }
     if (args.add_error) {
       state.errors.push(args.add_error as string);
     }
-    if (args.mark_phase_completed) {
-      const phase = args.mark_phase_completed as string;
-      if (!state.phases_completed.includes(phase)) {
-        state.phases_completed.push(phase);
+    // The iteration comes last: when the budget is exhausted, every other
+    // field of the update is already applied and written with the pause.
+    if (args.increment_iteration) {
+      const phaseIterations = state.phase_iterations ?? {};
+      const exhausted = checkIterationBudget(state, state.current_phase);
+
+      if (exhausted) {
+        // The rest of the update stands; the feature stops here until the budget is raised
+        const onLimit = this.projectConfig.config.behavior?.on_iteration_limit;
+        state.status = onLimit === 'failed' ? 'failed' : 'paused';
+        state.status_reason = exhausted.reason;
+        this.writeState(this.workspacePath(featureId), state);
+        this.recordEvent(featureId, 'update_state', args, before, state);
+
+        throw new IterationBudgetError(exhausted, {
+          status: state.status,
+          revision: state.revision,
+          current_iteration: state.current_iteration,
+          max_iterations: state.max_iterations,
+          phase_iterations: phaseIterations,
+          max_iterations_per_phase: state.max_iterations_per_phase,
+        });
       }
-    }
 
-    state.updated_at = new Date().toISOString();
+      state.current_iteration++;
+      phaseIterations[state.current_phase] = (phaseIterations[state.current_phase] ?? 0) + 1;
+      state.phase_iterations = phaseIterations;
+    }
 
-    writeFileSync(statePath, JSON.stringify(state, null, 2));
+    this.writeState(this.workspacePath(featureId), state);
+    this.recordEvent(featureId, 'update_state', args, before, state);
 
     return {
       content: [
@@ -796,53 +1238,455 @@ class FeatureOrchestratorServer {
     };
   }
 
-  private async setScope(args: Record<string, unknown>) {
-    const featureId = args.feature_id as string;
-    const scope = args.scope as 'full' | 'frontend-only';
-    const notes = args.notes as string | undefined;
-
-    if (!featureId || !scope) {
-      throw new Error('feature_id and scope are required');
+  private assertIterationLimitArgs(args: Record<string, unknown>) {
+    for (const key of ['max_iterations', 'max_iterations_per_phase']) {
+      const value = args[key];
+      if (value !== undefined && !(Number.isInteger(value) && (value as number) >= 1)) {
+        throw new Error(`${key} must be a positive integer`);
+      }
     }
+  }
 
-    const workspacePath = join(this.workspacesDir, featureId);
-    const statePath = join(workspacePath, 'state.json');
-    const scopePath = join(workspacePath, 'scope.json');
+  private assertCanEnterPhase(state: FeatureState, phase: string) {
+    const allowed = nextPhases(state.current_phase);
+    const details = {
+      current_phase: state.current_phase,
+      requested: phase,
+      allowed_transitions: allowed,
+      phases_completed: state.phases_completed,
+    };
 
-    if (!existsSync(statePath)) {
-      throw new Error(`State not found for feature: ${featureId}`);
+    if (!isPhase(phase)) {
+      throw new PhaseTransitionError(`Unknown phase: ${phase}`, details);
+    }
+    if (!allowed.includes(phase)) {
+      throw new PhaseTransitionError(
+        `Illegal transition from "${state.current_phase}" to "${phase}"`,
+        details
+      );
     }
 
-    const state = JSON.parse(readFileSync(statePath, 'utf-8')) as FeatureState;
+    const missing = missingPrerequisites(phase, state.phases_completed);
+    if (missing.length > 0) {
+      throw new PhaseTransitionError(
+        `Cannot enter "${phase}" before completing: ${missing.join(', ')}`,
+        { ...details, missing_prerequisites: missing }
+      );
+    }
+  }
 
-    state.scope = {
-      implementation_scope: scope,
-      skip_backend: scope === 'frontend-only',
-      notes,
+  private assertCanCompletePhase(state: FeatureState, phase: string, workspacePath: string) {
+    const details = {
+      current_phase: state.current_phase,
+      requested: phase,
+      allowed_transitions: nextPhases(state.current_phase),
+      phases_completed: state.phases_completed,
     };
-    state.updated_at = new Date().toISOString();
 
-    writeFileSync(statePath, JSON.stringify(state, null, 2));
-    writeFileSync(scopePath, JSON.stringify(state.scope, null, 2));
+    if (!isPhase(phase)) {
+      throw new PhaseTransitionError(`Unknown phase: ${phase}`, details);
+    }
+    if (phase !== state.current_phase) {
+      throw new PhaseTransitionError(
+        `Cannot mark "${phase}" completed while the current phase is "${state.current_phase}"`,
+        details
+      );
+    }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(
+    const missing = missingPrerequisites(phase, state.phases_completed);
+    if (missing.length > 0) {
+      throw new PhaseTransitionError(
+        `Cannot complete "${phase}" before completing: ${missing.join(', ')}`,
+        { ...details, missing_prerequisites: missing }
+      );
+    }
+
+    const gate = checkArtifacts(workspacePath, PHASE_GRAPH[phase].artifacts, state.loop_back?.after_seq);
+    if (!gate.passed) {
+      throw new ArtifactGateError(phase, gate);
+    }
+
+    // The coverage gate only opens once validate_coverage has passed
+    if (phase === 'coverage_validation') {
+      const check = JSON.parse(readFileSync(join(workspacePath, 'coverage-check.json'), 'utf-8'));
+      if (check.coverage_check.status !== 'passed') {
+        throw new ArtifactGateError(phase, {
+          passed: false,
+          missing: [],
+          invalid: [
             {
-              success: true,
-              feature_id: featureId,
-              scope: state.scope,
+              artifact: 'coverage-check.json',
+              errors: ['coverage_check.status is "failed"; remediate and re-run validate_coverage'],
             },
-            null,
-            2
-          ),
-        },
-      ],
-    };
-  }
-
+          ],
+          stale: [],
+        });
+      }
+    }
+  }
+
+  private async getAllowedTransitions(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+
+    if (!featureId) {
+      throw new Error('feature_id is required');
+    }
+
+    const statePath = join(this.workspacePath(featureId), 'state.json');
+
+    if (!existsSync(statePath)) {
+      throw new Error(`State not found for feature: ${featureId}`);
+    }
+
+    const state = JSON.parse(readFileSync(statePath, 'utf-8')) as FeatureState;
+
+    const transitions = nextPhases(state.current_phase).map((phase) => {
+      const missing = missingPrerequisites(phase, state.phases_completed);
+      return {
+        phase,
+        description: PHASE_GRAPH[phase].description,
+        allowed: missing.length === 0,
+        missing_prerequisites: missing,
+      };
+    });
+
+    const artifactGate = isPhase(state.current_phase)
+      ? checkArtifacts(
+          this.workspacePath(featureId),
+          PHASE_GRAPH[state.current_phase].artifacts,
+          state.loop_back?.after_seq
+        )
+      : null;
+
+    const canCompleteCurrent =
+      isPhase(state.current_phase) &&
+      !state.phases_completed.includes(state.current_phase) &&
+      missingPrerequisites(state.current_phase, state.phases_completed).length === 0 &&
+      artifactGate !== null &&
+      artifactGate.passed;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              feature_id: featureId,
+              current_phase: state.current_phase,
+              phases_completed: state.phases_completed,
+              can_complete_current_phase: canCompleteCurrent,
+              current_phase_artifacts: artifactGate,
+              transitions,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async setScope(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+    const scope = args.scope as 'full' | 'frontend-only';
+    const notes = args.notes as string | undefined;
+
+    if (!featureId || !scope) {
+      throw new Error('feature_id and scope are required');
+    }
+
+    const workspacePath = this.workspacePath(featureId);
+    const statePath = join(workspacePath, 'state.json');
+
+    if (!existsSync(statePath)) {
+      throw new Error(`State not found for feature: ${featureId}`);
+    }
+
+    const state = JSON.parse(readFileSync(statePath, 'utf-8')) as FeatureState;
+    const before = structuredClone(state);
+    this.assertRevision(state, args);
+
+    state.scope = {
+      implementation_scope: scope,
+      skip_backend: scope === 'frontend-only',
+      notes,
+    };
+
+    this.writeState(workspacePath, state);
+    this.recordEvent(featureId, 'set_scope', args, before, state);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              feature_id: featureId,
+              scope: state.scope,
+              revision: state.revision,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async getEvents(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+    const limit = args.limit as number | undefined;
+
+    if (!featureId) {
+      throw new Error('feature_id is required');
+    }
+    if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1)) {
+      throw new Error('limit must be a positive integer');
+    }
+
+    const log = this.findEventLog(featureId);
+    const events = filterEvents(log.read(), {
+      tool: args.tool as string | undefined,
+      actor: args.actor as string | undefined,
+      path: args.path as string | undefined,
+      artifact: args.artifact as string | undefined,
+      since: args.since as string | undefined,
+      until: args.until as string | undefined,
+      after_seq: args.after_seq as number | undefined,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              feature_id: featureId,
+              event_log: log.path,
+              total: events.length,
+              events: limit !== undefined ? events.slice(-limit) : events,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async rebuildState(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+    const write = args.write === true;
+
+    if (!featureId) {
+      throw new Error('feature_id is required');
+    }
+
+    const workspacePath = this.workspacePath(featureId);
+    const statePath = join(workspacePath, 'state.json');
+
+    if (!existsSync(workspacePath)) {
+      throw new Error(`Workspace not found: ${featureId}`);
+    }
+
+    const events = this.eventLog(featureId).read();
+    const rebuilt = replayState(events);
+    if (!rebuilt) {
+      throw new Error(
+        `Cannot rebuild state for ${featureId}: the event log does not start with create_workspace ` +
+          '(the workspace may predate the event log)'
+      );
+    }
+
+    const current = existsSync(statePath) ? JSON.parse(readFileSync(statePath, 'utf-8')) : {};
+    const differences = diffState(current, rebuilt);
+
+    if (write) {
+      this.assertRevision(current, args);
+      // Continue from the current revision so writers holding it see the change
+      rebuilt.revision = Math.max(Number(current.revision) || 0, Number(rebuilt.revision) || 0);
+      this.writeState(workspacePath, rebuilt as unknown as FeatureState);
+      this.recordEvent(featureId, 'rebuild_state', args, current, rebuilt);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              feature_id: featureId,
+              events_replayed: events.length,
+              written: write,
+              differences,
+              state: rebuilt,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Workspace and artifact paths are built only through these two, which
+   * reject feature IDs and artifact names that would leave the workspace.
+   */
+  private workspacePath(featureId: string): string {
+    return workspaceDir(this.workspacesDir, featureId);
+  }
+
+  private artifactPath(featureId: string, name: string, access: 'read' | 'write' = 'read'): string {
+    return artifactFile(this.workspacePath(featureId), name, access);
+  }
+
+  private eventLog(featureId: string): EventLog {
+    return new EventLog(join(this.workspacePath(featureId), 'events.jsonl'));
+  }
+
+  /**
+   * Returns the workspace's event log, or the most recently archived one if
+   * the workspace was deleted.
+   */
+  private findEventLog(featureId: string): EventLog {
+    const log = this.eventLog(featureId);
+    if (existsSync(log.path)) {
+      return log;
+    }
+
+    const archiveDir = join(this.workspacesDir, '.deleted');
+    const archived = existsSync(archiveDir)
+      ? readdirSync(archiveDir)
+          .filter((f) => f.startsWith(`${featureId}-`) && f.endsWith('.events.jsonl'))
+          .sort()
+      : [];
+    if (archived.length === 0) {
+      throw new Error(`No event log found for feature: ${featureId}`);
+    }
+    return new EventLog(join(archiveDir, archived[archived.length - 1]));
+  }
+
+  /**
+   * Runs a mutating tool while holding the lock of the workspace named by
+   * `feature_id`, so its read-modify-write cannot interleave with another
+   * writer's, even one in a different server process.
+   */
+  private async withWorkspaceLock<T>(args: Record<string, unknown>, fn: () => Promise<T>) {
+    const featureId = args.feature_id;
+    if (typeof featureId !== 'string' || !featureId) {
+      return fn();
+    }
+
+    const release = await lockWorkspace(this.workspacePath(featureId));
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Bumps the revision and writes state.json and scope.json atomically.
+   */
+  private writeState(workspacePath: string, state: FeatureState) {
+    state.revision = (state.revision ?? 0) + 1;
+    state.updated_at = new Date().toISOString();
+    writeFileAtomic(join(workspacePath, 'state.json'), JSON.stringify(state, null, 2));
+    writeFileAtomic(join(workspacePath, 'scope.json'), JSON.stringify(state.scope, null, 2));
+  }
+
+  /**
+   * Rejects the call if it names an `expected_revision` other than the
+   * current one. Workspaces from before revisions existed are at revision 0.
+   */
+  private assertRevision(state: Partial<FeatureState>, args: Record<string, unknown>) {
+    if (args.expected_revision === undefined) return;
+
+    const current = state.revision ?? 0;
+    if (args.expected_revision !== current) {
+      throw new RevisionConflictError(
+        `State of ${state.feature_id} is at revision ${current}, not ${args.expected_revision}; re-read it and retry`,
+        {
+          expected_revision: args.expected_revision as number,
+          current_revision: current,
+          current_state: state,
+        }
+      );
+    }
+  }
+
+  /**
+   * Same as assertRevision, for an artifact's version number. An artifact
+   * that was never saved is at version 0.
+   */
+  private assertArtifactRevision(featureId: string, name: string, args: Record<string, unknown>) {
+    if (args.expected_revision === undefined) return;
+
+    const current =
+      new ArtifactVersions(this.workspacePath(featureId)).latest(name)?.version ?? 0;
+    if (args.expected_revision !== current) {
+      throw new RevisionConflictError(
+        `Artifact ${name} is at version ${current}, not ${args.expected_revision}; re-read it and retry`,
+        {
+          expected_revision: args.expected_revision as number,
+          current_revision: current,
+          artifact: name,
+        }
+      );
+    }
+  }
+
+  /**
+   * The `actor` argument of a tool call if given, otherwise the name of the
+   * connected MCP client.
+   */
+  private actorOf(args: Record<string, unknown>): string {
+    return typeof args.actor === 'string' && args.actor
+      ? args.actor
+      : (this.server.getClientVersion()?.name ?? 'unknown');
+  }
+
+  /**
+   * Appends an event for a mutating tool call.
+   */
+  private recordEvent(
+    featureId: string,
+    tool: string,
+    args: Record<string, unknown>,
+    before: unknown,
+    after: unknown
+  ) {
+    return this.eventLog(featureId).append({
+      feature_id: featureId,
+      tool,
+      actor: this.actorOf(args),
+      changes: diffState(before, after),
+    });
+  }
+
+  /**
+   * Writes an artifact into the workspace, keeps it as a numbered version,
+   * and logs the content hash of the version it replaced and the new one
+   * (see writeWorkspaceArtifact, which the playwright orchestrator uses too).
+   */
+  private writeArtifact(
+    featureId: string,
+    name: string,
+    content: string,
+    tool: string,
+    args: Record<string, unknown>,
+    restoredFrom?: number
+  ): { path: string; version: number } {
+    const { path, version } = writeWorkspaceArtifact(this.workspacePath(featureId), featureId, name, content, {
+      tool,
+      actor: this.actorOf(args),
+      restored_from: restoredFrom,
+    });
+    return { path, version };
+  }
+
   // Artifact Management
   private async saveArtifact(args: Record<string, unknown>) {
     const featureId = args.feature_id as string;
@@ -854,24 +1698,31 @@ class FeatureOrchestratorServer {
       throw new Error('feature_id, name, and content are required');
     }
 
-    const workspacePath = join(this.workspacesDir, featureId);
+    const workspacePath = this.workspacePath(featureId);
 
     if (!existsSync(workspacePath)) {
       throw new Error(`Workspace not found: ${featureId}`);
     }
 
-    const artifactPath = join(workspacePath, name);
+    const artifactPath = this.artifactPath(featureId, name, 'write');
 
-    // Validate JSON if type is json
-    if (type === 'json') {
+    // Validate JSON content, and known artifacts against their schema
+    if (type === 'json' || hasSchema(name)) {
+      let data: unknown;
       try {
-        JSON.parse(content);
+        data = JSON.parse(content);
       } catch {
         throw new Error('Invalid JSON content');
       }
+
+      const errors = validateAgainstSchema(name, data);
+      if (errors.length > 0) {
+        throw new ArtifactValidationError(name, errors);
+      }
     }
 
-    writeFileSync(artifactPath, content);
+    this.assertArtifactRevision(featureId, name, args);
+    const { version } = this.writeArtifact(featureId, name, content, 'save_artifact', args);
 
     return {
       content: [
@@ -883,6 +1734,7 @@ class FeatureOrchestratorServer {
             artifact: name,
             path: artifactPath,
             size: content.length,
+            version,
           }),
         },
       ],
@@ -897,7 +1749,36 @@ class FeatureOrchestratorServer {
       throw new Error('feature_id and name are required');
     }
 
-    const artifactPath = join(this.workspacesDir, featureId, name);
+    const workspacePath = this.workspacePath(featureId);
+    const artifactPath = this.artifactPath(featureId, name);
+    const versions = new ArtifactVersions(workspacePath);
+
+    if (args.version !== undefined) {
+      const version = this.versionArg(args.version, 'version');
+      const content = versions.read(name, version);
+      const info = versions.list(name).find((v) => v.version === version)!;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                feature_id: featureId,
+                name,
+                path: artifactPath,
+                content,
+                size: info.size,
+                modified_at: info.saved_at,
+                version,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
 
     if (!existsSync(artifactPath)) {
       throw new Error(`Artifact not found: ${name}`);
@@ -905,6 +1786,10 @@ class FeatureOrchestratorServer {
 
     const content = readFileSync(artifactPath, 'utf-8');
     const stat = statSync(artifactPath);
+    // Only claim a version if the file still matches it
+    const latest = versions.latest(name);
+    const version =
+      latest && latest.sha256 === artifactVersion(content).sha256 ? latest.version : undefined;
 
     return {
       content: [
@@ -918,6 +1803,105 @@ class FeatureOrchestratorServer {
               content,
               size: stat.size,
               modified_at: stat.mtime.toISOString(),
+              version,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async listArtifactVersions(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+    const name = args.name as string;
+
+    if (!featureId || !name) {
+      throw new Error('feature_id and name are required');
+    }
+
+    const workspacePath = this.workspacePath(featureId);
+
+    if (!existsSync(workspacePath)) {
+      throw new Error(`Workspace not found: ${featureId}`);
+    }
+
+    const versions = new ArtifactVersions(workspacePath).list(name);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              feature_id: featureId,
+              name,
+              versions,
+              total: versions.length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async diffArtifacts(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+    const name = args.name as string;
+
+    if (!featureId || !name) {
+      throw new Error('feature_id and name are required');
+    }
+
+    const versions = new ArtifactVersions(this.workspacePath(featureId));
+    const latest = versions.latest(name);
+
+    if (!latest) {
+      throw new Error(`Artifact ${name} has no saved versions`);
+    }
+
+    const toVersion =
+      args.to_version !== undefined
+        ? this.versionArg(args.to_version, 'to_version')
+        : latest.version;
+    const fromVersion =
+      args.from_version !== undefined
+        ? this.versionArg(args.from_version, 'from_version')
+        : toVersion - 1;
+
+    if (fromVersion < 1) {
+      throw new Error(`Artifact ${name} has no version before ${toVersion}; pass from_version`);
+    }
+
+    const before = versions.read(name, fromVersion);
+    const after = versions.read(name, toVersion);
+
+    let diff: Record<string, unknown>;
+    try {
+      if (!name.endsWith('.json')) throw new Error('not JSON');
+      const changes = diffJson(JSON.parse(before), JSON.parse(after));
+      diff = { format: 'json', total_changes: changes.length, changes };
+    } catch {
+      diff = {
+        format: 'lines',
+        ...diffLines(before, after, `${name}@${fromVersion}`, `${name}@${toVersion}`),
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              feature_id: featureId,
+              name,
+              from_version: fromVersion,
+              to_version: toVersion,
+              ...diff,
             },
             null,
             2
@@ -927,6 +1911,53 @@ class FeatureOrchestratorServer {
     };
   }
 
+  private async restoreArtifactVersion(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+    const name = args.name as string;
+
+    if (!featureId || !name) {
+      throw new Error('feature_id and name are required');
+    }
+
+    const restoredFrom = this.versionArg(args.version, 'version');
+    this.assertArtifactRevision(featureId, name, args);
+    const content = new ArtifactVersions(this.workspacePath(featureId)).read(
+      name,
+      restoredFrom
+    );
+    const { path, version } = this.writeArtifact(
+      featureId,
+      name,
+      content,
+      'restore_artifact_version',
+      args,
+      restoredFrom
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            feature_id: featureId,
+            artifact: name,
+            path,
+            restored_from: restoredFrom,
+            version,
+          }),
+        },
+      ],
+    };
+  }
+
+  private versionArg(value: unknown, key: string): number {
+    if (!Number.isInteger(value) || (value as number) < 1) {
+      throw new Error(`${key} must be a positive integer`);
+    }
+    return value as number;
+  }
+
   private async listArtifacts(args: Record<string, unknown>) {
     const featureId = args.feature_id as string;
 
@@ -934,7 +1965,7 @@ class FeatureOrchestratorServer {
       throw new Error('feature_id is required');
     }
 
-    const workspacePath = join(this.workspacesDir, featureId);
+    const workspacePath = this.workspacePath(featureId);
 
     if (!existsSync(workspacePath)) {
       throw new Error(`Workspace not found: ${featureId}`);
@@ -978,58 +2009,55 @@ class FeatureOrchestratorServer {
     };
   }
 
-  // Configuration
-  private async getConfig(args: Record<string, unknown>) {
-    const configPath =
-      (args.config_path as string) || join(this.projectRoot, '.claude', 'feature-orchestrator.yml');
+  private async validateWorkspace(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
 
-    if (!existsSync(configPath)) {
-      // Return defaults
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                exists: false,
-                config_path: configPath,
-                defaults: {
-                  tests: {
-                    e2e: { runner: 'playwright', command: 'npx playwright test' },
-                    unit: { runner: 'vitest', command: 'npm run test:unit' },
-                  },
-                  docs: {
-                    paths: ['docs', 'specs', 'README.md'],
-                  },
-                  default_feature_env: {
-                    base_url: 'http://localhost:3000',
-                  },
-                  behavior: {
-                    max_iterations: 5,
-                  },
-                },
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
+    if (!featureId) {
+      throw new Error('feature_id is required');
     }
 
-    const content = readFileSync(configPath, 'utf-8');
+    const workspacePath = this.workspacePath(featureId);
+
+    if (!existsSync(workspacePath)) {
+      throw new Error(`Workspace not found: ${featureId}`);
+    }
+
+    const artifacts = readdirSync(workspacePath)
+      .filter((f) => !f.startsWith('.') && statSync(join(workspacePath, f)).isFile())
+      .map((f) => {
+        const errors = validateArtifactContent(f, readFileSync(join(workspacePath, f), 'utf-8'));
+        return {
+          artifact: f,
+          schema: hasSchema(f),
+          valid: errors.length === 0,
+          errors,
+        };
+      });
+
+    // Artifacts required by phases already marked completed must still be present
+    const statePath = join(workspacePath, 'state.json');
+    const state = existsSync(statePath)
+      ? (JSON.parse(readFileSync(statePath, 'utf-8')) as FeatureState)
+      : null;
+    const required = (state?.phases_completed || [])
+      .filter(isPhase)
+      .flatMap((phase) => PHASE_GRAPH[phase].artifacts);
+    const { missing } = checkArtifacts(workspacePath, required);
+
+    const invalid = artifacts.filter((a) => !a.valid);
 
-    // Parse YAML (simple key-value extraction for now)
-    // For full YAML support, would need yaml package
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify(
             {
-              exists: true,
-              config_path: configPath,
-              raw_content: content,
+              feature_id: featureId,
+              valid: invalid.length === 0 && missing.length === 0,
+              checked: artifacts.length,
+              invalid: invalid.length,
+              missing_required: missing,
+              artifacts,
             },
             null,
             2
@@ -1039,6 +2067,168 @@ class FeatureOrchestratorServer {
     };
   }
 
+  // Coverage
+  private async validateCoverage(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+
+    if (!featureId) {
+      throw new Error('feature_id is required');
+    }
+
+    const workspacePath = this.workspacePath(featureId);
+
+    if (!existsSync(workspacePath)) {
+      throw new Error(`Workspace not found: ${featureId}`);
+    }
+
+    const loadArtifact = (name: string) => {
+      const path = join(workspacePath, name);
+      if (existsSync(path)) {
+        return JSON.parse(readFileSync(path, 'utf-8'));
+      }
+      return null;
+    };
+
+    const checklist = loadArtifact('checklist.json');
+    if (!checklist) {
+      throw new Error(`checklist.json not found for feature: ${featureId}`);
+    }
+    const testPlan = loadArtifact('test-plan.json');
+    const testCoverage = loadArtifact('test-coverage.json');
+    const plan = loadArtifact('plan.json');
+
+    // An explicit project setting beats the planner's detection; the built-in default does not
+    const { config, sources } = this.projectConfig.get();
+    const configuredDirectory = config.tests?.e2e?.test_directory;
+    const testDirectory =
+      (args.test_directory as string) ||
+      (sources['tests.e2e.test_directory'] === 'file' ? configuredDirectory : undefined) ||
+      plan?.test_frameworks?.e2e?.test_directory ||
+      configuredDirectory ||
+      'tests/e2e';
+    // Whichever source it came from, the directory is scanned only inside the project
+    const testPath = resolveInSandbox(testDirectory, this.projectRoot, ['.']);
+    const { taggedFiles, filesScanned } = await scanTaggedFiles(
+      this.projectRoot,
+      relative(this.projectRoot, testPath) || '.',
+      featureId
+    );
+
+    const { coverage_check, items } = computeCoverage({
+      featureId,
+      checklist,
+      testPlan,
+      testCoverage,
+      taggedFiles,
+      testFilesScanned: filesScanned,
+    });
+
+    const result = {
+      feature_id: featureId,
+      checked_at: new Date().toISOString(),
+      test_directory: testDirectory,
+      test_files_scanned: filesScanned,
+      coverage_check,
+      items,
+    };
+
+    const resultPath = this.writeArtifact(
+      featureId,
+      'coverage-check.json',
+      JSON.stringify(result, null, 2),
+      'validate_coverage',
+      args
+    ).path;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ ...result, path: resultPath }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async buildTraceabilityMatrix(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+
+    if (!featureId) {
+      throw new Error('feature_id is required');
+    }
+
+    const workspacePath = this.workspacePath(featureId);
+
+    if (!existsSync(workspacePath)) {
+      throw new Error(`Workspace not found: ${featureId}`);
+    }
+
+    const loadArtifact = (name: string) => {
+      const path = join(workspacePath, name);
+      if (existsSync(path)) {
+        return JSON.parse(readFileSync(path, 'utf-8'));
+      }
+      return null;
+    };
+
+    const checklist = loadArtifact('checklist.json');
+    if (!checklist) {
+      throw new Error(`checklist.json not found for feature: ${featureId}`);
+    }
+    const snapshot = loadArtifact('requirements-snapshot.json');
+    const requirements = snapshot?.requirements ?? null;
+
+    const matrix = buildTraceability({
+      featureId,
+      checklist,
+      requirements,
+      plan: loadArtifact('plan.json'),
+      testPlan: loadArtifact('test-plan.json'),
+      runs: loadRuns(workspacePath),
+    });
+
+    const exports = {
+      'traceability.json': JSON.stringify(matrix, null, 2),
+      'traceability.md': traceabilityMarkdown(matrix, requirements ?? []),
+      'traceability.csv': traceabilityCsv(matrix, requirements ?? []),
+    };
+    const artifacts: Record<string, { path: string; version: number }> = {};
+    for (const [name, content] of Object.entries(exports)) {
+      artifacts[name] = this.writeArtifact(
+        featureId,
+        name,
+        content,
+        'build_traceability_matrix',
+        args
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ ...matrix, artifacts }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Configuration
+  private async getConfig(args: Record<string, unknown>) {
+    const loaded = args.config_path
+      ? loadConfig(resolveInSandbox(args.config_path as string, this.projectRoot, ['.']))
+      : this.projectConfig.get();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(loaded, null, 2),
+        },
+      ],
+    };
+  }
+
   private async generateFeatureId(args: Record<string, unknown>) {
     const shortName = args.short_name as string;
 
@@ -1076,9 +2266,22 @@ class FeatureOrchestratorServer {
   }
 
   // Documentation Tools
+
+  private configuredDocPaths(): string[] {
+    return (this.projectConfig.config.docs?.paths || []).map((p) => p.replace(/^\/+/, ''));
+  }
+
+  /**
+   * Resolves a doc path argument, confined to the project root and the
+   * configured doc paths (which may point outside it, e.g. `../shared-docs`).
+   */
+  private docPath(path: string): string {
+    return resolveInSandbox(path, this.projectRoot, ['.', ...this.configuredDocPaths()]);
+  }
+
   private async searchDocs(args: Record<string, unknown>) {
     const query = args.query as string;
-    const paths = (args.paths as string[]) || ['docs', 'specs', 'README.md'];
+    const paths = (args.paths as string[]) || this.configuredDocPaths();
     const maxResults = (args.max_results as number) || 20;
 
     if (!query) {
@@ -1091,7 +2294,7 @@ class FeatureOrchestratorServer {
     }> = [];
 
     for (const searchPath of paths) {
-      const fullPath = join(this.projectRoot, searchPath);
+      const fullPath = this.docPath(searchPath);
 
       if (!existsSync(fullPath)) continue;
 
@@ -1108,7 +2311,8 @@ class FeatureOrchestratorServer {
 
       for (const file of filesToSearch) {
         try {
-          const content = readFileSync(file, 'utf-8');
+          // Symlinks leading out of the sandbox are skipped like unreadable files
+          const content = readFileSync(this.docPath(file), 'utf-8');
           const lines = content.split('\n');
           const matches: Array<{ line: number; text: string }> = [];
 
@@ -1156,7 +2360,7 @@ class FeatureOrchestratorServer {
       throw new Error('path is required');
     }
 
-    const fullPath = docPath.startsWith('/') ? docPath : join(this.projectRoot, docPath);
+    const fullPath = this.docPath(docPath);
 
     if (!existsSync(fullPath)) {
       throw new Error(`Document not found: ${docPath}`);
@@ -1211,6 +2415,63 @@ class FeatureOrchestratorServer {
     };
   }
 
+  /**
+   * Copies a snapshot taken by the docs-reader's snapshot_requirements from
+   * `.claude/requirements-snapshots/` into the workspace.
+   */
+  private async recordRequirementsSnapshot(args: Record<string, unknown>) {
+    const featureId = args.feature_id as string;
+    const snapshot = args.snapshot as string;
+
+    if (!featureId || !snapshot) {
+      throw new Error('feature_id and snapshot are required');
+    }
+    if (!existsSync(this.workspacePath(featureId))) {
+      throw new Error(`Workspace not found: ${featureId}`);
+    }
+
+    const snapshotsDir = join(this.projectRoot, '.claude', 'requirements-snapshots');
+    const snapshotPath = resolveInSandbox(`${snapshot}.json`, snapshotsDir, [snapshotsDir]);
+    if (!existsSync(snapshotPath)) {
+      throw new Error(`Requirements snapshot not found: ${snapshot}`);
+    }
+
+    const name = 'requirements-snapshot.json';
+    const content = readFileSync(snapshotPath, 'utf-8');
+    const errors = validateArtifactContent(name, content);
+    if (errors.length > 0) {
+      throw new ArtifactValidationError(name, errors);
+    }
+
+    this.assertArtifactRevision(featureId, name, args);
+    const { path, version } = this.writeArtifact(
+      featureId,
+      name,
+      content,
+      'record_requirements_snapshot',
+      args
+    );
+    const data = JSON.parse(content);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            feature_id: featureId,
+            artifact: name,
+            path,
+            snapshot: data.name,
+            created_at: data.createdAt,
+            total_requirements: data.requirements.length,
+            version,
+          }),
+        },
+      ],
+    };
+  }
+
   // Report Generation
   private async generateReport(args: Record<string, unknown>) {
     const featureId = args.feature_id as string;
@@ -1219,7 +2480,7 @@ class FeatureOrchestratorServer {
       throw new Error('feature_id is required');
     }
 
-    const workspacePath = join(this.workspacesDir, featureId);
+    const workspacePath = this.workspacePath(featureId);
 
     if (!existsSync(workspacePath)) {
       throw new Error(`Workspace not found: ${featureId}`);
@@ -1254,7 +2515,13 @@ class FeatureOrchestratorServer {
 - **Status**: ${state.status}
 - **Current Phase**: ${state.current_phase}
 - **Implementation Scope**: ${state.scope.implementation_scope}
-- **Iterations**: ${state.current_iteration}/${state.max_iterations}
+- **Iterations**: ${state.current_iteration}/${state.max_iterations}${
+      state.phase_iterations && Object.keys(state.phase_iterations).length > 0
+        ? ` (${Object.entries(state.phase_iterations)
+            .map(([phase, count]) => `${phase}: ${count}`)
+            .join(', ')})`
+        : ''
+    }${state.status_reason ? `\n- **Status Reason**: ${state.status_reason}` : ''}
 
 ## Phases Completed
 
@@ -1266,7 +2533,7 @@ ${spec ? `- **Title**: ${spec.title}\n- **User Stories**: ${spec.user_stories?.l
 
 ## Acceptance Criteria
 
-${checklist ? `- **Total Criteria**: ${checklist.checklist?.length || 0}` : 'Not yet created'}
+${checklist ? `- **Total Criteria**: ${checklist.items?.length || 0}` : 'Not yet created'}
 
 ## Implementation Plan
 
@@ -1274,7 +2541,7 @@ ${plan ? `- **Scope**: ${plan.implementation_scope}\n- **Backend Tasks**: ${plan
 
 ## Test Coverage
 
-${testCoverage ? `- **Tests Written**: ${testCoverage.tests_written || 0}\n- **Coverage**: ${testCoverage.coverage_summary?.coverage_percentage || 0}%` : 'Not yet determined'}
+${testCoverage ? `- **Tests Written**: ${testCoverage.test_implementation_summary?.tests_written || 0}\n- **Coverage**: ${testCoverage.coverage_summary?.coverage_percentage || 0}%` : 'Not yet determined'}
 
 ## E2E Results
 
@@ -1289,8 +2556,13 @@ Generated: ${new Date().toISOString()}
 `;
 
     // Save report
-    const reportPath = join(workspacePath, 'orchestrator-report.md');
-    writeFileSync(reportPath, report);
+    const reportPath = this.writeArtifact(
+      featureId,
+      'orchestrator-report.md',
+      report,
+      'generate_report',
+      args
+    ).path;
 
     return {
       content: [
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { IterationBudgetError, checkIterationBudget, iterationLimit } from './iterations.js';
+
+describe('checkIterationBudget', () => {
+  it('allows an iteration within both budgets', () => {
+    const counters = {
+      current_iteration: 2,
+      max_iterations: 5,
+      phase_iterations: { implementation: 1 },
+      max_iterations_per_phase: 2,
+    };
+    expect(checkIterationBudget(counters, 'implementation')).toBeNull();
+  });
+
+  it('stops when the feature budget is used up, whatever the phase', () => {
+    const counters = { current_iteration: 5, max_iterations: 5, phase_iterations: {} };
+
+    expect(checkIterationBudget(counters, 'testing')).toEqual({
+      scope: 'feature',
+      phase: 'testing',
+      used: 5,
+      limit: 5,
+      reason: 'Iteration budget exhausted: 5/5 iterations used',
+    });
+  });
+
+  it('stops a phase that used up its own budget, leaving other phases free', () => {
+    const counters = {
+      current_iteration: 3,
+      max_iterations: 10,
+      phase_iterations: { implementation: 3 },
+      max_iterations_per_phase: 3,
+    };
+
+    expect(checkIterationBudget(counters, 'implementation')).toEqual({
+      scope: 'phase',
+      phase: 'implementation',
+      used: 3,
+      limit: 3,
+      reason: 'Iteration budget for phase "implementation" exhausted: 3/3 iterations used',
+    });
+    expect(checkIterationBudget(counters, 'testing')).toBeNull();
+  });
+
+  it('applies only the feature budget to workspaces without per-phase counters', () => {
+    expect(checkIterationBudget({ current_iteration: 9, max_iterations: 10 }, 'testing')).toBeNull();
+  });
+});
+
+describe('iterationLimit', () => {
+  it('accepts positive integers', () => {
+    expect(iterationLimit(1, 5)).toBe(1);
+    expect(iterationLimit(12, 5)).toBe(12);
+  });
+
+  it.each([0, -1, 2.5, '3', null, undefined, NaN])('falls back for %s', (value) => {
+    expect(iterationLimit(value, 5)).toBe(5);
+  });
+});
+
+describe('IterationBudgetError', () => {
+  it('carries the exhausted budget and the counters', () => {
+    const exhaustion = checkIterationBudget(
+      { current_iteration: 5, max_iterations: 5, phase_iterations: { testing: 2 } },
+      'testing'
+    )!;
+    const error = new IterationBudgetError(exhaustion, {
+      status: 'in_progress',
+      revision: 7,
+      current_iteration: 5,
+      max_iterations: 5,
+      phase_iterations: { testing: 2 },
+    });
+
+    expect(error.message).toBe(exhaustion.reason);
+    expect(error.code).toBe('ITERATION_BUDGET_EXCEEDED');
+    expect(error.details).toEqual({
+      scope: 'feature',
+      phase: 'testing',
+      used: 5,
+      limit: 5,
+      status: 'in_progress',
+      revision: 7,
+      current_iteration: 5,
+      max_iterations: 5,
+      phase_iterations: { testing: 2 },
+    });
+  });
+});
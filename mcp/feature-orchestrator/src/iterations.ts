@@ -0,0 +1,93 @@
+/**
+ * Iteration budget for the feedback loop.
+ *
+ * Every `increment_iteration` counts against the feature's overall budget
+ * (`max_iterations`) and against the budget of the phase it is spent in
+ * (`max_iterations_per_phase`), so a remediation loop that keeps bouncing
+ * back to one phase is stopped before it uses up the whole budget.
+ */
+
+import { OrchestratorError } from '@feature-orchestrator/mcp-shared';
+
+export interface IterationCounters {
+  current_iteration: number;
+  max_iterations: number;
+  /** Iterations spent per phase; missing in workspaces created before per-phase budgets */
+  phase_iterations?: Record<string, number>;
+  max_iterations_per_phase?: number;
+}
+
+export interface BudgetExhaustion {
+  scope: 'feature' | 'phase';
+  phase: string;
+  used: number;
+  limit: number;
+  reason: string;
+}
+
+/**
+ * Returns why one more iteration in `phase` would exceed the budget, or
+ * null if it fits. Without a per-phase limit only the overall one applies.
+ */
+export function checkIterationBudget(
+  counters: IterationCounters,
+  phase: string
+): BudgetExhaustion | null {
+  if (counters.current_iteration >= counters.max_iterations) {
+    return {
+      scope: 'feature',
+      phase,
+      used: counters.current_iteration,
+      limit: counters.max_iterations,
+      reason: `Iteration budget exhausted: ${counters.current_iteration}/${counters.max_iterations} iterations used`,
+    };
+  }
+
+  const phaseUsed = counters.phase_iterations?.[phase] ?? 0;
+  const phaseLimit = counters.max_iterations_per_phase;
+  if (phaseLimit !== undefined && phaseUsed >= phaseLimit) {
+    return {
+      scope: 'phase',
+      phase,
+      used: phaseUsed,
+      limit: phaseLimit,
+      reason: `Iteration budget for phase "${phase}" exhausted: ${phaseUsed}/${phaseLimit} iterations used`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Returns `value` if it is a positive integer, otherwise `fallback`. Config
+ * values that failed validation are still merged, so they are checked here.
+ */
+export function iterationLimit(value: unknown, fallback: number): number {
+  return Number.isInteger(value) && (value as number) >= 1 ? (value as number) : fallback;
+}
+
+/**
+ * Error raised when increment_iteration would exceed the feature's or the
+ * current phase's iteration budget.
+ */
+export class IterationBudgetError extends OrchestratorError {
+  constructor(
+    exhaustion: BudgetExhaustion,
+    details: {
+      status: string;
+      revision: number;
+      current_iteration: number;
+      max_iterations: number;
+      phase_iterations: Record<string, number>;
+      max_iterations_per_phase?: number;
+    }
+  ) {
+    super(exhaustion.reason, 'ITERATION_BUDGET_EXCEEDED', {
+      scope: exhaustion.scope,
+      phase: exhaustion.phase,
+      used: exhaustion.used,
+      limit: exhaustion.limit,
+      ...details,
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PHASES,
+  PHASE_GRAPH,
+  PhaseTransitionError,
+  isLoopBack,
+  isPhase,
+  missingPrerequisites,
+  nextPhases,
+  phasesFrom,
+} from './phases.js';
+
+describe('PHASE_GRAPH', () => {
+  it('declares every phase under its own name', () => {
+    for (const phase of PHASES) {
+      expect(PHASE_GRAPH[phase].name).toBe(phase);
+    }
+  });
+
+  it('only links to and requires known phases', () => {
+    for (const phase of PHASES) {
+      for (const other of [...PHASE_GRAPH[phase].next, ...PHASE_GRAPH[phase].requires]) {
+        expect(isPhase(other)).toBe(true);
+      }
+    }
+  });
+
+  it('reaches the report phase from initialization along the happy path', () => {
+    let phase: (typeof PHASES)[number] = 'initialization';
+    const visited = [phase];
+    while (phase !== 'report') {
+      phase = PHASE_GRAPH[phase].next[0];
+      visited.push(phase);
+    }
+    expect(visited).toEqual([...PHASES]);
+  });
+
+  it('ends the workflow at report', () => {
+    expect(PHASE_GRAPH.report.next).toEqual([]);
+  });
+
+  it('only requires the checklist to complete the docs audit', () => {
+    expect(PHASE_GRAPH.docs_audit.artifacts).toEqual(['checklist.json']);
+  });
+});
+
+describe('nextPhases', () => {
+  it('does not allow skipping ahead from initialization', () => {
+    expect(nextPhases('initialization')).toEqual(['spec']);
+  });
+
+  it('allows the E2E feedback loop back to implementation and test writing', () => {
+    expect(nextPhases('e2e_verification')).toEqual(['report', 'implementation', 'test_writing']);
+  });
+
+  it('allows any phase from a legacy phase name', () => {
+    expect(nextPhases('legacy_phase')).toEqual([...PHASES]);
+  });
+});
+
+describe('missingPrerequisites', () => {
+  it('lists required phases that are not completed', () => {
+    expect(missingPrerequisites('planning', ['spec'])).toEqual(['docs_audit']);
+  });
+
+  it('is empty once every prerequisite is completed', () => {
+    expect(missingPrerequisites('planning', ['spec', 'docs_audit'])).toEqual([]);
+  });
+});
+
+describe('isLoopBack', () => {
+  it('is a move to the current or an earlier phase', () => {
+    expect(isLoopBack('coverage_validation', 'implementation')).toBe(true);
+    expect(isLoopBack('docs_audit', 'spec')).toBe(true);
+    expect(isLoopBack('coverage_validation', 'e2e_verification')).toBe(false);
+  });
+
+  it('is never a move from a legacy phase name', () => {
+    expect(isLoopBack('legacy_phase', 'spec')).toBe(false);
+  });
+});
+
+describe('phasesFrom', () => {
+  it('lists the phase and everything after it that has to be redone', () => {
+    expect(phasesFrom('coverage_validation')).toEqual(['coverage_validation', 'e2e_verification', 'report']);
+  });
+});
+
+describe('PhaseTransitionError', () => {
+  it('carries the transition code and details', () => {
+    const details = {
+      current_phase: 'initialization',
+      requested: 'report',
+      allowed_transitions: nextPhases('initialization'),
+      phases_completed: [],
+    };
+    const error = new PhaseTransitionError('Illegal transition', details);
+
+    expect(error.name).toBe('PhaseTransitionError');
+    expect(error.code).toBe('INVALID_PHASE_TRANSITION');
+    expect(error.details).toEqual(details);
+  });
+});
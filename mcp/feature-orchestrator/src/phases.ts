@@ -0,0 +1,165 @@
+/**
+ * Phase graph for the feature orchestration workflow.
+ *
+ * Declares every phase the orchestrator agent moves through, which phases may
+ * follow each one, and which phases must already be completed before a phase
+ * can be entered or marked done. `updateState` consults this graph so agents
+ * cannot skip ahead (e.g. from initialization straight to completed).
+ */
+
+import { OrchestratorError } from '@feature-orchestrator/mcp-shared';
+
+export const PHASES = [
+  'initialization',
+  'spec',
+  'docs_audit',
+  'planning',
+  'test_ideation',
+  'implementation',
+  'test_writing',
+  'coverage_validation',
+  'e2e_verification',
+  'report',
+] as const;
+
+export type Phase = (typeof PHASES)[number];
+
+export interface PhaseDefinition {
+  name: Phase;
+  description: string;
+  /** Phases that must be in `phases_completed` before this phase can start */
+  requires: Phase[];
+  /** Phases that may legally follow this one */
+  next: Phase[];
+  /** Workspace artifacts that must exist and validate before the phase can be completed */
+  artifacts: string[];
+}
+
+export const PHASE_GRAPH: Record<Phase, PhaseDefinition> = {
+  initialization: {
+    name: 'initialization',
+    description: 'Workspace created, gathering feature details',
+    requires: [],
+    next: ['spec'],
+    artifacts: [],
+  },
+  spec: {
+    name: 'spec',
+    description: 'Clarification and structured specification',
+    requires: [],
+    next: ['docs_audit'],
+    artifacts: ['spec.json'],
+  },
+  docs_audit: {
+    name: 'docs_audit',
+    description: 'Docs audit and acceptance checklist',
+    requires: ['spec'],
+    next: ['planning', 'spec'],
+    artifacts: ['checklist.json'],
+  },
+  planning: {
+    name: 'planning',
+    description: 'Tech-stack-aware implementation plan',
+    requires: ['spec', 'docs_audit'],
+    next: ['test_ideation'],
+    artifacts: ['plan.json'],
+  },
+  test_ideation: {
+    name: 'test_ideation',
+    description: 'Test strategy designed before implementation',
+    requires: ['planning'],
+    next: ['implementation'],
+    artifacts: ['test-plan.json'],
+  },
+  implementation: {
+    name: 'implementation',
+    description: 'Backend, frontend and infra implementation',
+    requires: ['planning', 'test_ideation'],
+    next: ['test_writing'],
+    artifacts: [],
+  },
+  test_writing: {
+    name: 'test_writing',
+    description: 'Test implementation from the test plan',
+    requires: ['test_ideation', 'implementation'],
+    next: ['coverage_validation', 'implementation'],
+    artifacts: ['test-coverage.json'],
+  },
+  coverage_validation: {
+    name: 'coverage_validation',
+    description: 'Mandatory coverage gate before E2E verification',
+    requires: ['test_writing'],
+    next: ['e2e_verification', 'implementation', 'test_writing'],
+    artifacts: ['coverage-check.json'],
+  },
+  e2e_verification: {
+    name: 'e2e_verification',
+    description: 'E2E run correlated with acceptance criteria',
+    requires: ['coverage_validation'],
+    // Feedback loop: failures route back to implementation or test writing
+    next: ['report', 'implementation', 'test_writing'],
+    artifacts: ['playwright-results.json'],
+  },
+  report: {
+    name: 'report',
+    description: 'Final report and PR artifacts',
+    requires: ['e2e_verification'],
+    next: [],
+    artifacts: [],
+  },
+};
+
+export function isPhase(value: string): value is Phase {
+  return (PHASES as readonly string[]).includes(value);
+}
+
+/**
+ * Returns the required predecessor phases of `phase` that are not yet in
+ * `phasesCompleted`.
+ */
+export function missingPrerequisites(phase: Phase, phasesCompleted: string[]): Phase[] {
+  return PHASE_GRAPH[phase].requires.filter((p) => !phasesCompleted.includes(p));
+}
+
+/**
+ * Whether moving from `from` to `to` goes back to a phase at or before the
+ * current one, e.g. from coverage_validation to implementation.
+ */
+export function isLoopBack(from: string, to: Phase): boolean {
+  return isPhase(from) && PHASES.indexOf(to) <= PHASES.indexOf(from);
+}
+
+/**
+ * Returns `phase` and every phase after it. Entering `phase` clears them
+ * from `phases_completed`, since they have to be done again.
+ */
+export function phasesFrom(phase: Phase): Phase[] {
+  return PHASES.slice(PHASES.indexOf(phase));
+}
+
+/**
+ * Returns the phases reachable from `currentPhase`. Workspaces created before
+ * the phase graph existed may carry an unknown phase name; those may move to
+ * any phase, leaving the prerequisite check to decide.
+ */
+export function nextPhases(currentPhase: string): Phase[] {
+  return isPhase(currentPhase) ? PHASE_GRAPH[currentPhase].next : [...PHASES];
+}
+
+/**
+ * Error raised when an update_state call would break the phase graph.
+ */
+export class PhaseTransitionError extends OrchestratorError {
+  constructor(
+    message: string,
+    details: {
+      current_phase: string;
+      requested: string;
+      allowed_transitions: Phase[];
+      missing_prerequisites?: Phase[];
+      phases_completed: string[];
+    }
+  ) {
+    super(message, 'INVALID_PHASE_TRANSITION', details);
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { validateArtifactContent } from './artifacts.js';
+import { hasSchema, validateAgainstSchema } from './schemas.js';
+
+const checklistItem = {
+  id: 'AC1',
+  text: 'User can reset 2FA',
+  source: 'spec',
+  priority: 'P0',
+  verification_hint: 'E2E, unit',
+  tags: ['@AC1'],
+};
+
+describe('validateAgainstSchema', () => {
+  it('accepts a valid checklist', () => {
+    expect(validateAgainstSchema('checklist.json', { items: [checklistItem] })).toEqual([]);
+  });
+
+  it('accepts extra fields agents add', () => {
+    const item = { ...checklistItem, notes: 'free text' };
+    expect(validateAgainstSchema('checklist.json', { items: [item], summary: {} })).toEqual([]);
+  });
+
+  it('reports every problem with its JSON pointer', () => {
+    const item = { ...checklistItem, id: 'A1', priority: 'P9', text: undefined };
+    const errors = validateAgainstSchema('checklist.json', { items: [item] });
+
+    expect(errors).toContain("/items/0 must have required property 'text'");
+    expect(errors).toContain('/items/0/id must match pattern "^AC\\d+$"');
+    expect(errors).toContain('/items/0/priority must be equal to one of the allowed values (P0, P1, P2)');
+  });
+
+  it('rejects an empty checklist', () => {
+    expect(validateAgainstSchema('checklist.json', { items: [] })).toEqual([
+      '/items must NOT have fewer than 1 items',
+    ]);
+  });
+
+  it('checks requirement IDs linked from checklist items', () => {
+    const item = { ...checklistItem, requirement_ids: ['REQ-1a2b3c4d', 'AC2'] };
+    expect(validateAgainstSchema('checklist.json', { items: [item] })).toEqual([
+      '/items/0/requirement_ids/1 must match pattern "^REQ-"',
+    ]);
+  });
+
+  it('checks the fields generate_report reads from playwright results', () => {
+    const errors = validateAgainstSchema('playwright-results.json', {
+      overall_status: 'green',
+      total_tests: 2,
+      passed: 2,
+      failed: -1,
+      checklist_correlation: [{ checklist_id: 'AC1', status: 'untested' }],
+    });
+
+    expect(errors).toEqual([
+      '/overall_status must be equal to one of the allowed values (passed, failed, partial)',
+      '/failed must be >= 0',
+    ]);
+  });
+
+  it('accepts anything for artifacts without a schema', () => {
+    expect(hasSchema('notes.json')).toBe(false);
+    expect(validateAgainstSchema('notes.json', 42)).toEqual([]);
+  });
+});
+
+describe('validateArtifactContent', () => {
+  it('reports unparseable JSON', () => {
+    const [error] = validateArtifactContent('spec.json', '{"title": ');
+    expect(error).toMatch(/^Invalid JSON: /);
+  });
+
+  it('validates parsed JSON against the schema', () => {
+    expect(validateArtifactContent('spec.json', '{}')).toEqual([
+      "/ must have required property 'title'",
+    ]);
+    expect(validateArtifactContent('spec.json', '{"title": "2FA reset"}')).toEqual([]);
+  });
+
+  it('only requires non-JSON artifacts to be non-empty', () => {
+    expect(validateArtifactContent('notes.md', '  \n')).toEqual(['Artifact is empty']);
+    expect(validateArtifactContent('notes.md', '# Notes')).toEqual([]);
+  });
+});
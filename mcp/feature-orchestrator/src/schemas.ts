@@ -0,0 +1,321 @@
+/**
+ * JSON Schema registry for workspace artifacts.
+ *
+ * Shapes follow the artifact formats documented in the plugin agents
+ * (spec-writer, docs-auditor, planner, test-writer, playwright-tester).
+ * Schemas only pin down the fields other tools read; agents may add extra
+ * fields freely.
+ */
+
+import Ajv, { ErrorObject, SchemaObject, ValidateFunction } from 'ajv';
+
+const priority = { type: 'string', enum: ['P0', 'P1', 'P2'] };
+const acId = { type: 'string', pattern: '^AC\\d+$' };
+const stringArray = { type: 'array', items: { type: 'string' } };
+const percentage = { type: 'number', minimum: 0, maximum: 100 };
+const count = { type: 'integer', minimum: 0 };
+
+const planArea = {
+  type: 'object',
+  required: ['tasks'],
+  properties: {
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['task_id', 'description', 'checklist_ids'],
+        properties: {
+          task_id: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          checklist_ids: { type: 'array', items: acId },
+          files_to_modify: stringArray,
+          files_to_create: stringArray,
+          dependencies: stringArray,
+          skip: { type: 'boolean' },
+        },
+      },
+    },
+  },
+};
+
+export const ARTIFACT_SCHEMAS: Record<string, SchemaObject> = {
+  'spec.json': {
+    type: 'object',
+    required: ['title'],
+    properties: {
+      feature_id: { type: 'string' },
+      title: { type: 'string', minLength: 1 },
+      description: { type: 'string' },
+      priority,
+      user_stories: {
+        type: 'array',
+        items: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+      },
+      acceptance_criteria: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'description'],
+          properties: {
+            id: acId,
+            description: { type: 'string' },
+            priority,
+            verification_hint: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+
+  'checklist.json': {
+    type: 'object',
+    required: ['items'],
+    properties: {
+      feature_id: { type: 'string' },
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['id', 'text', 'source', 'priority', 'verification_hint', 'tags'],
+          properties: {
+            id: acId,
+            text: { type: 'string', minLength: 1 },
+            source: { type: 'string', pattern: '^(spec|doc(:.+)?)$' },
+            priority,
+            verification_hint: {
+              type: 'string',
+              pattern: '^(E2E|unit|integration)(\\s*[,+]\\s*(E2E|unit|integration))*$',
+            },
+            tags: stringArray,
+            implementation_area: { type: 'string', enum: ['frontend', 'backend', 'infra'] },
+            requirement_ids: { type: 'array', items: { type: 'string', pattern: '^REQ-' } },
+          },
+        },
+      },
+    },
+  },
+
+  // Written by record_requirements_snapshot from a docs-reader snapshot
+  'requirements-snapshot.json': {
+    type: 'object',
+    required: ['format', 'name', 'createdAt', 'docs', 'requirements'],
+    properties: {
+      format: { const: 1 },
+      name: { type: 'string', minLength: 1 },
+      createdAt: { type: 'string' },
+      gitRevision: { type: ['string', 'null'] },
+      paths: stringArray,
+      docs: { type: 'object', additionalProperties: { type: 'string' } },
+      requirements: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'text', 'source', 'type', 'hash'],
+          properties: {
+            id: { type: 'string', pattern: '^REQ-' },
+            text: { type: 'string' },
+            source: { type: 'string' },
+            type: { type: 'string', enum: ['must', 'should', 'could', 'guideline'] },
+            negated: { type: 'boolean' },
+            hash: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+
+  'plan.json': {
+    type: 'object',
+    required: ['areas'],
+    properties: {
+      feature_id: { type: 'string' },
+      implementation_scope: { type: 'string', enum: ['full', 'frontend-only'] },
+      areas: {
+        type: 'object',
+        properties: {
+          backend: planArea,
+          frontend: planArea,
+          infra: planArea,
+          tests: planArea,
+        },
+      },
+    },
+  },
+
+  'test-plan.json': {
+    type: 'object',
+    required: ['test_scenarios'],
+    properties: {
+      feature_id: { type: 'string' },
+      test_scenarios: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['checklist_id', 'test_cases'],
+          properties: {
+            checklist_id: acId,
+            verification_type: { type: 'string' },
+            priority,
+            test_cases: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['test_id', 'name', 'type'],
+                properties: {
+                  test_id: { type: 'string', minLength: 1 },
+                  name: { type: 'string', minLength: 1 },
+                  type: { type: 'string', enum: ['E2E', 'e2e', 'unit', 'integration'] },
+                  tags: stringArray,
+                },
+              },
+            },
+          },
+        },
+      },
+      coverage_matrix: {
+        type: 'object',
+        properties: {
+          total_acs: count,
+          acs_with_tests: count,
+          coverage_percentage: percentage,
+        },
+      },
+    },
+  },
+
+  'test-coverage.json': {
+    type: 'object',
+    required: ['checklist_coverage', 'coverage_summary'],
+    properties: {
+      feature_id: { type: 'string' },
+      test_implementation_summary: {
+        type: 'object',
+        properties: {
+          tests_planned: count,
+          tests_written: count,
+          tests_skipped: count,
+        },
+      },
+      checklist_coverage: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['checklist_id', 'coverage_status'],
+          properties: {
+            checklist_id: acId,
+            coverage_status: {
+              type: 'string',
+              enum: ['covered', 'partial', 'not_covered', 'skipped', 'untestable'],
+            },
+            tests: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                  test_id: { type: 'string' },
+                  name: { type: 'string' },
+                  type: { type: 'string', enum: ['E2E', 'e2e', 'unit', 'integration'] },
+                  file: { type: 'string' },
+                  tags: stringArray,
+                },
+              },
+            },
+          },
+        },
+      },
+      coverage_summary: {
+        type: 'object',
+        required: ['total_checklist_items', 'items_with_tests', 'coverage_percentage'],
+        properties: {
+          total_checklist_items: count,
+          items_with_tests: count,
+          items_without_tests: { anyOf: [count, stringArray] },
+          coverage_percentage: percentage,
+        },
+      },
+      blockers: { type: 'array' },
+    },
+  },
+
+  'coverage-check.json': {
+    type: 'object',
+    required: ['coverage_check'],
+    properties: {
+      coverage_check: {
+        type: 'object',
+        required: ['status', 'coverage_percentage', 'missing_coverage', 'blockers', 'action'],
+        properties: {
+          status: { type: 'string', enum: ['passed', 'failed'] },
+          coverage_percentage: percentage,
+          missing_coverage: {
+            type: 'array',
+            items: { type: 'object', required: ['checklist_id'], properties: { checklist_id: acId } },
+          },
+          blockers: stringArray,
+          action: { type: 'string', enum: ['proceed', 'remediate'] },
+        },
+      },
+    },
+  },
+
+  'playwright-results.json': {
+    type: 'object',
+    required: ['overall_status', 'total_tests', 'passed', 'failed', 'checklist_correlation'],
+    properties: {
+      feature_id: { type: 'string' },
+      overall_status: { type: 'string', enum: ['passed', 'failed', 'partial'] },
+      total_tests: count,
+      passed: count,
+      failed: count,
+      skipped: count,
+      checklist_correlation: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['checklist_id', 'status'],
+          properties: {
+            checklist_id: acId,
+            status: { type: 'string', enum: ['passed', 'failed', 'partial', 'untested'] },
+          },
+        },
+      },
+    },
+  },
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new Map<string, ValidateFunction>();
+
+export function hasSchema(name: string): boolean {
+  return name in ARTIFACT_SCHEMAS;
+}
+
+function formatError(error: ErrorObject): string {
+  const path = error.instancePath || '/';
+  if (error.keyword === 'enum') {
+    const allowed = (error.params as { allowedValues: unknown[] }).allowedValues;
+    return `${path} ${error.message} (${allowed.join(', ')})`;
+  }
+  return `${path} ${error.message}`;
+}
+
+/**
+ * Validates parsed artifact data against its registered schema. Returns
+ * JSON-pointer-prefixed error messages, or an empty list when the data is
+ * valid or no schema is registered for `name`.
+ */
+export function validateAgainstSchema(name: string, data: unknown): string[] {
+  if (!hasSchema(name)) {
+    return [];
+  }
+
+  let validate = validators.get(name);
+  if (!validate) {
+    validate = ajv.compile(ARTIFACT_SCHEMAS[name]);
+    validators.set(name, validate);
+  }
+
+  return validate(data) ? [] : (validate.errors || []).map(formatError);
+}
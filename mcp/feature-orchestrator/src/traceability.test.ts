@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { StoredRun, TraceabilityInputs, buildTraceability } from './traceability.js';
+
+function test(testId: string, status: StoredRun['results'][number]['status'], tags: string[]) {
+  return { testId, testName: `test ${testId}`, file: 'reset.spec.ts', status, tags };
+}
+
+const inputs = (overrides: Partial<TraceabilityInputs> = {}): TraceabilityInputs => ({
+  featureId: 'feat-2fa',
+  checklist: {
+    items: [
+      {
+        id: 'AC1',
+        text: 'Send a code',
+        priority: 'P0',
+        doc_reference: { requirement: 'The system **MUST** send a code.' },
+      },
+      { id: 'AC2', text: 'Codes expire', requirement_ids: ['REQ-2'] },
+    ],
+  },
+  requirements: [
+    { id: 'REQ-1', text: 'The system MUST send a code', source: 'docs/2fa.md', type: 'MUST' },
+    { id: 'REQ-2', text: 'Codes SHOULD expire', source: 'docs/2fa.md', type: 'SHOULD' },
+    { id: 'REQ-3', text: 'Admins MUST be audited', source: 'docs/2fa.md', type: 'MUST' },
+  ],
+  plan: {
+    areas: {
+      backend: {
+        tasks: [
+          { task_id: 'T1', description: 'Send codes', checklist_ids: ['AC1'] },
+          { task_id: 'T2', description: 'Audit', checklist_ids: ['AC9'] },
+          { task_id: 'T3', description: 'Skipped', checklist_ids: ['AC2'], skip: true },
+        ],
+      },
+    },
+  },
+  testPlan: {
+    test_scenarios: [
+      { checklist_id: 'AC1', test_cases: [{ test_id: 'P1', name: 'sends' }] },
+      { checklist_id: 'AC7', test_cases: [{ test_id: 'P7', name: 'orphan' }] },
+    ],
+  },
+  runs: [
+    {
+      runId: 'run-2',
+      startedAt: '2026-10-02T12:00:00.000Z',
+      results: [test('t1', 'failed', ['@feat-2fa', '@AC1']), test('t3', 'passed', ['@feat-2fa'])],
+    },
+    {
+      runId: 'run-1',
+      startedAt: '2026-10-01T12:00:00.000Z',
+      results: [test('t1', 'passed', ['@feat-2fa', '@AC1']), test('t2', 'flaky', ['@feat-2fa', '@AC2'])],
+    },
+  ],
+  ...overrides,
+});
+
+describe('buildTraceability', () => {
+  it('links requirements, tasks, planned tests and the latest results per AC', () => {
+    const { rows } = buildTraceability(inputs());
+
+    expect(rows).toEqual([
+      {
+        checklist_id: 'AC1',
+        text: 'Send a code',
+        priority: 'P0',
+        requirement_ids: ['REQ-1'],
+        task_ids: ['T1'],
+        planned_tests: ['P1'],
+        executed_tests: [{ test_id: 't1', name: 'test t1', file: 'reset.spec.ts', status: 'failed' }],
+        latest_run_id: 'run-2',
+        latest_status: 'failed',
+      },
+      expect.objectContaining({
+        checklist_id: 'AC2',
+        requirement_ids: ['REQ-2'],
+        task_ids: [],
+        latest_run_id: 'run-1',
+        latest_status: 'flaky',
+      }),
+    ]);
+  });
+
+  it('flags gaps in both directions', () => {
+    const { gaps, summary } = buildTraceability(inputs());
+
+    expect(gaps).toEqual({
+      requirements_without_ac: [
+        { id: 'REQ-3', text: 'Admins MUST be audited', source: 'docs/2fa.md', type: 'MUST' },
+      ],
+      acs_without_task: ['AC2'],
+      tasks_without_test: [{ task_id: 'T2', area: 'backend', checklist_ids: ['AC9'] }],
+      tests_without_ac: [
+        { source: 'test-plan', test_id: 'P7', name: 'orphan', checklist_id: 'AC7' },
+        { source: 'run', test_id: 't3', name: 'test t3', checklist_id: undefined },
+      ],
+      acs_failing: [{ checklist_id: 'AC1', run_id: 'run-2', failed_tests: ['test t1'] }],
+    });
+    expect(summary).toMatchObject({ acceptance_criteria: 2, tasks: 2, planned_tests: 1, executed_tests: 2, runs: 2 });
+  });
+
+  it("ignores other features' tests in the runs", () => {
+    const { rows, gaps } = buildTraceability(
+      inputs({
+        runs: [
+          {
+            runId: 'run-3',
+            startedAt: '2026-10-03T12:00:00.000Z',
+            results: [test('login', 'failed', ['@feat-login', '@AC1']), test('untagged', 'passed', ['@AC2'])],
+          },
+          ...inputs().runs,
+        ],
+      })
+    );
+
+    expect(rows[0]).toMatchObject({ latest_run_id: 'run-2', latest_status: 'failed' });
+    expect(rows[1]).toMatchObject({ latest_run_id: 'run-1', latest_status: 'flaky' });
+    expect(gaps.tests_without_ac.filter((t) => t.source === 'run')).toEqual([]);
+  });
+
+  it('reports missing inputs and runs without tests as not run', () => {
+    const matrix = buildTraceability(inputs({ requirements: null, plan: null, testPlan: null, runs: [] }));
+
+    expect(matrix.missing_inputs).toEqual(['requirements-snapshot.json', 'plan.json', 'test-plan.json', 'runs']);
+    expect(matrix.rows.map((row) => row.latest_status)).toEqual(['not_run', 'not_run']);
+    expect(matrix.gaps.acs_without_task).toEqual([]);
+  });
+});
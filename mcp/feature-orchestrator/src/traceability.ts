@@ -0,0 +1,458 @@
+/**
+ * Traceability matrix from doc requirement to test result.
+ *
+ * Joins the requirements recorded in requirements-snapshot.json, the
+ * checklist ACs, the plan tasks (`checklist_ids`), the test-plan test cases
+ * and the test results of the stored runs, and flags the gaps in both
+ * directions. Requirements are linked to ACs by the ACs' `requirement_ids`,
+ * or by `doc_reference.requirement` quoting the requirement text. Test
+ * results are linked to ACs by their `@AC<n>` tags; like the coverage gate
+ * and the run correlation, only tests also tagged with the feature count.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { AC_TAG } from '@feature-orchestrator/mcp-shared';
+
+interface Requirement {
+  id: string;
+  text: string;
+  source: string;
+  type: string;
+  keyword?: string;
+}
+
+interface TraceChecklistItem {
+  id: string;
+  text: string;
+  priority?: string;
+  requirement_ids?: string[];
+  doc_reference?: { file?: string; requirement?: string };
+}
+
+interface PlanTask {
+  task_id: string;
+  description: string;
+  checklist_ids: string[];
+  skip?: boolean;
+}
+
+interface RunTest {
+  testId: string;
+  testName: string;
+  file: string;
+  status: 'passed' | 'failed' | 'skipped' | 'timedOut' | 'flaky';
+  tags: string[];
+}
+
+/** The fields of a stored playwright-orchestrator run the matrix reads */
+export interface StoredRun {
+  runId: string;
+  startedAt: string;
+  results: RunTest[];
+}
+
+export interface TraceabilityInputs {
+  featureId: string;
+  checklist: { items: TraceChecklistItem[] };
+  requirements: Requirement[] | null;
+  plan: { areas?: Record<string, { tasks?: PlanTask[] } | undefined> } | null;
+  testPlan: {
+    test_scenarios: Array<{
+      checklist_id: string;
+      test_cases: Array<{ test_id: string; name: string; type?: string }>;
+    }>;
+  } | null;
+  /** Newest first */
+  runs: StoredRun[];
+}
+
+export type AcRunStatus = 'passed' | 'failed' | 'flaky' | 'skipped' | 'not_run';
+
+export interface TraceabilityRow {
+  checklist_id: string;
+  text: string;
+  priority?: string;
+  requirement_ids: string[];
+  task_ids: string[];
+  planned_tests: string[];
+  /** Tests tagged with the AC in the latest run that ran any of them */
+  executed_tests: Array<{ test_id: string; name: string; file: string; status: string }>;
+  latest_run_id?: string;
+  /** `flaky` passed only after a retry; `not_run` means no stored run has a test for the AC */
+  latest_status: AcRunStatus;
+}
+
+export interface TraceabilityGaps {
+  requirements_without_ac: Array<{ id: string; text: string; source: string; type: string }>;
+  acs_without_task: string[];
+  tasks_without_test: Array<{ task_id: string; area: string; checklist_ids: string[] }>;
+  tests_without_ac: Array<{
+    source: 'test-plan' | 'run';
+    test_id: string;
+    name: string;
+    /** The unknown AC it names, if any */
+    checklist_id?: string;
+  }>;
+  acs_failing: Array<{ checklist_id: string; run_id: string; failed_tests: string[] }>;
+}
+
+export interface TraceabilityMatrix {
+  feature_id: string;
+  built_at: string;
+  /** Inputs that were not found and whose links are therefore missing */
+  missing_inputs: string[];
+  summary: {
+    requirements: number;
+    acceptance_criteria: number;
+    tasks: number;
+    planned_tests: number;
+    executed_tests: number;
+    runs: number;
+    gaps: Record<keyof TraceabilityGaps, number>;
+  };
+  rows: TraceabilityRow[];
+  gaps: TraceabilityGaps;
+}
+
+const FAILING = new Set(['failed', 'timedOut']);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.;:,!?]+$/, '')
+    .trim();
+}
+
+/**
+ * Loads the stored runs of a workspace (`runs/<runId>.json`), newest first.
+ */
+export function loadRuns(workspacePath: string): StoredRun[] {
+  const dir = join(workspacePath, 'runs');
+  if (!existsSync(dir)) return [];
+
+  const runs: StoredRun[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const run = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as StoredRun;
+      if (run.runId && Array.isArray(run.results)) runs.push(run);
+    } catch {
+      // Skip unreadable run files
+    }
+  }
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+function acTags(test: RunTest): string[] {
+  return test.tags.filter((tag) => AC_TAG.test(tag)).map((tag) => tag.slice(1));
+}
+
+function runStatus(tests: RunTest[]): AcRunStatus {
+  if (tests.some((t) => FAILING.has(t.status))) return 'failed';
+  if (tests.every((t) => t.status === 'skipped')) return 'skipped';
+  return tests.some((t) => t.status === 'flaky') ? 'flaky' : 'passed';
+}
+
+export function buildTraceability(inputs: TraceabilityInputs): TraceabilityMatrix {
+  const { featureId, checklist, requirements, plan, testPlan, runs } = inputs;
+  const acIds = new Set(checklist.items.map((item) => item.id));
+  // Other features' tests share the run (and the AC numbering) but not the feature tag
+  const featureTag = `@${featureId}`;
+  const featureTests = (run: StoredRun) => run.results.filter((test) => test.tags.includes(featureTag));
+
+  const missing: string[] = [];
+  if (!requirements) missing.push('requirements-snapshot.json');
+  if (!plan) missing.push('plan.json');
+  if (!testPlan) missing.push('test-plan.json');
+  if (runs.length === 0) missing.push('runs');
+
+  // Requirement -> AC, by ID or by the quoted requirement text
+  const requirementsByText = new Map<string, string[]>();
+  for (const requirement of requirements ?? []) {
+    const key = normalize(requirement.text);
+    requirementsByText.set(key, [...(requirementsByText.get(key) ?? []), requirement.id]);
+  }
+  const linkedRequirements = (item: TraceChecklistItem): string[] => {
+    const ids = new Set(item.requirement_ids ?? []);
+    const quoted = item.doc_reference?.requirement;
+    for (const id of quoted ? (requirementsByText.get(normalize(quoted)) ?? []) : []) {
+      ids.add(id);
+    }
+    return [...ids];
+  };
+
+  const tasks = Object.entries(plan?.areas ?? {}).flatMap(([area, section]) =>
+    (section?.tasks ?? []).map((task) => ({ ...task, area }))
+  );
+  const activeTasks = tasks.filter((task) => !task.skip);
+
+  const plannedByAc = new Map<string, string[]>();
+  for (const scenario of testPlan?.test_scenarios ?? []) {
+    const ids = scenario.test_cases.map((test) => test.test_id);
+    plannedByAc.set(scenario.checklist_id, [
+      ...(plannedByAc.get(scenario.checklist_id) ?? []),
+      ...ids,
+    ]);
+  }
+
+  const gaps: TraceabilityGaps = {
+    requirements_without_ac: [],
+    acs_without_task: [],
+    tasks_without_test: [],
+    tests_without_ac: [],
+    acs_failing: [],
+  };
+
+  const rows = checklist.items.map((item): TraceabilityRow => {
+    // The newest run that ran any test tagged with this AC decides its status
+    let latestRun: StoredRun | undefined;
+    let executed: RunTest[] = [];
+    for (const run of runs) {
+      executed = featureTests(run).filter((test) => acTags(test).includes(item.id));
+      if (executed.length > 0) {
+        latestRun = run;
+        break;
+      }
+    }
+    const status = latestRun ? runStatus(executed) : 'not_run';
+
+    const row: TraceabilityRow = {
+      checklist_id: item.id,
+      text: item.text,
+      priority: item.priority,
+      requirement_ids: linkedRequirements(item),
+      task_ids: activeTasks
+        .filter((task) => task.checklist_ids.includes(item.id))
+        .map((task) => task.task_id),
+      planned_tests: plannedByAc.get(item.id) ?? [],
+      executed_tests: executed.map((test) => ({
+        test_id: test.testId,
+        name: test.testName,
+        file: test.file,
+        status: test.status,
+      })),
+      latest_run_id: latestRun?.runId,
+      latest_status: status,
+    };
+
+    if (plan && row.task_ids.length === 0) {
+      gaps.acs_without_task.push(item.id);
+    }
+    if (status === 'failed') {
+      gaps.acs_failing.push({
+        checklist_id: item.id,
+        run_id: latestRun!.runId,
+        failed_tests: executed.filter((t) => FAILING.has(t.status)).map((t) => t.testName),
+      });
+    }
+    return row;
+  });
+
+  const linked = new Set(rows.flatMap((row) => row.requirement_ids));
+  gaps.requirements_without_ac = (requirements ?? [])
+    .filter((requirement) => !linked.has(requirement.id))
+    .map(({ id, text, source, type }) => ({ id, text, source, type }));
+
+  // A task is tested when one of its ACs has a planned or executed test
+  const testedAcs = new Set(
+    rows
+      .filter((row) => row.planned_tests.length > 0 || row.executed_tests.length > 0)
+      .map((row) => row.checklist_id)
+  );
+  gaps.tasks_without_test = activeTasks
+    .filter((task) => !task.checklist_ids.some((id) => testedAcs.has(id)))
+    .map(({ task_id, area, checklist_ids }) => ({ task_id, area, checklist_ids }));
+
+  for (const scenario of testPlan?.test_scenarios ?? []) {
+    if (acIds.has(scenario.checklist_id)) continue;
+    for (const test of scenario.test_cases) {
+      gaps.tests_without_ac.push({
+        source: 'test-plan',
+        test_id: test.test_id,
+        name: test.name,
+        checklist_id: scenario.checklist_id,
+      });
+    }
+  }
+  // Only the newest run: older runs may predate renamed or retagged tests
+  for (const test of runs[0] ? featureTests(runs[0]) : []) {
+    const tags = acTags(test);
+    if (tags.some((id) => acIds.has(id))) continue;
+    gaps.tests_without_ac.push({
+      source: 'run',
+      test_id: test.testId,
+      name: test.testName,
+      checklist_id: tags[0],
+    });
+  }
+
+  return {
+    feature_id: featureId,
+    built_at: new Date().toISOString(),
+    missing_inputs: missing,
+    summary: {
+      requirements: requirements?.length ?? 0,
+      acceptance_criteria: rows.length,
+      tasks: activeTasks.length,
+      planned_tests: rows.reduce((sum, row) => sum + row.planned_tests.length, 0),
+      executed_tests: rows.reduce((sum, row) => sum + row.executed_tests.length, 0),
+      runs: runs.length,
+      gaps: {
+        requirements_without_ac: gaps.requirements_without_ac.length,
+        acs_without_task: gaps.acs_without_task.length,
+        tasks_without_test: gaps.tasks_without_test.length,
+        tests_without_ac: gaps.tests_without_ac.length,
+        acs_failing: gaps.acs_failing.length,
+      },
+    },
+    rows,
+    gaps,
+  };
+}
+
+/**
+ * One line per requirement and AC pair: ACs without requirements and
+ * requirements without ACs get a line of their own.
+ */
+function flatRows(matrix: TraceabilityMatrix, requirements: Map<string, Requirement>) {
+  const lines: Array<{ requirement?: Requirement; requirementId?: string; row?: TraceabilityRow }> =
+    [];
+  for (const row of matrix.rows) {
+    if (row.requirement_ids.length === 0) lines.push({ row });
+    for (const id of row.requirement_ids) {
+      lines.push({ requirement: requirements.get(id), requirementId: id, row });
+    }
+  }
+  for (const requirement of matrix.gaps.requirements_without_ac) {
+    lines.push({ requirement: requirements.get(requirement.id), requirementId: requirement.id });
+  }
+  return lines;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function traceabilityCsv(matrix: TraceabilityMatrix, requirements: Requirement[]): string {
+  const byId = new Map(requirements.map((r) => [r.id, r]));
+  const header = [
+    'requirement_id',
+    'requirement_type',
+    'requirement_source',
+    'requirement_text',
+    'checklist_id',
+    'priority',
+    'ac_text',
+    'task_ids',
+    'planned_tests',
+    'executed_tests',
+    'latest_run_id',
+    'latest_status',
+  ];
+  const lines = flatRows(matrix, byId).map(({ requirement, requirementId, row }) =>
+    [
+      requirementId ?? '',
+      requirement?.keyword ?? requirement?.type ?? '',
+      requirement?.source ?? '',
+      requirement?.text ?? '',
+      row?.checklist_id ?? '',
+      row?.priority ?? '',
+      row?.text ?? '',
+      row?.task_ids.join('; ') ?? '',
+      row?.planned_tests.join('; ') ?? '',
+      row?.executed_tests.map((test) => `${test.name} (${test.status})`).join('; ') ?? '',
+      row?.latest_run_id ?? '',
+      row?.latest_status ?? '',
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ') || '-';
+}
+
+export function traceabilityMarkdown(
+  matrix: TraceabilityMatrix,
+  requirements: Requirement[]
+): string {
+  const byId = new Map(requirements.map((r) => [r.id, r]));
+  const { summary, gaps } = matrix;
+  const out: string[] = [
+    `# Traceability Matrix: ${matrix.feature_id}`,
+    '',
+    `Built ${matrix.built_at}.`,
+    '',
+  ];
+  if (matrix.missing_inputs.length > 0) {
+    out.push(`Missing inputs: ${matrix.missing_inputs.join(', ')}.`, '');
+  }
+
+  out.push(
+    '## Summary',
+    '',
+    '| Requirements | ACs | Tasks | Planned tests | Executed tests | Runs |',
+    '|---|---|---|---|---|---|',
+    `| ${summary.requirements} | ${summary.acceptance_criteria} | ${summary.tasks} | ` +
+      `${summary.planned_tests} | ${summary.executed_tests} | ${summary.runs} |`,
+    '',
+    '## Matrix',
+    '',
+    '| Requirement | AC | Tasks | Planned tests | Latest run | Status |',
+    '|---|---|---|---|---|---|'
+  );
+  for (const { requirement, requirementId, row } of flatRows(matrix, byId)) {
+    const requirementCell = requirementId
+      ? `${requirementId}: ${requirement?.text ?? '(not in snapshot)'}`
+      : '';
+    out.push(
+      '| ' +
+        [
+          cell(requirementCell),
+          cell(row ? `${row.checklist_id}: ${row.text}` : ''),
+          cell(row?.task_ids.join(', ') ?? ''),
+          cell(row?.planned_tests.join(', ') ?? ''),
+          cell(row?.latest_run_id ?? ''),
+          cell(row?.latest_status ?? ''),
+        ].join(' | ') +
+        ' |'
+    );
+  }
+
+  const sections: Array<[string, string[]]> = [
+    [
+      'Requirements without an AC',
+      gaps.requirements_without_ac.map((r) => `${r.id} (${r.source}): ${r.text}`),
+    ],
+    ['ACs without a task', gaps.acs_without_task],
+    [
+      'Tasks without a test',
+      gaps.tasks_without_test.map((t) => `${t.task_id} (${t.area}): ${t.checklist_ids.join(', ')}`),
+    ],
+    [
+      'Tests without an AC',
+      gaps.tests_without_ac.map(
+        (t) =>
+          `${t.name} (${t.source}${t.checklist_id ? `, unknown ${t.checklist_id}` : ', untagged'})`
+      ),
+    ],
+    [
+      'ACs failing in their latest run',
+      gaps.acs_failing.map(
+        (f) => `${f.checklist_id} in run ${f.run_id}: ${f.failed_tests.join(', ')}`
+      ),
+    ],
+  ];
+  out.push('', '## Gaps', '');
+  for (const [title, entries] of sections) {
+    out.push(`### ${title} (${entries.length})`, '');
+    out.push(...(entries.length > 0 ? entries.map((entry) => `- ${entry}`) : ['None.']), '');
+  }
+
+  return out.join('\n');
+}
@@ -0,0 +1,133 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { Server, createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AppServer, AppServerOptions } from './app-server.js';
+
+/** A port nothing listens on right now */
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const server = createServer().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function alive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('AppServer', () => {
+  let dir: string;
+  let port: number;
+  let app: AppServer;
+  let external: Server | undefined;
+
+  const options = (overrides: Partial<AppServerOptions> = {}): AppServerOptions => ({
+    command: `"${process.execPath}" app.js`,
+    cwd: dir,
+    port,
+    timeout: 10_000,
+    reuseExisting: false,
+    logFile: join(dir, 'logs/app.log'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'app-server-'));
+    port = await freePort();
+    app = new AppServer();
+    writeFileSync(
+      join(dir, 'app.js'),
+      `require('http').createServer((req, res) => res.end('ok'))` +
+        `.listen(Number(process.env.PORT ?? ${port}), () => console.log('listening'));\n`
+    );
+    writeFileSync(join(dir, 'crash.js'), `console.error('missing DATABASE_URL');\nprocess.exit(3);\n`);
+    writeFileSync(join(dir, 'idle.js'), `setInterval(() => {}, 1000);\n`);
+  });
+
+  afterEach(async () => {
+    app.kill();
+    await new Promise((resolve) => (external ? external.close(resolve) : resolve(undefined)));
+    external = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts the app, waits until the port answers and logs its output', async () => {
+    const status = await app.start(options());
+
+    expect(status).toMatchObject({ state: 'ready', port, recentLogs: ['listening'] });
+    expect(app.isManaged()).toBe(true);
+    expect(readFileSync(join(dir, 'logs/app.log'), 'utf-8')).toBe('listening\n');
+  });
+
+  it('waits for a readiness URL', async () => {
+    const readyUrl = `http://127.0.0.1:${port}/`;
+    const status = await app.start(options({ port: undefined, readyUrl }));
+    expect(status.state).toBe('ready');
+  });
+
+  it('stops the whole process group', async () => {
+    const { pid } = await app.start(options());
+
+    const status = await app.stop();
+
+    expect(status.state).toBe('stopped');
+    expect(app.isManaged()).toBe(false);
+    expect(alive(pid!)).toBe(false);
+  });
+
+  it('refuses to start a second app', async () => {
+    await app.start(options());
+    await expect(app.start(options())).rejects.toThrow(/already running/);
+  });
+
+  it('requires a readiness URL or port', async () => {
+    await expect(app.start(options({ port: undefined }))).rejects.toThrow(/readyUrl or port/);
+  });
+
+  it('reuses an app that is already running and leaves it running', async () => {
+    external = createServer().listen(port, '127.0.0.1');
+    await new Promise((resolve) => external!.once('listening', resolve));
+
+    const status = await app.start(options({ reuseExisting: true }));
+
+    expect(status).toMatchObject({ state: 'external', port });
+    expect(status.pid).toBeUndefined();
+    expect(existsSync(join(dir, 'logs/app.log'))).toBe(false);
+
+    expect((await app.stop()).state).toBe('stopped');
+    expect(external.listening).toBe(true);
+  });
+
+  it('reports an app that exits before it is ready, with its last output', async () => {
+    await expect(app.start(options({ command: `"${process.execPath}" crash.js` }))).rejects.toThrow(
+      /exited before becoming ready \(exit code 3\)[\s\S]*missing DATABASE_URL/
+    );
+    expect(app.status()).toMatchObject({ state: 'exited', exitCode: 3 });
+    expect(app.isManaged()).toBe(false);
+  });
+
+  it('stops an app that does not become ready in time', async () => {
+    const start = app.start(options({ command: `"${process.execPath}" idle.js`, timeout: 1000 }));
+
+    await expect(start).rejects.toThrow(/did not become ready within 1000ms/);
+    const status = app.status();
+    expect(status.state).toBe('failed');
+    expect(alive(status.pid!)).toBe(false);
+    expect(app.isManaged()).toBe(false);
+  });
+
+  it('passes the configured environment to the app', async () => {
+    const other = await freePort();
+    const status = await app.start(options({ port: other, env: { PORT: String(other) } }));
+    expect(status).toMatchObject({ state: 'ready', port: other });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Managed application server for E2E runs.
+ *
+ * Starts the app under test from a shell command, waits until a readiness
+ * URL answers or a port accepts connections, writes the app's output to a log
+ * file, and tears the whole process group down afterwards. Mirrors the
+ * semantics of Playwright's `webServer` option so projects that don't use it
+ * can still get a clean app per run.
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import { WriteStream, createWriteStream, mkdirSync } from 'fs';
+import { connect } from 'net';
+import { dirname } from 'path';
+
+export interface AppServerOptions {
+  /** Shell command that starts the app, e.g. `npm run dev` */
+  command: string;
+  cwd: string;
+  /** URL polled until it answers; defaults to none when `port` is given */
+  readyUrl?: string;
+  /** Port polled on localhost until it accepts connections */
+  port?: number;
+  /** Milliseconds to wait for readiness before giving up */
+  timeout: number;
+  /** If the app already answers on the readiness URL/port, use it instead of starting another */
+  reuseExisting: boolean;
+  logFile: string;
+  env?: Record<string, string>;
+}
+
+export interface AppStatus {
+  state: 'stopped' | 'starting' | 'ready' | 'external' | 'failed' | 'exited';
+  pid?: number;
+  command?: string;
+  readyUrl?: string;
+  port?: number;
+  startedAt?: string;
+  readyAt?: string;
+  exitCode?: number | null;
+  error?: string;
+  logFile?: string;
+  /** Last lines of app output, newest last */
+  recentLogs: string[];
+}
+
+const POLL_INTERVAL = 500;
+const STOP_GRACE_PERIOD = 5000;
+const RECENT_LOG_LINES = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Playwright's webServer readiness rule: 2xx, 3xx and 400-403 mean the
+ * server is up, even if the route itself needs auth.
+ */
+async function urlReady(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(2000) });
+    return response.status <= 403;
+  } catch {
+    return false;
+  }
+}
+
+function portReady(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect({ port, host: '127.0.0.1' });
+    socket.setTimeout(2000);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+export class AppServer {
+  private proc: ChildProcess | null = null;
+  private log: WriteStream | null = null;
+  private current: AppStatus = { state: 'stopped', recentLogs: [] };
+
+  status(): AppStatus {
+    return { ...this.current, recentLogs: [...this.current.recentLogs] };
+  }
+
+  /** True while a process started by this instance is alive */
+  isManaged(): boolean {
+    return this.proc !== null;
+  }
+
+  private isReady(options: Pick<AppServerOptions, 'readyUrl' | 'port'>): Promise<boolean> {
+    if (options.readyUrl) return urlReady(options.readyUrl);
+    return portReady(options.port!);
+  }
+
+  private record(chunk: Buffer) {
+    this.log?.write(chunk);
+    const lines = chunk.toString().split('\n').filter((line) => line.trim());
+    this.current.recentLogs = [...this.current.recentLogs, ...lines].slice(-RECENT_LOG_LINES);
+  }
+
+  async start(options: AppServerOptions): Promise<AppStatus> {
+    if (!options.readyUrl && !options.port) {
+      throw new Error('Either readyUrl or port is required to detect when the app is ready');
+    }
+    if (this.proc) {
+      throw new Error(`App is already running (pid ${this.proc.pid}); stop it first`);
+    }
+
+    const target = { readyUrl: options.readyUrl, port: options.port };
+
+    if (options.reuseExisting && (await this.isReady(target))) {
+      this.current = {
+        state: 'external',
+        ...target,
+        readyAt: new Date().toISOString(),
+        recentLogs: [],
+      };
+      return this.status();
+    }
+
+    mkdirSync(dirname(options.logFile), { recursive: true });
+    this.log = createWriteStream(options.logFile, { flags: 'a' });
+
+    // Own process group so stop() also reaches children of `npm run dev` etc.
+    const proc = spawn(options.command, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      shell: true,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    this.proc = proc;
+    this.current = {
+      state: 'starting',
+      pid: proc.pid,
+      command: options.command,
+      ...target,
+      startedAt: new Date().toISOString(),
+      logFile: options.logFile,
+      recentLogs: [],
+    };
+
+    proc.stdout?.on('data', (chunk: Buffer) => this.record(chunk));
+    proc.stderr?.on('data', (chunk: Buffer) => this.record(chunk));
+    const release = () => {
+      if (this.proc === proc) {
+        this.proc = null;
+        this.log?.end();
+        this.log = null;
+      }
+    };
+    proc.on('error', (error) => {
+      // A spawn failure never emits 'exit', so release the slot here too
+      release();
+      this.current.state = 'failed';
+      this.current.error = error.message;
+    });
+    proc.on('exit', (code) => {
+      release();
+      this.current.exitCode = code;
+      if (this.current.state === 'starting' || this.current.state === 'ready') {
+        this.current.state = 'exited';
+      }
+    });
+
+    const deadline = Date.now() + options.timeout;
+    while (Date.now() < deadline) {
+      if (this.current.state !== 'starting') {
+        throw new Error(
+          `App exited before becoming ready (${this.current.error ?? `exit code ${this.current.exitCode ?? 'unknown'}`}). ` +
+            `Last output:\n${this.current.recentLogs.slice(-10).join('\n')}`
+        );
+      }
+      if (await this.isReady(target)) {
+        this.current.state = 'ready';
+        this.current.readyAt = new Date().toISOString();
+        return this.status();
+      }
+      await sleep(POLL_INTERVAL);
+    }
+
+    await this.stop();
+    this.current.state = 'failed';
+    this.current.error = `App did not become ready within ${options.timeout}ms`;
+    throw new Error(
+      `${this.current.error} (waiting for ${options.readyUrl ?? `port ${options.port}`}). ` +
+        `Last output:\n${this.current.recentLogs.slice(-10).join('\n')}`
+    );
+  }
+
+  /**
+   * Stops the app if this instance started it. An app that was already
+   * running (`external`) is left alone.
+   */
+  async stop(): Promise<AppStatus> {
+    const proc = this.proc;
+
+    if (!proc || proc.pid === undefined) {
+      if (this.current.state === 'external') {
+        this.current = { ...this.current, state: 'stopped' };
+      }
+      return this.status();
+    }
+
+    const exited = new Promise<void>((resolve) => proc.once('exit', () => resolve()));
+    const signal = (sig: NodeJS.Signals) => {
+      try {
+        process.kill(-proc.pid!, sig);
+      } catch {
+        // Process group already gone
+      }
+    };
+
+    signal('SIGTERM');
+    const timedOut = await Promise.race([exited.then(() => false), sleep(STOP_GRACE_PERIOD).then(() => true)]);
+    if (timedOut) {
+      signal('SIGKILL');
+      await exited;
+    }
+
+    this.current.state = 'stopped';
+    return this.status();
+  }
+
+  /**
+   * Kills the app's process group right away. For process exit, where
+   * there is no time to wait for stop()'s graceful shutdown.
+   */
+  kill() {
+    const pid = this.proc?.pid;
+    if (pid === undefined) return;
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // Process group already gone
+    }
+    this.proc = null;
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { correlateRun, requiresE2E } from './correlation.js';
+import type { TestResult, TestRunResult } from './types.js';
+
+function result(testId: string, status: TestResult['status'], tags: string[], error?: string): TestResult {
+  return {
+    testId,
+    testName: testId,
+    titlePath: [testId],
+    file: 'reset.spec.ts',
+    status,
+    duration: 100,
+    retries: status === 'flaky' ? 1 : 0,
+    tags,
+    attempts: [],
+    attachments: { screenshots: [], traces: [], videos: [] },
+    error: error ? { message: error } : undefined,
+  };
+}
+
+function run(results: TestResult[], errors: string[] = []): TestRunResult {
+  return {
+    runId: 'run-1',
+    featureId: 'feat-2fa',
+    startedAt: '2026-10-01T12:00:00.000Z',
+    summary: { total: results.length, passed: 0, failed: 0, timedOut: 0, flaky: 0, skipped: 0, duration: 4200 },
+    results,
+    artifacts: { htmlReport: 'report/index.html', screenshots: [], traces: [], videos: [] },
+    errors,
+  };
+}
+
+const checklist = {
+  items: [
+    { id: 'AC1', text: 'User can request a reset code', priority: 'P0', verification_hint: 'E2E' },
+    { id: 'AC2', text: 'Codes expire', priority: 'P1', verification_hint: 'unit, e2e' },
+    { id: 'AC3', text: 'Reset is audited', priority: 'P2', verification_hint: 'unit' },
+  ],
+};
+
+describe('requiresE2E', () => {
+  it('looks for E2E in the verification hint', () => {
+    expect(requiresE2E({ id: 'AC1', text: '', verification_hint: 'unit, E2E' })).toBe(true);
+    expect(requiresE2E({ id: 'AC1', text: '', verification_hint: 'integration' })).toBe(false);
+    expect(requiresE2E({ id: 'AC1', text: '' })).toBe(false);
+  });
+});
+
+describe('correlateRun', () => {
+  it('derives a verdict per checklist item from its tagged tests', () => {
+    const results = correlateRun(
+      run([
+        result('t1', 'passed', ['@feat-2fa', '@AC1']),
+        result('t2', 'flaky', ['@feat-2fa', '@AC1']),
+        result('t3', 'passed', ['@feat-2fa', '@AC2']),
+        result('t4', 'timedOut', ['@feat-2fa', '@AC2'], '\nTest timeout of 30000ms exceeded.\nat reset'),
+        result('t5', 'skipped', ['@feat-2fa', '@AC3']),
+      ]),
+      checklist
+    );
+
+    expect(results.checklist_correlation).toEqual([
+      {
+        checklist_id: 'AC1',
+        text: 'User can request a reset code',
+        priority: 'P0',
+        requires_e2e: true,
+        status: 'passed',
+        related_tests: ['t1', 't2'],
+        pass_count: 2,
+        fail_count: 0,
+        skip_count: 0,
+        flaky_count: 1,
+        failure_summary: undefined,
+      },
+      expect.objectContaining({
+        checklist_id: 'AC2',
+        status: 'partial',
+        pass_count: 1,
+        fail_count: 1,
+        failure_summary: 'Test timeout of 30000ms exceeded.',
+      }),
+      expect.objectContaining({ checklist_id: 'AC3', status: 'untested', skip_count: 1 }),
+    ]);
+    expect(results.overall_status).toBe('failed');
+    expect(results.test_summary).toEqual({
+      total_tests: 5,
+      passed: 3,
+      failed: 1,
+      skipped: 1,
+      flaky: 1,
+      duration_ms: 4200,
+      pass_rate: 0.75,
+    });
+    expect(results.coverage_summary).toEqual({
+      total_checklist_items: 3,
+      tested_via_e2e: 2,
+      passed: 1,
+      failed: 0,
+      partial: 1,
+      not_tested: 1,
+      coverage_percentage: 67,
+    });
+  });
+
+  it('only counts tests tagged with the run feature', () => {
+    const results = correlateRun(
+      run([result('mine', 'passed', ['@feat-2fa', '@AC1']), result('other', 'failed', ['@feat-login', '@AC1'])]),
+      checklist
+    );
+
+    expect(results.total_tests).toBe(1);
+    expect(results.test_results.map((t) => t.test_id)).toEqual(['mine']);
+    expect(results.checklist_correlation[0]).toMatchObject({ status: 'passed', related_tests: ['mine'] });
+  });
+
+  it('counts a test once per AC even when the tag repeats', () => {
+    const results = correlateRun(run([result('t1', 'failed', ['@feat-2fa', '@AC1', '@AC1'], 'boom')]), checklist);
+    expect(results.checklist_correlation[0]).toMatchObject({ status: 'failed', fail_count: 1, related_tests: ['t1'] });
+  });
+
+  it('is partial while an E2E criterion is untested', () => {
+    const results = correlateRun(run([result('t1', 'passed', ['@feat-2fa', '@AC1'])]), checklist);
+
+    expect(results.checklist_correlation[1].status).toBe('untested');
+    expect(results.overall_status).toBe('partial');
+  });
+
+  it('passes once every E2E criterion passes, even if unit-only items are untested', () => {
+    const results = correlateRun(
+      run([result('t1', 'passed', ['@feat-2fa', '@AC1']), result('t2', 'passed', ['@feat-2fa', '@AC2'])]),
+      checklist
+    );
+
+    expect(results.overall_status).toBe('passed');
+    expect(results.coverage_summary.coverage_percentage).toBe(67);
+  });
+
+  it('is partial with run errors or without any feature tests', () => {
+    const passing = [result('t1', 'passed', ['@feat-2fa', '@AC1']), result('t2', 'passed', ['@feat-2fa', '@AC2'])];
+
+    expect(correlateRun(run(passing, ['Error in global setup']), checklist).overall_status).toBe('partial');
+    expect(correlateRun(run([]), { items: [] }).overall_status).toBe('partial');
+  });
+
+  it('truncates long failure messages', () => {
+    const results = correlateRun(run([result('t1', 'failed', ['@feat-2fa', '@AC1'], 'x'.repeat(300))]), checklist);
+    const summary = results.checklist_correlation[0].failure_summary!;
+
+    expect(summary).toHaveLength(200);
+    expect(summary.endsWith('...')).toBe(true);
+  });
+
+  it('carries the run identity and artifacts', () => {
+    const results = correlateRun(run([]), checklist);
+
+    expect(results).toMatchObject({
+      feature_id: 'feat-2fa',
+      test_run_id: 'run-1',
+      executed_at: '2026-10-01T12:00:00.000Z',
+      artifacts: { html_report: 'report/index.html', screenshots: [] },
+    });
+  });
+});
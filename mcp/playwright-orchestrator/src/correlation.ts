@@ -0,0 +1,219 @@
+/**
+ * Checklist correlation for a stored test run.
+ *
+ * Groups a run's test results by their `@ACn` tags and derives a verdict per
+ * checklist item, producing `playwright-results.json` in the shape the
+ * playwright-tester agent documents and the feature orchestrator's
+ * `generate_report` reads.
+ */
+
+import type { TestResult, TestRunResult } from './types.js';
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  priority?: string;
+  verification_hint?: string;
+}
+
+export type AcStatus = 'passed' | 'failed' | 'partial' | 'untested';
+
+export interface ChecklistCorrelation {
+  checklist_id: string;
+  text: string;
+  priority?: string;
+  requires_e2e: boolean;
+  status: AcStatus;
+  related_tests: string[];
+  pass_count: number;
+  fail_count: number;
+  skip_count: number;
+  flaky_count: number;
+  failure_summary?: string;
+}
+
+export interface PlaywrightResults {
+  feature_id: string;
+  test_run_id: string;
+  executed_at: string;
+  overall_status: 'passed' | 'failed' | 'partial';
+  total_tests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  flaky: number;
+  test_summary: {
+    total_tests: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    flaky: number;
+    duration_ms: number;
+    pass_rate: number;
+  };
+  test_results: Array<{
+    test_id: string;
+    test_name: string;
+    file: string;
+    line?: number;
+    project?: string;
+    status: TestResult['status'];
+    duration_ms: number;
+    retries: number;
+    tags: string[];
+    error?: TestResult['error'];
+  }>;
+  checklist_correlation: ChecklistCorrelation[];
+  coverage_summary: {
+    total_checklist_items: number;
+    tested_via_e2e: number;
+    passed: number;
+    failed: number;
+    partial: number;
+    not_tested: number;
+    coverage_percentage: number;
+  };
+  artifacts: {
+    html_report?: string;
+    json_report?: string;
+    screenshots: string[];
+    traces: string[];
+    videos: string[];
+  };
+  errors: string[];
+}
+
+const AC_TAG = /^@AC\d+$/;
+
+function isPass(test: TestResult): boolean {
+  return test.status === 'passed' || test.status === 'flaky';
+}
+
+function isFail(test: TestResult): boolean {
+  return test.status === 'failed' || test.status === 'timedOut';
+}
+
+export function requiresE2E(item: ChecklistItem): boolean {
+  return /\be2e\b/i.test(item.verification_hint || '');
+}
+
+function acStatus(passCount: number, failCount: number): AcStatus {
+  if (passCount === 0 && failCount === 0) return 'untested';
+  if (failCount === 0) return 'passed';
+  if (passCount === 0) return 'failed';
+  return 'partial';
+}
+
+function summarizeFailure(tests: TestResult[]): string | undefined {
+  const message = tests.find((t) => isFail(t) && t.error)?.error?.message;
+  if (!message) return undefined;
+  const firstLine = message.split('\n').find((line) => line.trim()) || message;
+  return firstLine.length > 200 ? `${firstLine.slice(0, 197)}...` : firstLine;
+}
+
+/**
+ * Correlates `run` with `checklist`. Only tests tagged with the run's feature
+ * count; every checklist item appears in the result, with `untested` when no
+ * executed test carries its AC tag.
+ */
+export function correlateRun(run: TestRunResult, checklist: { items: ChecklistItem[] }): PlaywrightResults {
+  const featureTag = `@${run.featureId}`;
+  const tests = run.results.filter((t) => t.tags.includes(featureTag));
+  const byAc = new Map<string, TestResult[]>();
+
+  for (const test of tests) {
+    for (const tag of new Set(test.tags.filter((t) => AC_TAG.test(t)))) {
+      const acId = tag.slice(1);
+      byAc.set(acId, [...(byAc.get(acId) || []), test]);
+    }
+  }
+
+  const correlation: ChecklistCorrelation[] = checklist.items.map((item) => {
+    const related = byAc.get(item.id) || [];
+    const passCount = related.filter(isPass).length;
+    const failCount = related.filter(isFail).length;
+
+    return {
+      checklist_id: item.id,
+      text: item.text,
+      priority: item.priority,
+      requires_e2e: requiresE2E(item),
+      status: acStatus(passCount, failCount),
+      related_tests: related.map((t) => t.testId),
+      pass_count: passCount,
+      fail_count: failCount,
+      skip_count: related.filter((t) => t.status === 'skipped').length,
+      flaky_count: related.filter((t) => t.status === 'flaky').length,
+      failure_summary: summarizeFailure(related),
+    };
+  });
+
+  const passed = tests.filter(isPass).length;
+  const failed = tests.filter(isFail).length;
+  const skipped = tests.filter((t) => t.status === 'skipped').length;
+  const flaky = tests.filter((t) => t.status === 'flaky').length;
+  const executed = passed + failed;
+
+  // Untested E2E criteria are not failures, but the feature is not verified either
+  const untestedE2E = correlation.some((c) => c.requires_e2e && c.status === 'untested');
+  const overallStatus =
+    failed > 0 || correlation.some((c) => c.status === 'failed' || c.status === 'partial')
+      ? 'failed'
+      : untestedE2E || run.errors.length > 0 || tests.length === 0
+        ? 'partial'
+        : 'passed';
+
+  const tested = correlation.filter((c) => c.status !== 'untested');
+
+  return {
+    feature_id: run.featureId,
+    test_run_id: run.runId,
+    executed_at: run.startedAt,
+    overall_status: overallStatus,
+    total_tests: tests.length,
+    passed,
+    failed,
+    skipped,
+    flaky,
+    test_summary: {
+      total_tests: tests.length,
+      passed,
+      failed,
+      skipped,
+      flaky,
+      duration_ms: run.summary.duration,
+      pass_rate: executed > 0 ? Math.round((passed / executed) * 100) / 100 : 0,
+    },
+    test_results: tests.map((t) => ({
+      test_id: t.testId,
+      test_name: t.testName,
+      file: t.file,
+      line: t.line,
+      project: t.project,
+      status: t.status,
+      duration_ms: t.duration,
+      retries: t.retries,
+      tags: t.tags,
+      error: t.error,
+    })),
+    checklist_correlation: correlation,
+    coverage_summary: {
+      total_checklist_items: correlation.length,
+      tested_via_e2e: tested.length,
+      passed: correlation.filter((c) => c.status === 'passed').length,
+      failed: correlation.filter((c) => c.status === 'failed').length,
+      partial: correlation.filter((c) => c.status === 'partial').length,
+      not_tested: correlation.length - tested.length,
+      coverage_percentage:
+        correlation.length > 0 ? Math.round((tested.length / correlation.length) * 100) : 0,
+    },
+    artifacts: {
+      html_report: run.artifacts.htmlReport,
+      json_report: run.artifacts.jsonReport,
+      screenshots: run.artifacts.screenshots,
+      traces: run.artifacts.traces,
+      videos: run.artifacts.videos,
+    },
+    errors: run.errors,
+  };
+}
@@ -0,0 +1,215 @@
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildTestHistory, currentCodeRevision, detectFlakyTests } from './history.js';
+import type { TestResult, TestRunResult } from './types.js';
+
+function result(testId: string, status: TestResult['status'], tags = ['@feat-2fa']): TestResult {
+  return {
+    testId,
+    testName: `test ${testId}`,
+    titlePath: [`test ${testId}`],
+    file: 'reset.spec.ts',
+    status,
+    duration: 100,
+    retries: status === 'flaky' ? 1 : 0,
+    tags,
+    attempts: [],
+    attachments: { screenshots: [], traces: [], videos: [] },
+    error: status === 'failed' ? { message: 'boom' } : undefined,
+  };
+}
+
+function run(runId: string, codeRevision: string | null, results: TestResult[]): TestRunResult {
+  return {
+    runId,
+    featureId: 'feat-2fa',
+    startedAt: `2026-10-0${runId.slice(-1)}T12:00:00.000Z`,
+    codeRevision,
+    summary: { total: results.length, passed: 0, failed: 0, timedOut: 0, flaky: 0, skipped: 0, duration: 0 },
+    results,
+    artifacts: { screenshots: [], traces: [], videos: [] },
+    errors: [],
+  };
+}
+
+describe('buildTestHistory', () => {
+  const runs = [
+    run('run-3', 'abc', [result('t1', 'failed'), result('t2', 'passed', ['@feat-login'])]),
+    run('run-2', 'abc', [result('t1', 'skipped')]),
+    run('run-1', null, [result('t1', 'passed'), result('t1-webkit', 'flaky')]),
+  ];
+
+  it('collects each test across runs in run order', () => {
+    const [history] = buildTestHistory(runs, { testId: 't1' });
+
+    expect(history).toMatchObject({
+      testId: 't1',
+      runs: 3,
+      counts: { passed: 1, failed: 1, timedOut: 0, flaky: 0, skipped: 1 },
+      passRate: 0.5,
+    });
+    expect(history.history).toEqual([
+      {
+        runId: 'run-3',
+        startedAt: '2026-10-03T12:00:00.000Z',
+        codeRevision: 'abc',
+        status: 'failed',
+        retries: 0,
+        duration: 100,
+        error: 'boom',
+      },
+      expect.objectContaining({ runId: 'run-2', status: 'skipped' }),
+      expect.objectContaining({ runId: 'run-1', codeRevision: null, status: 'passed' }),
+    ]);
+  });
+
+  it('selects tests by tag, with or without the @', () => {
+    expect(buildTestHistory(runs, { tag: 'feat-login' }).map((h) => h.testId)).toEqual(['t2']);
+    expect(buildTestHistory(runs, { tag: '@feat-2fa' }).map((h) => h.testId)).toEqual(['t1', 't1-webkit']);
+  });
+
+  it('counts only first-attempt passes towards the pass rate', () => {
+    const [history] = buildTestHistory(runs, { testId: 't1-webkit' });
+    expect(history.passRate).toBe(0);
+  });
+
+  it('has no pass rate for tests that were always skipped', () => {
+    const [history] = buildTestHistory([run('run-1', 'abc', [result('t1', 'skipped')])], {});
+    expect(history.passRate).toBeNull();
+  });
+});
+
+describe('detectFlakyTests', () => {
+  it('flags a status flip under the same code revision', () => {
+    const flaky = detectFlakyTests([
+      run('run-2', 'abc', [result('t1', 'failed')]),
+      run('run-1', 'abc', [result('t1', 'passed')]),
+    ]);
+
+    expect(flaky).toEqual([
+      {
+        testId: 't1',
+        testName: 'test t1',
+        file: 'reset.spec.ts',
+        tags: ['@feat-2fa'],
+        runs: 2,
+        passedOnRetry: 0,
+        statusFlips: [{ codeRevision: 'abc', statuses: ['failed', 'passed'] }],
+        reasons: ['Status changed without code changes at abc: failed, passed'],
+      },
+    ]);
+  });
+
+  it('does not treat a change across revisions as a flip', () => {
+    const flaky = detectFlakyTests([
+      run('run-2', 'def', [result('t1', 'failed')]),
+      run('run-1', 'abc', [result('t1', 'passed')]),
+    ]);
+    expect(flaky).toEqual([]);
+  });
+
+  it('ignores runs without a code revision and skipped results', () => {
+    const flaky = detectFlakyTests([
+      run('run-3', null, [result('t1', 'failed')]),
+      run('run-2', 'abc', [result('t1', 'skipped')]),
+      run('run-1', 'abc', [result('t1', 'passed')]),
+    ]);
+    expect(flaky).toEqual([]);
+  });
+
+  it('flags tests that pass only on retry', () => {
+    const flaky = detectFlakyTests([
+      run('run-2', 'abc', [result('t1', 'flaky')]),
+      run('run-1', 'def', [result('t1', 'passed')]),
+    ]);
+
+    expect(flaky).toEqual([
+      expect.objectContaining({
+        testId: 't1',
+        passedOnRetry: 1,
+        statusFlips: [],
+        reasons: ['Passed only on retry in 1 of 2 runs'],
+      }),
+    ]);
+  });
+
+  it('counts a timeout as failing when looking for flips', () => {
+    const flaky = detectFlakyTests([
+      run('run-2', 'abc', [result('t1', 'timedOut')]),
+      run('run-1', 'abc', [result('t1', 'flaky')]),
+    ]);
+
+    expect(flaky[0].reasons).toEqual([
+      'Passed only on retry in 1 of 2 runs',
+      'Status changed without code changes at abc: timedOut, flaky',
+    ]);
+  });
+});
+
+describe('currentCodeRevision', () => {
+  let repo: string;
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repo,
+      encoding: 'utf-8',
+    }).trim();
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), 'history-'));
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('is null outside a repository or before the first commit', () => {
+    expect(currentCodeRevision(repo)).toBeNull();
+    git('init', '-q');
+    expect(currentCodeRevision(repo)).toBeNull();
+  });
+
+  it('is HEAD for a clean tree and fingerprints uncommitted changes', () => {
+    git('init', '-q');
+    writeFileSync(join(repo, 'app.ts'), 'export const a = 1;\n');
+    git('add', '.');
+    git('commit', '-qm', 'initial');
+    const head = git('rev-parse', 'HEAD');
+
+    expect(currentCodeRevision(repo)).toBe(head);
+
+    writeFileSync(join(repo, 'app.ts'), 'export const a = 2;\n');
+    const dirty = currentCodeRevision(repo);
+
+    expect(dirty).toMatch(new RegExp(`^${head}\\+[0-9a-f]{12}$`));
+    expect(currentCodeRevision(repo)).toBe(dirty);
+    expect(git('stash', 'list')).toBe('');
+
+    writeFileSync(join(repo, 'app.ts'), 'export const a = 3;\n');
+    expect(currentCodeRevision(repo)).not.toBe(dirty);
+  });
+
+  it('fingerprints untracked files that are not ignored', () => {
+    git('init', '-q');
+    writeFileSync(join(repo, '.gitignore'), 'test-results/\n');
+    git('add', '.');
+    git('commit', '-qm', 'initial');
+    const head = git('rev-parse', 'HEAD');
+
+    mkdirSync(join(repo, 'test-results'));
+    writeFileSync(join(repo, 'test-results/report.json'), '{}');
+    expect(currentCodeRevision(repo)).toBe(head);
+
+    writeFileSync(join(repo, 'login.spec.ts'), "test('logs in', () => {});\n");
+    const untracked = currentCodeRevision(repo);
+
+    expect(untracked).toMatch(new RegExp(`^${head}\\+[0-9a-f]{12}$`));
+    expect(currentCodeRevision(repo)).toBe(untracked);
+    expect(git('status', '--porcelain')).toBe('?? login.spec.ts');
+
+    writeFileSync(join(repo, 'login.spec.ts'), "test('logs out', () => {});\n");
+    expect(currentCodeRevision(repo)).not.toBe(untracked);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Cross-run test history and flakiness detection.
+ *
+ * Tests are matched across runs by `testId`, which Playwright derives from
+ * the file, title path and project, so it is stable while the test itself is
+ * unchanged. Each run records the code revision it ran against, which lets a
+ * status flip be told apart from a real regression.
+ */
+
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import type { TestResult, TestRunResult } from './types.js';
+
+export interface HistoryEntry {
+  runId: string;
+  startedAt: string;
+  codeRevision: string | null;
+  status: TestResult['status'];
+  retries: number;
+  duration: number;
+  error?: string;
+}
+
+export interface TestHistory {
+  testId: string;
+  testName: string;
+  file: string;
+  project?: string;
+  tags: string[];
+  runs: number;
+  counts: Record<TestResult['status'], number>;
+  /** Share of non-skipped runs that passed on the first attempt */
+  passRate: number | null;
+  history: HistoryEntry[];
+}
+
+export interface FlakyTest {
+  testId: string;
+  testName: string;
+  file: string;
+  tags: string[];
+  runs: number;
+  /** Runs where the test failed at least once and then passed on retry */
+  passedOnRetry: number;
+  /** Code revisions under which the test both passed and failed */
+  statusFlips: Array<{ codeRevision: string; statuses: Array<TestResult['status']> }>;
+  reasons: string[];
+}
+
+const FAILING: ReadonlySet<TestResult['status']> = new Set(['failed', 'timedOut']);
+const PASSING: ReadonlySet<TestResult['status']> = new Set(['passed', 'flaky']);
+
+/**
+ * Identifies the code a run executed against: the HEAD commit, plus a
+ * fingerprint of the uncommitted changes when the working tree is dirty.
+ * `git stash create` records the tracked files without touching the working
+ * tree or the stash; untracked files that are not ignored (a new spec or
+ * page object) are added by path and blob hash. Returns null outside a git
+ * repository, or if the changes cannot be fingerprinted.
+ */
+export function currentCodeRevision(cwd: string): string | null {
+  const git = (args: string[], input?: string) =>
+    execFileSync('git', args, { cwd, encoding: 'utf-8', input, stdio: ['pipe', 'pipe', 'pipe'] }).trim();
+
+  let head: string;
+  try {
+    head = git(['rev-parse', 'HEAD']);
+  } catch {
+    // Not a git repository, or no commits yet
+    return null;
+  }
+
+  try {
+    const stash = git(['stash', 'create']);
+    const untracked = git(['ls-files', '--others', '--exclude-standard', '-z']).split('\0').filter(Boolean);
+    if (!stash && untracked.length === 0) return head;
+
+    const fingerprint = createHash('sha256').update(stash ? git(['rev-parse', `${stash}^{tree}`]) : head);
+    if (untracked.length > 0) {
+      const blobs = git(['hash-object', '--stdin-paths'], untracked.join('\n')).split('\n');
+      untracked.forEach((path, i) => fingerprint.update(`\0${path}\0${blobs[i]}`));
+    }
+    return `${head}+${fingerprint.digest('hex').slice(0, 12)}`;
+  } catch (error) {
+    // Reporting HEAD alone would mix this run up with runs of the clean tree
+    console.error(`[history] Could not fingerprint uncommitted changes: ${error}`);
+    return null;
+  }
+}
+
+function emptyCounts(): TestHistory['counts'] {
+  return { passed: 0, failed: 0, timedOut: 0, flaky: 0, skipped: 0 };
+}
+
+/**
+ * Builds per-test history over `runs` (newest first) for tests matching
+ * `testId` or carrying `tag`.
+ */
+export function buildTestHistory(
+  runs: TestRunResult[],
+  selector: { testId?: string; tag?: string }
+): TestHistory[] {
+  const tag = selector.tag && !selector.tag.startsWith('@') ? `@${selector.tag}` : selector.tag;
+  const byTest = new Map<string, TestHistory>();
+
+  for (const run of runs) {
+    for (const test of run.results) {
+      if (selector.testId && test.testId !== selector.testId) continue;
+      if (tag && !test.tags.includes(tag)) continue;
+
+      let entry = byTest.get(test.testId);
+      if (!entry) {
+        entry = {
+          testId: test.testId,
+          testName: test.testName,
+          file: test.file,
+          project: test.project,
+          tags: test.tags,
+          runs: 0,
+          counts: emptyCounts(),
+          passRate: null,
+          history: [],
+        };
+        byTest.set(test.testId, entry);
+      }
+
+      entry.runs++;
+      entry.counts[test.status]++;
+      entry.history.push({
+        runId: run.runId,
+        startedAt: run.startedAt,
+        codeRevision: run.codeRevision ?? null,
+        status: test.status,
+        retries: test.retries,
+        duration: test.duration,
+        error: test.error?.message,
+      });
+    }
+  }
+
+  for (const entry of byTest.values()) {
+    const executed = entry.runs - entry.counts.skipped;
+    entry.passRate = executed > 0 ? Math.round((entry.counts.passed / executed) * 100) / 100 : null;
+  }
+
+  return [...byTest.values()];
+}
+
+/**
+ * Flags tests that pass only on retry, or whose status flips between runs of
+ * the same code revision.
+ */
+export function detectFlakyTests(runs: TestRunResult[]): FlakyTest[] {
+  const flaky: FlakyTest[] = [];
+
+  for (const test of buildTestHistory(runs, {})) {
+    const byRevision = new Map<string, Array<TestResult['status']>>();
+    for (const entry of test.history) {
+      if (!entry.codeRevision) continue;
+      byRevision.set(entry.codeRevision, [...(byRevision.get(entry.codeRevision) || []), entry.status]);
+    }
+
+    const statusFlips = [...byRevision.entries()]
+      .filter(([, statuses]) => statuses.some((s) => PASSING.has(s)) && statuses.some((s) => FAILING.has(s)))
+      .map(([codeRevision, statuses]) => ({ codeRevision, statuses }));
+    const passedOnRetry = test.counts.flaky;
+
+    if (passedOnRetry === 0 && statusFlips.length === 0) continue;
+
+    const reasons: string[] = [];
+    if (passedOnRetry > 0) {
+      reasons.push(`Passed only on retry in ${passedOnRetry} of ${test.runs} runs`);
+    }
+    for (const flip of statusFlips) {
+      reasons.push(`Status changed without code changes at ${flip.codeRevision}: ${flip.statuses.join(', ')}`);
+    }
+
+    flaky.push({
+      testId: test.testId,
+      testName: test.testName,
+      file: test.file,
+      tags: test.tags,
+      runs: test.runs,
+      passedOnRetry,
+      statusFlips,
+      reasons,
+    });
+  }
+
+  return flaky;
+}
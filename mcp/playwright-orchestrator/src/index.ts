@@ -15,50 +15,62 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { spawn } from 'child_process';
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { existsSync, readFileSync, mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname, relative } from 'path';
 import { fileURLToPath } from 'url';
+import {
+  lockWorkspace,
+  resolveInSandbox,
+  scanTestTags,
+  writeWorkspaceArtifact,
+} from '@feature-orchestrator/mcp-shared';
+import { AppServer, AppServerOptions } from './app-server.js';
+import { correlateRun } from './correlation.js';
+import { buildTestHistory, currentCodeRevision, detectFlakyTests } from './history.js';
+import { emptyRun, findJsonReport, parsePlaywrightReport } from './report-parser.js';
+import { ProjectConfigStore } from './project-config.js';
+import { RunStore } from './run-store.js';
+import type { ParsedRun, TestRunResult } from './types.js';
+
+const APP_SERVER_PROPERTIES = {
+  command: {
+    type: 'string',
+    description: 'Shell command that starts the app (e.g., npm run dev; defaults to app.command from the project config)',
+  },
+  readyUrl: {
+    type: 'string',
+    description: 'URL polled until it responds (defaults to app.ready_url from the project config, then baseURL)',
+  },
+  port: {
+    type: 'number',
+    description: 'Port polled on localhost instead of a URL',
+  },
+  timeout: {
+    type: 'number',
+    description: 'Milliseconds to wait for the app to become ready',
+    default: 60000,
+  },
+  reuseExisting: {
+    type: 'boolean',
+    description: 'Use an app that is already responding instead of starting another',
+    default: true,
+  },
+  cwd: {
+    type: 'string',
+    description: 'Directory to run the command in, relative to the project root',
+    default: '.',
+  },
+};
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-interface TestResult {
-  testId: string;
-  testName: string;
-  file: string;
-  line?: number;
-  status: 'passed' | 'failed' | 'skipped' | 'timedOut';
-  duration: number;
-  tags: string[];
-  error?: {
-    message: string;
-    stack?: string;
-    screenshot?: string;
-    trace?: string;
-  };
-}
-
-interface TestRunResult {
-  runId: string;
-  summary: {
-    total: number;
-    passed: number;
-    failed: number;
-    skipped: number;
-    duration: number;
-  };
-  results: TestResult[];
-  artifacts: {
-    htmlReport?: string;
-    jsonReport?: string;
-    screenshots: string[];
-    traces: string[];
-  };
-}
-
 class PlaywrightOrchestratorServer {
   private server: Server;
-  private testRuns: Map<string, TestRunResult> = new Map();
+  private runStore = new RunStore(process.cwd(), () => this.projectConfig.get().runRetention);
+  private appServer = new AppServer();
+  private projectConfig = new ProjectConfigStore(process.cwd());
 
   constructor() {
     this.server = new Server(
@@ -79,10 +91,20 @@ class PlaywrightOrchestratorServer {
       console.error('[MCP Error]', error);
     };
 
-    process.on('SIGINT', async () => {
+    // The app runs in its own process group, so it outlives this server
+    // unless stopped on every way the server can go away
+    let shuttingDown = false;
+    const shutdown = async () => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      await this.appServer.stop();
       await this.server.close();
       process.exit(0);
-    });
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    process.stdin.on('end', shutdown);
+    process.on('exit', () => this.appServer.kill());
   }
 
   private setupToolHandlers() {
@@ -109,8 +131,7 @@ class PlaywrightOrchestratorServer {
             },
             baseURL: {
               type: 'string',
-              description: 'Base URL for the application',
-              default: 'http://localhost:3000',
+              description: 'Base URL for the application (defaults to default_feature_env.base_url from the project config)',
             },
             browser: {
               type: 'string',
@@ -138,6 +159,12 @@ class PlaywrightOrchestratorServer {
               description: 'Test timeout in milliseconds',
               default: 30000,
             },
+            startApp: {
+              type: ['object', 'boolean'],
+              description:
+                'Start the app before the run and stop it afterwards. Pass true to use the app section of the project config; object fields override it',
+              properties: APP_SERVER_PROPERTIES,
+            },
           },
           required: ['featureId'],
         },
@@ -158,13 +185,42 @@ class PlaywrightOrchestratorServer {
             },
             baseURL: {
               type: 'string',
-              description: 'Base URL for the application',
-              default: 'http://localhost:3000',
+              description: 'Base URL for the application (defaults to default_feature_env.base_url from the project config)',
+            },
+            startApp: {
+              type: ['object', 'boolean'],
+              description:
+                'Start the app before the run and stop it afterwards. Pass true to use the app section of the project config; object fields override it',
+              properties: APP_SERVER_PROPERTIES,
             },
           },
           required: ['featureId', 'acId'],
         },
       },
+      {
+        name: 'start_app',
+        description: 'Start the application under test and wait until it is ready',
+        inputSchema: {
+          type: 'object',
+          properties: APP_SERVER_PROPERTIES,
+        },
+      },
+      {
+        name: 'stop_app',
+        description: 'Stop the application started with start_app',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'app_status',
+        description: 'Report the managed application state and its recent output',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
       {
         name: 'get_test_report',
         description: 'Retrieve detailed test report for a previous test run',
@@ -175,6 +231,10 @@ class PlaywrightOrchestratorServer {
               type: 'string',
               description: 'The test run ID',
             },
+            featureId: {
+              type: 'string',
+              description: 'Feature the run belongs to (narrows the lookup)',
+            },
           },
           required: ['runId'],
         },
@@ -197,12 +257,116 @@ class PlaywrightOrchestratorServer {
           required: ['runId', 'testId'],
         },
       },
+      {
+        name: 'correlate_run_with_checklist',
+        description:
+          "Compute per-AC verdicts for a stored run from the feature's checklist.json and write playwright-results.json",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            runId: {
+              type: 'string',
+              description: 'The test run ID',
+            },
+            featureId: {
+              type: 'string',
+              description: 'Feature whose checklist to use (defaults to the run\'s feature)',
+            },
+            write: {
+              type: 'boolean',
+              description: 'Write playwright-results.json to the feature workspace',
+              default: true,
+            },
+            actor: {
+              type: 'string',
+              description: 'Name of the agent writing the results, recorded in the workspace event log',
+            },
+          },
+          required: ['runId'],
+        },
+      },
+      {
+        name: 'get_test_history',
+        description:
+          'Show pass/fail history across the last N stored runs for a test ID or tag (e.g. an AC tag)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            featureId: {
+              type: 'string',
+              description: 'The feature whose runs to read',
+            },
+            testId: {
+              type: 'string',
+              description: 'Test ID from a run report',
+            },
+            tag: {
+              type: 'string',
+              description: 'Tag to match instead of a test ID (e.g., @AC1)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of most recent runs to include',
+              default: 10,
+            },
+          },
+          required: ['featureId'],
+        },
+      },
+      {
+        name: 'detect_flaky_tests',
+        description:
+          'Flag tests that pass only on retry or change status between runs without code changes',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            featureId: {
+              type: 'string',
+              description: 'The feature whose runs to analyze',
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of most recent runs to analyze',
+              default: 20,
+            },
+          },
+          required: ['featureId'],
+        },
+      },
+      {
+        name: 'scan_test_tags',
+        description:
+          'Statically scan Playwright spec files (without running them) and index tests by feature and AC tag',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            testDir: {
+              type: 'string',
+              description:
+                'Directory containing spec files, relative to the project root (defaults to tests.e2e.test_directory from the project config)',
+            },
+            featureId: {
+              type: 'string',
+              description: 'Only report tests tagged with this feature ID',
+            },
+          },
+        },
+      },
       {
         name: 'list_test_runs',
-        description: 'List all test runs stored in memory',
+        description: 'List stored test runs, newest first',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            featureId: {
+              type: 'string',
+              description: 'Only list runs for this feature',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of runs to return',
+            },
+          },
         },
       },
     ];
@@ -216,10 +380,24 @@ class PlaywrightOrchestratorServer {
         return this.runACTests(args);
       case 'get_test_report':
         return this.getTestReport(args);
+      case 'start_app':
+        return this.startApp(args);
+      case 'stop_app':
+        return this.stopApp();
+      case 'app_status':
+        return this.appStatus();
       case 'analyze_failure':
         return this.analyzeFailure(args);
+      case 'correlate_run_with_checklist':
+        return this.correlateRunWithChecklist(args);
+      case 'get_test_history':
+        return this.getTestHistory(args);
+      case 'detect_flaky_tests':
+        return this.detectFlakyTests(args);
+      case 'scan_test_tags':
+        return this.scanTestTags(args);
       case 'list_test_runs':
-        return this.listTestRuns();
+        return this.listTestRuns(args);
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -228,37 +406,33 @@ class PlaywrightOrchestratorServer {
   private async runFeatureTests(args: Record<string, unknown>) {
     const {
       featureId,
-      baseURL = 'http://localhost:3000',
+      baseURL = this.projectConfig.get().baseURL,
       browser = 'chromium',
       headed = false,
       retries = 2,
       workers = 4,
       timeout = 30000,
+      startApp,
     } = args;
 
     if (!featureId || typeof featureId !== 'string') {
       throw new Error('featureId is required and must be a string');
     }
 
-    const runId = `run-${Date.now()}`;
-    const grepPattern = `@${featureId}`;
-
-    const result = await this.executePlaywrightTests({
-      grep: grepPattern,
-      baseURL: baseURL as string,
-      browser: browser as string,
-      headed: headed as boolean,
-      retries: retries as number,
-      workers: workers as number,
-      timeout: timeout as number,
-    });
-
-    const testRunResult: TestRunResult = {
-      runId,
-      ...result,
-    };
-
-    this.testRuns.set(runId, testRunResult);
+    const testRunResult = await this.recordRun(
+      featureId,
+      undefined,
+      {
+        grep: `@${featureId}`,
+        baseURL: baseURL as string,
+        browser: browser as string,
+        headed: headed as boolean,
+        retries: retries as number,
+        workers: workers as number,
+        timeout: timeout as number,
+      },
+      startApp
+    );
 
     return {
       content: [
@@ -271,7 +445,7 @@ class PlaywrightOrchestratorServer {
   }
 
   private async runACTests(args: Record<string, unknown>) {
-    const { featureId, acId, baseURL = 'http://localhost:3000' } = args;
+    const { featureId, acId, baseURL = this.projectConfig.get().baseURL, startApp } = args;
 
     if (!featureId || typeof featureId !== 'string') {
       throw new Error('featureId is required and must be a string');
@@ -280,39 +454,187 @@ class PlaywrightOrchestratorServer {
       throw new Error('acId is required and must be a string');
     }
 
+    const testRunResult = await this.recordRun(
+      featureId,
+      acId,
+      {
+        grep: `@${featureId}.*@${acId}`,
+        baseURL: baseURL as string,
+      },
+      startApp
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(testRunResult, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Runs Playwright, optionally inside a managed app server lifecycle, and
+   * stores the result in the run store.
+   */
+  private async recordRun(
+    featureId: string,
+    acId: string | undefined,
+    options: Parameters<PlaywrightOrchestratorServer['executePlaywrightTests']>[0],
+    startApp: unknown
+  ): Promise<TestRunResult & { path: string }> {
     const runId = `run-${Date.now()}`;
-    const grepPattern = `@${featureId}.*@${acId}`;
+    const startedAt = new Date().toISOString();
+    const codeRevision = currentCodeRevision(process.cwd());
 
-    const result = await this.executePlaywrightTests({
-      grep: grepPattern,
-      baseURL: baseURL as string,
-    });
+    let appLog: string | undefined;
+    let stopApp = false;
+
+    if (startApp !== undefined && startApp !== false) {
+      const appOptions = this.appOptions(startApp, {
+        readyUrl: options.baseURL,
+        logFile: join(this.runStore.runsDir(featureId), `${runId}.app.log`),
+      });
+      const status = await this.appServer.start(appOptions);
+      stopApp = status.state === 'ready';
+      appLog = status.logFile;
+    } else if (this.appServer.isManaged()) {
+      // App started earlier with start_app; its log covers this run too
+      appLog = this.appServer.status().logFile;
+    }
+
+    let result: ParsedRun;
+    try {
+      result = await this.executePlaywrightTests(options);
+    } finally {
+      if (stopApp) {
+        await this.appServer.stop();
+      }
+    }
 
     const testRunResult: TestRunResult = {
       runId,
+      featureId,
+      acId,
+      startedAt,
+      codeRevision,
       ...result,
+      artifacts: { ...result.artifacts, appLog },
+    };
+
+    const { path } = await this.runStore.save(testRunResult);
+    return { ...testRunResult, path };
+  }
+
+  /**
+   * Validates app server arguments (from start_app or a run's `startApp`)
+   * and fills in defaults, first from the project config's `app` section.
+   * `true` means "use the configured app as is".
+   */
+  private appOptions(
+    raw: unknown,
+    defaults: { readyUrl?: string; logFile: string }
+  ): AppServerOptions {
+    if (raw !== true && (!raw || typeof raw !== 'object')) {
+      throw new Error('startApp must be true or an object');
+    }
+
+    const configured = this.projectConfig.get().app;
+    const overrides = raw === true ? {} : (raw as Record<string, unknown>);
+    const {
+      command = configured?.command,
+      readyUrl = overrides.port === undefined ? configured?.readyUrl : undefined,
+      port = overrides.readyUrl === undefined ? configured?.port : undefined,
+      timeout = configured?.timeout ?? 60000,
+      reuseExisting = true,
+      cwd = configured?.cwd ?? '.',
+    } = overrides;
+
+    if (!command || typeof command !== 'string') {
+      throw new Error(
+        'command is required and must be a string (set app.command in .claude/feature-orchestrator.yml to make it optional)'
+      );
+    }
+    if (readyUrl !== undefined && typeof readyUrl !== 'string') {
+      throw new Error('readyUrl must be a string');
+    }
+    if (port !== undefined && typeof port !== 'number') {
+      throw new Error('port must be a number');
+    }
+    if (typeof timeout !== 'number') {
+      throw new Error('timeout must be a number');
+    }
+    if (typeof reuseExisting !== 'boolean') {
+      throw new Error('reuseExisting must be a boolean');
+    }
+    if (typeof cwd !== 'string') {
+      throw new Error('cwd must be a string');
+    }
+
+    return {
+      command,
+      cwd: resolveInSandbox(cwd, process.cwd(), ['.']),
+      readyUrl: readyUrl ?? (port === undefined ? defaults.readyUrl : undefined),
+      port,
+      timeout,
+      reuseExisting,
+      logFile: defaults.logFile,
     };
+  }
 
-    this.testRuns.set(runId, testRunResult);
+  private async startApp(args: Record<string, unknown>) {
+    const options = this.appOptions(args, {
+      readyUrl: this.projectConfig.get().baseURL,
+      logFile: join(process.cwd(), '.claude', 'feature-dev', 'app-server.log'),
+    });
+    const status = await this.appServer.start(options);
 
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(testRunResult, null, 2),
+          text: JSON.stringify(status, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async stopApp() {
+    const status = await this.appServer.stop();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(status, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async appStatus() {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(this.appServer.status(), null, 2),
         },
       ],
     };
   }
 
   private async getTestReport(args: Record<string, unknown>) {
-    const { runId } = args;
+    const { runId, featureId } = args;
 
     if (!runId || typeof runId !== 'string') {
       throw new Error('runId is required and must be a string');
     }
+    if (featureId !== undefined && typeof featureId !== 'string') {
+      throw new Error('featureId must be a string');
+    }
 
-    const testRun = this.testRuns.get(runId);
+    const testRun = this.runStore.get(runId, featureId);
 
     if (!testRun) {
       throw new Error(`Test run not found: ${runId}`);
@@ -338,7 +660,7 @@ class PlaywrightOrchestratorServer {
       throw new Error('testId is required and must be a string');
     }
 
-    const testRun = this.testRuns.get(runId);
+    const testRun = this.runStore.get(runId);
     if (!testRun) {
       throw new Error(`Test run not found: ${runId}`);
     }
@@ -348,7 +670,7 @@ class PlaywrightOrchestratorServer {
       throw new Error(`Test not found: ${testId}`);
     }
 
-    if (test.status !== 'failed') {
+    if (test.status !== 'failed' && test.status !== 'timedOut' && test.status !== 'flaky') {
       return {
         content: [
           {
@@ -367,12 +689,18 @@ class PlaywrightOrchestratorServer {
       testId: test.testId,
       testName: test.testName,
       file: test.file,
+      line: test.line,
+      status: test.status,
       error: test.error,
+      attempts: test.attempts,
       category: this.categorizeFailure(test.error?.message || ''),
       suggestedFix: this.suggestFix(test.error?.message || ''),
       evidence: {
         screenshot: test.error?.screenshot,
         trace: test.error?.trace,
+        videos: test.attachments.videos,
+        stdout: test.stdout,
+        stderr: test.stderr,
       },
     };
 
@@ -412,12 +740,172 @@ class PlaywrightOrchestratorServer {
     return 'Unknown error. Review error message and stack trace for details.';
   }
 
-  private async listTestRuns() {
-    const runs = Array.from(this.testRuns.entries()).map(([runId, run]) => ({
-      runId,
-      summary: run.summary,
-      artifactsPath: run.artifacts,
-    }));
+  private async correlateRunWithChecklist(args: Record<string, unknown>) {
+    const { runId, featureId, write = true, actor } = args;
+
+    if (!runId || typeof runId !== 'string') {
+      throw new Error('runId is required and must be a string');
+    }
+    if (featureId !== undefined && typeof featureId !== 'string') {
+      throw new Error('featureId must be a string');
+    }
+    if (actor !== undefined && typeof actor !== 'string') {
+      throw new Error('actor must be a string');
+    }
+
+    const testRun = this.runStore.get(runId, featureId);
+    if (!testRun) {
+      throw new Error(`Test run not found: ${runId}`);
+    }
+
+    // The orchestrator's lock, so the checklist cannot change under us and
+    // the write is versioned and logged like any other artifact write
+    const workspacePath = this.runStore.workspaceDir(testRun.featureId);
+    const release = await lockWorkspace(workspacePath);
+    try {
+      const checklistPath = join(workspacePath, 'checklist.json');
+      if (!existsSync(checklistPath)) {
+        throw new Error(`checklist.json not found in workspace: ${testRun.featureId}`);
+      }
+
+      const checklist = JSON.parse(readFileSync(checklistPath, 'utf-8'));
+      if (!Array.isArray(checklist.items)) {
+        throw new Error('checklist.json has no items array');
+      }
+
+      const results = correlateRun(testRun, checklist);
+
+      const written = write
+        ? writeWorkspaceArtifact(
+            workspacePath,
+            testRun.featureId,
+            'playwright-results.json',
+            JSON.stringify(results, null, 2),
+            {
+              tool: 'correlate_run_with_checklist',
+              actor: actor || (this.server.getClientVersion()?.name ?? 'unknown'),
+            }
+          )
+        : undefined;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                overall_status: results.overall_status,
+                total_tests: results.total_tests,
+                passed: results.passed,
+                failed: results.failed,
+                checklist_correlation: results.checklist_correlation,
+                coverage_summary: results.coverage_summary,
+                path: written?.path,
+                version: written?.version,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } finally {
+      release();
+    }
+  }
+
+  private async getTestHistory(args: Record<string, unknown>) {
+    const { featureId, testId, tag, limit = 10 } = args;
+
+    if (!featureId || typeof featureId !== 'string') {
+      throw new Error('featureId is required and must be a string');
+    }
+    if (testId !== undefined && typeof testId !== 'string') {
+      throw new Error('testId must be a string');
+    }
+    if (tag !== undefined && typeof tag !== 'string') {
+      throw new Error('tag must be a string');
+    }
+    if (!testId && !tag) {
+      throw new Error('Either testId or tag is required');
+    }
+    if (typeof limit !== 'number') {
+      throw new Error('limit must be a number');
+    }
+
+    const runs = this.runStore.load(featureId, limit);
+    const tests = buildTestHistory(runs, { testId, tag });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ featureId, runsAnalyzed: runs.length, tests }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async detectFlakyTests(args: Record<string, unknown>) {
+    const { featureId, limit = 20 } = args;
+
+    if (!featureId || typeof featureId !== 'string') {
+      throw new Error('featureId is required and must be a string');
+    }
+    if (typeof limit !== 'number') {
+      throw new Error('limit must be a number');
+    }
+
+    const runs = this.runStore.load(featureId, limit);
+    const flakyTests = detectFlakyTests(runs);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ featureId, runsAnalyzed: runs.length, flakyTests }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async scanTestTags(args: Record<string, unknown>) {
+    const { testDir = this.projectConfig.get().testDirectory, featureId } = args;
+
+    if (typeof testDir !== 'string') {
+      throw new Error('testDir must be a string');
+    }
+    if (featureId !== undefined && typeof featureId !== 'string') {
+      throw new Error('featureId must be a string');
+    }
+    const testPath = resolveInSandbox(testDir, process.cwd(), ['.']);
+    if (!existsSync(testPath)) {
+      throw new Error(`Test directory not found: ${testDir}`);
+    }
+
+    const index = scanTestTags(process.cwd(), relative(process.cwd(), testPath), featureId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(index, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async listTestRuns(args: Record<string, unknown>) {
+    const { featureId, limit } = args;
+
+    if (featureId !== undefined && typeof featureId !== 'string') {
+      throw new Error('featureId must be a string');
+    }
+    if (limit !== undefined && typeof limit !== 'number') {
+      throw new Error('limit must be a number');
+    }
+
+    const runs = this.runStore.list(featureId).slice(0, limit);
 
     return {
       content: [
@@ -437,7 +925,7 @@ class PlaywrightOrchestratorServer {
     retries?: number;
     workers?: number;
     timeout?: number;
-  }): Promise<Omit<TestRunResult, 'runId'>> {
+  }): Promise<ParsedRun> {
     const {
       grep,
       baseURL,
@@ -448,35 +936,42 @@ class PlaywrightOrchestratorServer {
       timeout = 30000,
     } = options;
 
-    // Build Playwright command
-    const args = [
-      'playwright',
-      'test',
-      '--grep',
+    // Build Playwright command from tests.e2e in the project config
+    const { command, tagFlag } = this.projectConfig.get();
+    const [bin, ...args] = command;
+    args.push(
+      tagFlag,
       grep,
       '--reporter=json',
-      '--project',
-      browser,
       '--retries',
       retries.toString(),
       '--workers',
       workers.toString(),
       '--timeout',
-      timeout.toString(),
-    ];
+      timeout.toString()
+    );
 
-    if (!headed) {
-      args.push('--headed=false');
+    if (browser !== 'all') {
+      args.push('--project', browser);
+    }
+    if (headed) {
+      args.push('--headed');
     }
 
+    // The json reporter writes to this file instead of stdout, so webServer
+    // and global setup logs cannot corrupt the report
+    const reportDir = mkdtempSync(join(tmpdir(), 'playwright-orchestrator-'));
+    const jsonReport = join(reportDir, 'report.json');
+
     // Set environment variables
     const env = {
       ...process.env,
       BASE_URL: baseURL,
+      PLAYWRIGHT_JSON_OUTPUT_NAME: jsonReport,
     };
 
     return new Promise((resolve, reject) => {
-      const proc = spawn('npx', args, {
+      const proc = spawn(bin, args, {
         env,
         cwd: process.cwd(),
       });
@@ -494,92 +989,30 @@ class PlaywrightOrchestratorServer {
 
       proc.on('close', (code) => {
         try {
-          // Parse Playwright JSON output
-          const results = this.parsePlaywrightOutput(stdout);
-          resolve(results);
+          const report = existsSync(jsonReport)
+            ? JSON.parse(readFileSync(jsonReport, 'utf-8'))
+            : findJsonReport(stdout);
+
+          if (!report) {
+            resolve(emptyRun());
+            return;
+          }
+
+          resolve(parsePlaywrightReport(report));
         } catch (error) {
           reject(new Error(`Failed to parse test results: ${error}\n\nStderr: ${stderr}`));
+        } finally {
+          rmSync(reportDir, { recursive: true, force: true });
         }
       });
 
       proc.on('error', (error) => {
+        rmSync(reportDir, { recursive: true, force: true });
         reject(new Error(`Failed to execute Playwright: ${error.message}`));
       });
     });
   }
 
-  private parsePlaywrightOutput(output: string): Omit<TestRunResult, 'runId'> {
-    // This is a simplified parser. In production, you'd use Playwright's JSON reporter output
-    // For now, return a mock structure that matches the expected format
-
-    // Try to find JSON in output
-    const jsonMatch = output.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      // Return empty result if no tests found
-      return {
-        summary: {
-          total: 0,
-          passed: 0,
-          failed: 0,
-          skipped: 0,
-          duration: 0,
-        },
-        results: [],
-        artifacts: {
-          screenshots: [],
-          traces: [],
-        },
-      };
-    }
-
-    try {
-      const data = JSON.parse(jsonMatch[0]);
-
-      // Transform Playwright JSON to our format
-      const results: TestResult[] = (data.suites || []).flatMap((suite: any) =>
-        (suite.specs || []).map((spec: any) => ({
-          testId: spec.id || `test-${Date.now()}-${Math.random()}`,
-          testName: spec.title || 'Untitled test',
-          file: spec.file || 'unknown',
-          line: spec.line,
-          status: spec.ok ? 'passed' : 'failed',
-          duration: spec.duration || 0,
-          tags: this.extractTags(spec.title || ''),
-          error: spec.error
-            ? {
-                message: spec.error.message || 'Unknown error',
-                stack: spec.error.stack,
-              }
-            : undefined,
-        }))
-      );
-
-      const summary = {
-        total: results.length,
-        passed: results.filter((r) => r.status === 'passed').length,
-        failed: results.filter((r) => r.status === 'failed').length,
-        skipped: results.filter((r) => r.status === 'skipped').length,
-        duration: results.reduce((sum, r) => sum + r.duration, 0),
-      };
-
-      return {
-        summary,
-        results,
-        artifacts: {
-          screenshots: [],
-          traces: [],
-        },
-      };
-    } catch (error) {
-      throw new Error(`Failed to parse JSON output: ${error}`);
-    }
-  }
-
-  private extractTags(testName: string): string[] {
-    const tagPattern = /@[\w-]+/g;
-    return testName.match(tagPattern) || [];
-  }
-
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -0,0 +1,99 @@
+/**
+ * Project config reader for the Playwright orchestrator.
+ *
+ * Loads the shared `.claude/feature-orchestrator.yml` through the loader in
+ * `@feature-orchestrator/mcp-shared`, which all three servers use, and picks
+ * the values this server uses. The file is re-read whenever it changes on
+ * disk; invalid values and parse errors are handled and reported the same
+ * way in every server.
+ */
+
+import { join } from 'path';
+import {
+  LoadedConfig,
+  ProjectConfig,
+  ProjectConfigStore as ConfigFileStore,
+} from '@feature-orchestrator/mcp-shared';
+import { DEFAULT_RETENTION, RetentionPolicy } from './run-store.js';
+
+export interface PlaywrightSettings {
+  /** Command that runs Playwright, split into argv */
+  command: string[];
+  tagFlag: string;
+  testDirectory: string;
+  baseURL: string;
+  /** How many stored runs to keep per feature */
+  runRetention: RetentionPolicy;
+  app?: {
+    command: string;
+    readyUrl?: string;
+    port?: number;
+    timeout?: number;
+    cwd?: string;
+  };
+}
+
+/**
+ * Splits a command line into argv, honoring single and double quotes.
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command)) !== null) {
+    args.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : (match[2] ?? match[3]));
+  }
+  return args;
+}
+
+/**
+ * Picks this server's settings from a resolved config, whose defaults the
+ * shared loader has already filled in.
+ */
+export function resolveSettings(config: ProjectConfig): PlaywrightSettings {
+  const e2e = config.tests?.e2e;
+  const retention = e2e?.run_retention;
+
+  return {
+    command: splitCommand(e2e?.command ?? 'npx playwright test'),
+    tagFlag: e2e?.tag_flag ?? '--grep',
+    testDirectory: e2e?.test_directory ?? 'tests/e2e',
+    baseURL: config.default_feature_env?.base_url ?? 'http://localhost:3000',
+    runRetention: {
+      maxRunsPerFeature: retention?.max_runs_per_feature ?? DEFAULT_RETENTION.maxRunsPerFeature,
+      maxAgeDays: retention?.max_age_days ?? DEFAULT_RETENTION.maxAgeDays,
+    },
+    app: config.app
+      ? {
+          command: config.app.command,
+          readyUrl: config.app.ready_url,
+          port: config.app.port,
+          timeout: config.app.timeout,
+          cwd: config.app.cwd,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Resolves the settings from the shared config store, again whenever the
+ * file changes.
+ */
+export class ProjectConfigStore {
+  private readonly file: ConfigFileStore;
+  private loaded: LoadedConfig | null = null;
+  private settings!: PlaywrightSettings;
+
+  constructor(projectRoot: string) {
+    this.file = new ConfigFileStore(join(projectRoot, '.claude', 'feature-orchestrator.yml'));
+  }
+
+  get(): PlaywrightSettings {
+    const loaded = this.file.get();
+    if (loaded !== this.loaded) {
+      this.loaded = loaded;
+      this.settings = resolveSettings(loaded.config);
+    }
+    return this.settings;
+  }
+}
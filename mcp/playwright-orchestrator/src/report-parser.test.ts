@@ -0,0 +1,223 @@
+import type { JSONReport } from '@playwright/test/reporter';
+import { describe, expect, it } from 'vitest';
+import { extractTags, findJsonReport, parsePlaywrightReport } from './report-parser.js';
+
+function result(status: string, overrides: Record<string, unknown> = {}) {
+  return {
+    retry: 0,
+    status,
+    duration: 100,
+    stdout: [],
+    stderr: [],
+    attachments: [],
+    ...overrides,
+  };
+}
+
+function spec(id: string, title: string, tests: unknown[], overrides: Record<string, unknown> = {}) {
+  return { id, title, file: 'auth.spec.ts', line: 10, tags: [], tests, ...overrides };
+}
+
+function test(status: string, results: unknown[], projectName = 'chromium') {
+  return { projectName, status, results };
+}
+
+function report(suites: unknown[], projects = [{ name: 'chromium' }]): JSONReport {
+  return {
+    config: { projects },
+    suites,
+    errors: [],
+    stats: { duration: 1234 },
+  } as unknown as JSONReport;
+}
+
+describe('extractTags', () => {
+  it('finds tags anywhere in the title', () => {
+    expect(extractTags('@feature-2fa resets @AC1 codes')).toEqual(['@feature-2fa', '@AC1']);
+    expect(extractTags('untagged')).toEqual([]);
+  });
+});
+
+describe('findJsonReport', () => {
+  it('parses a bare report', () => {
+    expect(findJsonReport('{"suites": []}')).toEqual({ suites: [] });
+  });
+
+  it('skips output printed before the report', () => {
+    const output = 'Starting web server...\nListening on 3000\n{\n  "suites": []\n}\n';
+    expect(findJsonReport(output)).toEqual({ suites: [] });
+  });
+
+  it('returns null without a report', () => {
+    expect(findJsonReport('  \n')).toBeNull();
+    expect(findJsonReport('Error: no tests found')).toBeNull();
+  });
+});
+
+describe('parsePlaywrightReport', () => {
+  it('flattens nested describe suites into title paths', () => {
+    const parsed = parsePlaywrightReport(
+      report([
+        {
+          title: 'auth.spec.ts',
+          specs: [spec('s1', 'top level', [test('expected', [result('passed')])])],
+          suites: [
+            {
+              title: '2FA @feature-2fa',
+              specs: [],
+              suites: [
+                {
+                  title: 'reset',
+                  specs: [spec('s2', 'sends a code @AC1', [test('expected', [result('passed')])])],
+                },
+              ],
+            },
+          ],
+        },
+      ])
+    );
+
+    expect(parsed.results.map((r) => [r.testId, r.titlePath, r.tags])).toEqual([
+      ['s1', ['top level'], []],
+      ['s2', ['2FA @feature-2fa', 'reset', 'sends a code @AC1'], ['@feature-2fa', '@AC1']],
+    ]);
+    expect(parsed.results[0].project).toBe('chromium');
+    expect(parsed.summary).toMatchObject({ total: 2, passed: 2, duration: 1234 });
+  });
+
+  it('merges tag annotations with title tags', () => {
+    const parsed = parsePlaywrightReport(
+      report([
+        {
+          title: 'auth.spec.ts',
+          specs: [spec('s1', 'resets @AC1', [test('expected', [result('passed')])], { tags: ['AC1', '@smoke'] })],
+        },
+      ])
+    );
+
+    expect(parsed.results[0].tags).toEqual(['@AC1', '@smoke']);
+  });
+
+  it('maps outcomes and attempts to statuses', () => {
+    const parsed = parsePlaywrightReport(
+      report([
+        {
+          title: 'auth.spec.ts',
+          specs: [
+            spec('flaky', 'flaky', [
+              test('flaky', [
+                result('failed', { error: { message: 'first try' } }),
+                result('passed', { retry: 1 }),
+              ]),
+            ]),
+            spec('timeout', 'times out', [test('unexpected', [result('timedOut', { error: { message: 'Timeout' } })])]),
+            spec('failed', 'fails', [test('unexpected', [result('failed', { error: { message: 'boom' } })])]),
+            spec('skipped', 'skipped', [test('skipped', [result('skipped')])]),
+            spec('fixme', 'fixme', [test('expected', [result('skipped')])]),
+          ],
+        },
+      ])
+    );
+
+    expect(parsed.results.map((r) => [r.testId, r.status])).toEqual([
+      ['flaky', 'flaky'],
+      ['timeout', 'timedOut'],
+      ['failed', 'failed'],
+      ['skipped', 'skipped'],
+      ['fixme', 'skipped'],
+    ]);
+    expect(parsed.summary).toMatchObject({ total: 5, passed: 0, failed: 1, timedOut: 1, flaky: 1, skipped: 2 });
+
+    const flaky = parsed.results[0];
+    expect(flaky.retries).toBe(1);
+    expect(flaky.duration).toBe(200);
+    expect(flaky.attempts).toEqual([
+      { retry: 0, status: 'failed', duration: 100, error: 'first try' },
+      { retry: 1, status: 'passed', duration: 100, error: undefined },
+    ]);
+    expect(flaky.error?.message).toBe('first try');
+  });
+
+  it('reports one result per project with project-qualified IDs', () => {
+    const parsed = parsePlaywrightReport(
+      report(
+        [
+          {
+            title: 'auth.spec.ts',
+            specs: [
+              spec('s1', 'logs in', [
+                test('expected', [result('passed')], 'chromium'),
+                test('unexpected', [result('failed', { error: { message: 'boom' } })], 'webkit'),
+              ]),
+            ],
+          },
+        ],
+        [{ name: 'chromium' }, { name: 'webkit' }]
+      )
+    );
+
+    expect(parsed.results.map((r) => [r.testId, r.project, r.status])).toEqual([
+      ['s1-chromium', 'chromium', 'passed'],
+      ['s1-webkit', 'webkit', 'failed'],
+    ]);
+  });
+
+  it('collects output and attachments, tying the failing attempt artifacts to the error', () => {
+    const parsed = parsePlaywrightReport(
+      report([
+        {
+          title: 'auth.spec.ts',
+          specs: [
+            spec('s1', 'fails', [
+              test('unexpected', [
+                result('failed', {
+                  error: { message: 'first', stack: 'at first' },
+                  stdout: [{ text: 'log ' }],
+                  attachments: [{ name: 'screenshot', contentType: 'image/png', path: '/out/first.png' }],
+                }),
+                result('failed', {
+                  retry: 1,
+                  error: { message: 'second', stack: 'at second' },
+                  stdout: [{ buffer: Buffer.from('retry').toString('base64') }],
+                  stderr: [{ text: 'warn' }],
+                  attachments: [
+                    { name: 'screenshot', contentType: 'image/png', path: '/out/second.png' },
+                    { name: 'trace', contentType: 'application/zip', path: '/out/trace.zip' },
+                    { name: 'video', contentType: 'video/webm', path: '/out/video.webm' },
+                    { name: 'inline', contentType: 'text/plain', body: 'no path' },
+                  ],
+                }),
+              ]),
+            ]),
+          ],
+        },
+      ])
+    );
+
+    const [failed] = parsed.results;
+    expect(failed.stdout).toBe('log retry');
+    expect(failed.stderr).toBe('warn');
+    expect(failed.attachments).toEqual({
+      screenshots: ['/out/first.png', '/out/second.png'],
+      traces: ['/out/trace.zip'],
+      videos: ['/out/video.webm'],
+    });
+    expect(failed.error).toEqual({
+      message: 'second',
+      stack: 'at second',
+      screenshot: '/out/second.png',
+      trace: '/out/trace.zip',
+    });
+    expect(parsed.artifacts.traces).toEqual(['/out/trace.zip']);
+  });
+
+  it('keeps errors reported outside any test', () => {
+    const parsed = parsePlaywrightReport({
+      ...report([]),
+      errors: [{ message: 'Error in global setup' }, {}],
+    } as unknown as JSONReport);
+
+    expect(parsed.errors).toEqual(['Error in global setup', 'Unknown error']);
+    expect(parsed.summary.total).toBe(0);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Playwright JSON reporter parser.
+ *
+ * Walks the full report tree (nested describe suites, one entry per project,
+ * every retry attempt) and flattens it into TestResults with per-test
+ * stdout/stderr and attachment paths.
+ */
+
+import type {
+  JSONReport,
+  JSONReportSpec,
+  JSONReportSuite,
+  JSONReportTest,
+  JSONReportTestResult,
+} from '@playwright/test/reporter';
+import type { ParsedRun, TestAttempt, TestResult } from './types.js';
+
+export function emptyRun(): ParsedRun {
+  return {
+    summary: { total: 0, passed: 0, failed: 0, timedOut: 0, flaky: 0, skipped: 0, duration: 0 },
+    results: [],
+    artifacts: { screenshots: [], traces: [], videos: [] },
+    errors: [],
+  };
+}
+
+export function extractTags(testName: string): string[] {
+  return testName.match(/@[\w-]+/g) || [];
+}
+
+/**
+ * Locates the JSON report in reporter stdout. The json reporter prints the
+ * report as a single object, but global setup or webServer output may precede it.
+ */
+export function findJsonReport(output: string): JSONReport | null {
+  const trimmed = output.trim();
+  if (!trimmed) return null;
+
+  try {
+    return JSON.parse(trimmed) as JSONReport;
+  } catch {
+    // Fall through to scanning for the report object
+  }
+
+  const start = output.search(/^\{/m);
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  return JSON.parse(output.slice(start, end + 1)) as JSONReport;
+}
+
+function stdio(entries: JSONReportTestResult['stdout']): string {
+  return entries
+    .map((entry) => ('text' in entry ? entry.text : Buffer.from(entry.buffer, 'base64').toString('utf-8')))
+    .join('');
+}
+
+function attachmentsOf(results: JSONReportTestResult[], kind: 'screenshot' | 'trace' | 'video'): string[] {
+  return results.flatMap((result) =>
+    result.attachments
+      .filter((a) => a.path)
+      .filter((a) => {
+        if (kind === 'screenshot') return a.name === 'screenshot' || a.contentType.startsWith('image/');
+        if (kind === 'trace') return a.name === 'trace' || a.path!.endsWith('.zip');
+        return a.name === 'video' || a.contentType.startsWith('video/');
+      })
+      .map((a) => a.path!)
+  );
+}
+
+/**
+ * Maps Playwright's outcome (expected/unexpected/flaky/skipped) plus the final
+ * attempt status to our status. A test that is expected to fail and does
+ * counts as passed.
+ */
+function statusOf(test: JSONReportTest): TestResult['status'] {
+  const last = test.results[test.results.length - 1];
+
+  switch (test.status) {
+    case 'expected':
+      return last?.status === 'skipped' ? 'skipped' : 'passed';
+    case 'flaky':
+      return 'flaky';
+    case 'skipped':
+      return 'skipped';
+    case 'unexpected':
+      return last?.status === 'timedOut' ? 'timedOut' : 'failed';
+  }
+}
+
+function toTestResult(spec: JSONReportSpec, test: JSONReportTest, titlePath: string[], multiProject: boolean): TestResult {
+  const attempts: TestAttempt[] = test.results.map((result) => ({
+    retry: result.retry,
+    status: result.status ?? 'skipped',
+    duration: result.duration,
+    error: result.error?.message,
+  }));
+  const failing = [...test.results].reverse().find((r) => r.error);
+  const screenshots = attachmentsOf(test.results, 'screenshot');
+  const traces = attachmentsOf(test.results, 'trace');
+  const fullTitle = [...titlePath, spec.title].join(' ');
+  const specTags = (spec.tags || []).map((t) => (t.startsWith('@') ? t : `@${t}`));
+
+  return {
+    testId: multiProject && test.projectName ? `${spec.id}-${test.projectName}` : spec.id,
+    testName: spec.title,
+    titlePath: [...titlePath, spec.title],
+    file: spec.file,
+    line: spec.line,
+    project: test.projectName || undefined,
+    status: statusOf(test),
+    duration: test.results.reduce((sum, r) => sum + r.duration, 0),
+    retries: Math.max(0, test.results.length - 1),
+    tags: [...new Set([...extractTags(fullTitle), ...specTags])],
+    attempts,
+    stdout: stdio(test.results.flatMap((r) => r.stdout)) || undefined,
+    stderr: stdio(test.results.flatMap((r) => r.stderr)) || undefined,
+    attachments: {
+      screenshots,
+      traces,
+      videos: attachmentsOf(test.results, 'video'),
+    },
+    error: failing?.error
+      ? {
+          message: failing.error.message || 'Unknown error',
+          stack: failing.error.stack,
+          screenshot: attachmentsOf([failing], 'screenshot')[0],
+          trace: attachmentsOf([failing], 'trace')[0],
+        }
+      : undefined,
+  };
+}
+
+function collect(suite: JSONReportSuite, titlePath: string[], multiProject: boolean, out: TestResult[]) {
+  for (const spec of suite.specs || []) {
+    for (const test of spec.tests || []) {
+      out.push(toTestResult(spec, test, titlePath, multiProject));
+    }
+  }
+  for (const child of suite.suites || []) {
+    collect(child, [...titlePath, child.title], multiProject, out);
+  }
+}
+
+export function parsePlaywrightReport(report: JSONReport): ParsedRun {
+  const multiProject = (report.config?.projects || []).length > 1;
+  const results: TestResult[] = [];
+
+  // Top-level suites are files; their titles are file paths, not describe titles
+  for (const fileSuite of report.suites || []) {
+    collect(fileSuite, [], multiProject, results);
+  }
+
+  const count = (status: TestResult['status']) => results.filter((r) => r.status === status).length;
+
+  return {
+    summary: {
+      total: results.length,
+      passed: count('passed'),
+      failed: count('failed'),
+      timedOut: count('timedOut'),
+      flaky: count('flaky'),
+      skipped: count('skipped'),
+      duration: report.stats?.duration ?? results.reduce((sum, r) => sum + r.duration, 0),
+    },
+    results,
+    artifacts: {
+      screenshots: results.flatMap((r) => r.attachments.screenshots),
+      traces: results.flatMap((r) => r.attachments.traces),
+      videos: results.flatMap((r) => r.attachments.videos),
+    },
+    errors: (report.errors || []).map((e) => e.message || 'Unknown error'),
+  };
+}
@@ -0,0 +1,133 @@
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RetentionPolicy, RunStore } from './run-store.js';
+import type { TestRunResult } from './types.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function run(runId: string, featureId = 'feat-2fa', age = 0): TestRunResult {
+  return {
+    runId,
+    featureId,
+    startedAt: new Date(Date.now() - age).toISOString(),
+    summary: { total: 0, passed: 0, failed: 0, timedOut: 0, flaky: 0, skipped: 0, duration: 0 },
+    results: [],
+    artifacts: { screenshots: [], traces: [], videos: [] },
+    errors: [],
+  };
+}
+
+describe('RunStore', () => {
+  let root: string;
+  let workspaces: string;
+  let retention: RetentionPolicy;
+  let store: RunStore;
+
+  const createWorkspace = (featureId: string) => {
+    mkdirSync(join(workspaces, featureId), { recursive: true });
+    writeFileSync(join(workspaces, featureId, 'state.json'), '{}');
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'run-store-'));
+    workspaces = join(root, '.claude/feature-dev');
+    retention = { maxRunsPerFeature: 20, maxAgeDays: 30 };
+    store = new RunStore(root, () => retention);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('stores runs in the feature workspace', async () => {
+    createWorkspace('feat-2fa');
+
+    const { path } = await store.save(run('run-1'));
+
+    expect(path).toBe(join(workspaces, 'feat-2fa/runs/run-1.json'));
+    expect(store.get('run-1')).toMatchObject({ runId: 'run-1', featureId: 'feat-2fa' });
+    expect(store.get('run-1', 'feat-login')).toBeNull();
+    expect(readdirSync(join(workspaces, 'feat-2fa'))).toEqual(['runs', 'state.json']);
+  });
+
+  it('keeps runs of a feature without a workspace where the orchestrator does not look', async () => {
+    const { path } = await store.save(run('run-1'));
+
+    expect(path).toBe(join(workspaces, '.runs/feat-2fa/run-1.json'));
+    expect(existsSync(join(workspaces, 'feat-2fa'))).toBe(false);
+    expect(store.get('run-1', 'feat-2fa')).toMatchObject({ runId: 'run-1' });
+    expect(store.list().map((r) => r.runId)).toEqual(['run-1']);
+  });
+
+  it('finds runs from before and after the workspace was created', async () => {
+    await store.save(run('run-1', 'feat-2fa', 1000));
+    createWorkspace('feat-2fa');
+    await store.save(run('run-2'));
+
+    expect(store.list('feat-2fa').map((r) => r.runId)).toEqual(['run-2', 'run-1']);
+    expect(store.load('feat-2fa', 1).map((r) => r.runId)).toEqual(['run-2']);
+    expect(store.get('run-1')).not.toBeNull();
+  });
+
+  it('keeps only the newest runs per feature', async () => {
+    retention = { maxRunsPerFeature: 2, maxAgeDays: 30 };
+    createWorkspace('feat-2fa');
+    await store.save(run('run-1', 'feat-2fa', 3000));
+    writeFileSync(join(workspaces, 'feat-2fa/runs/run-1.app.log'), 'app output');
+    await store.save(run('run-2', 'feat-2fa', 2000));
+    await store.save(run('other', 'feat-login', 2500));
+
+    const { pruned } = await store.save(run('run-3', 'feat-2fa', 1000));
+
+    expect(pruned).toEqual(['run-1']);
+    expect(store.list('feat-2fa').map((r) => r.runId)).toEqual(['run-3', 'run-2']);
+    expect(existsSync(join(workspaces, 'feat-2fa/runs/run-1.app.log'))).toBe(false);
+    expect(store.list('feat-login')).toHaveLength(1);
+  });
+
+  it('prunes runs older than the maximum age, reading the policy on every save', async () => {
+    retention = { maxRunsPerFeature: 20, maxAgeDays: 60 };
+    createWorkspace('feat-2fa');
+    expect((await store.save(run('old', 'feat-2fa', 31 * DAY))).pruned).toEqual([]);
+
+    retention = { maxRunsPerFeature: 20, maxAgeDays: 30 };
+    const { pruned } = await store.save(run('new'));
+
+    expect(pruned).toEqual(['old']);
+  });
+
+  it('applies retention across both run directories', async () => {
+    retention = { maxRunsPerFeature: 1, maxAgeDays: 30 };
+    await store.save(run('run-1', 'feat-2fa', 1000));
+    createWorkspace('feat-2fa');
+
+    const { pruned } = await store.save(run('run-2'));
+
+    expect(pruned).toEqual(['run-1']);
+    expect(store.list().map((r) => r.runId)).toEqual(['run-2']);
+  });
+
+  it('waits for the workspace lock and releases it', async () => {
+    createWorkspace('feat-2fa');
+    const lock = join(workspaces, 'feat-2fa/.lock');
+    writeFileSync(lock, '1:orchestrator');
+
+    let saved = false;
+    const saving = store.save(run('run-1')).then(() => (saved = true));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(saved).toBe(false);
+
+    rmSync(lock);
+    await saving;
+    expect(existsSync(lock)).toBe(false);
+    expect(store.get('run-1')).not.toBeNull();
+  });
+
+  it('rejects run and feature IDs that leave the store', async () => {
+    expect(() => store.get('../state', 'feat-2fa')).toThrow(/is not a valid run ID/);
+    expect(() => store.get('run-1', '../feat')).toThrow(/is not a valid feature ID/);
+    await expect(store.save(run('run-1', '.runs'))).rejects.toThrow(/is not a valid feature ID/);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * On-disk store for test runs.
+ *
+ * Each run is written to `.claude/feature-dev/<featureId>/runs/<runId>.json`,
+ * inside the feature workspace the orchestrator already maintains, so run
+ * reports survive MCP server restarts between agent sessions. The store never
+ * creates a workspace, since the orchestrator's create_workspace would then
+ * refuse the feature ID; runs of a feature without one go to
+ * `.claude/feature-dev/.runs/<featureId>/` instead, which the orchestrator
+ * ignores, and are read from there alongside the workspace's runs.
+ *
+ * Writes and pruning hold the `.lock` of each directory they touch, the same
+ * lock the orchestrator holds while writing the workspace. Old runs are
+ * pruned per feature whenever a new run is saved, following the retention
+ * policy in the project config.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import {
+  PathOutsideSandboxError,
+  lockWorkspace,
+  resolveInSandbox,
+  workspaceDir,
+  writeFileAtomic,
+} from '@feature-orchestrator/mcp-shared';
+import type { TestRunResult } from './types.js';
+
+export interface RetentionPolicy {
+  /** Runs kept per feature; the newest are kept */
+  maxRunsPerFeature: number;
+  /** Runs older than this are pruned regardless of count */
+  maxAgeDays: number;
+}
+
+export interface RunSummary {
+  runId: string;
+  featureId: string;
+  acId?: string;
+  startedAt: string;
+  summary: TestRunResult['summary'];
+  path: string;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxRunsPerFeature: 20,
+  maxAgeDays: 30,
+};
+
+export class RunStore {
+  private readonly workspacesDir: string;
+  private readonly unassignedDir: string;
+
+  /**
+   * `retention` is called on every save, so edits to the project config
+   * apply to the next run.
+   */
+  constructor(
+    projectRoot: string,
+    private readonly retention: () => RetentionPolicy = () => DEFAULT_RETENTION
+  ) {
+    this.workspacesDir = join(projectRoot, '.claude', 'feature-dev');
+    this.unassignedDir = join(this.workspacesDir, '.runs');
+  }
+
+  /**
+   * The feature workspace directory (`.claude/feature-dev/<featureId>`).
+   */
+  workspaceDir(featureId: string): string {
+    return workspaceDir(this.workspacesDir, featureId);
+  }
+
+  /**
+   * Whether the feature orchestrator has created the feature's workspace.
+   */
+  hasWorkspace(featureId: string): boolean {
+    return existsSync(join(this.workspaceDir(featureId), 'state.json'));
+  }
+
+  /**
+   * The directory new runs of `featureId` are written to: the workspace's
+   * `runs/` if the workspace exists, `.runs/<featureId>` otherwise.
+   */
+  runsDir(featureId: string): string {
+    return this.hasWorkspace(featureId)
+      ? join(this.workspaceDir(featureId), 'runs')
+      : workspaceDir(this.unassignedDir, featureId);
+  }
+
+  /**
+   * Every directory runs of `featureId` may be stored in, workspace first.
+   */
+  private runDirs(featureId: string): string[] {
+    return [join(this.workspaceDir(featureId), 'runs'), workspaceDir(this.unassignedDir, featureId)];
+  }
+
+  private runFile(dir: string, runId: string): string {
+    if (runId.includes('/') || runId.includes('\\') || runId.startsWith('.')) {
+      throw new PathOutsideSandboxError(runId, [dir], 'is not a valid run ID');
+    }
+    return resolveInSandbox(`${runId}.json`, dir, [dir]);
+  }
+
+  /**
+   * Takes the locks of the directories holding runs of `featureId`, always
+   * in the order of runDirs. The workspace's runs are covered by the
+   * workspace lock.
+   */
+  private async lock(featureId: string): Promise<() => void> {
+    const releases = [
+      await lockWorkspace(this.workspaceDir(featureId)),
+      await lockWorkspace(workspaceDir(this.unassignedDir, featureId)),
+    ];
+    return () => releases.reverse().forEach((release) => release());
+  }
+
+  /**
+   * Persists a run and applies the retention policy to its feature.
+   * Returns the path of the run file and the ids of runs pruned as a result.
+   */
+  async save(run: TestRunResult): Promise<{ path: string; pruned: string[] }> {
+    const dir = this.runsDir(run.featureId);
+    const path = this.runFile(dir, run.runId);
+    mkdirSync(dir, { recursive: true });
+
+    const release = await this.lock(run.featureId);
+    try {
+      writeFileAtomic(path, JSON.stringify(run, null, 2));
+      return { path, pruned: this.prune(run.featureId) };
+    } finally {
+      release();
+    }
+  }
+
+  get(runId: string, featureId?: string): TestRunResult | null {
+    const featureIds = featureId ? [featureId] : this.featureIds();
+    for (const id of featureIds) {
+      for (const dir of this.runDirs(id)) {
+        const path = this.runFile(dir, runId);
+        if (existsSync(path)) {
+          return JSON.parse(readFileSync(path, 'utf-8')) as TestRunResult;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Lists stored runs, newest first.
+   */
+  list(featureId?: string): RunSummary[] {
+    const featureIds = featureId ? [featureId] : this.featureIds();
+    const runs: RunSummary[] = [];
+
+    for (const dir of featureIds.flatMap((id) => this.runDirs(id))) {
+      if (!existsSync(dir)) continue;
+
+      for (const file of readdirSync(dir)) {
+        if (!file.endsWith('.json')) continue;
+        const path = join(dir, file);
+        try {
+          const run = JSON.parse(readFileSync(path, 'utf-8')) as TestRunResult;
+          runs.push({
+            runId: run.runId,
+            featureId: run.featureId,
+            acId: run.acId,
+            startedAt: run.startedAt,
+            summary: run.summary,
+            path,
+          });
+        } catch {
+          // Skip unreadable run files
+        }
+      }
+    }
+
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Loads full run reports for a feature, newest first.
+   */
+  load(featureId: string, limit?: number): TestRunResult[] {
+    return this.list(featureId)
+      .slice(0, limit)
+      .map((run) => JSON.parse(readFileSync(run.path, 'utf-8')) as TestRunResult);
+  }
+
+  /**
+   * Removes runs beyond `maxRunsPerFeature` or older than `maxAgeDays`.
+   * The caller holds the feature's run locks.
+   */
+  private prune(featureId: string): string[] {
+    const { maxRunsPerFeature, maxAgeDays } = this.retention();
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const pruned: string[] = [];
+
+    this.list(featureId).forEach((run, index) => {
+      if (index >= maxRunsPerFeature || Date.parse(run.startedAt) < cutoff) {
+        unlinkSync(run.path);
+        const appLog = run.path.replace(/\.json$/, '.app.log');
+        if (existsSync(appLog)) unlinkSync(appLog);
+        pruned.push(run.runId);
+      }
+    });
+
+    return pruned;
+  }
+
+  private featureIds(): string[] {
+    const ids = [this.workspacesDir, this.unassignedDir].flatMap((dir) =>
+      existsSync(dir)
+        ? readdirSync(dir, { withFileTypes: true })
+            .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+            .map((entry) => entry.name)
+        : []
+    );
+    return [...new Set(ids)];
+  }
+}
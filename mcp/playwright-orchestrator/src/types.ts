@@ -0,0 +1,73 @@
+/**
+ * Test run types shared by the server, the report parser and the run store.
+ */
+
+export interface TestAttempt {
+  retry: number;
+  status: 'passed' | 'failed' | 'skipped' | 'timedOut' | 'interrupted';
+  duration: number;
+  error?: string;
+}
+
+export interface TestResult {
+  testId: string;
+  testName: string;
+  /** Enclosing describe titles followed by the test title */
+  titlePath: string[];
+  file: string;
+  line?: number;
+  project?: string;
+  /** `flaky` means the test failed at least once and then passed on retry */
+  status: 'passed' | 'failed' | 'skipped' | 'timedOut' | 'flaky';
+  duration: number;
+  retries: number;
+  tags: string[];
+  attempts: TestAttempt[];
+  stdout?: string;
+  stderr?: string;
+  attachments: {
+    screenshots: string[];
+    traces: string[];
+    videos: string[];
+  };
+  error?: {
+    message: string;
+    stack?: string;
+    screenshot?: string;
+    trace?: string;
+  };
+}
+
+export interface TestRunResult {
+  runId: string;
+  featureId: string;
+  /** Set when the run was scoped to a single acceptance criterion */
+  acId?: string;
+  startedAt: string;
+  /** HEAD commit, suffixed with a hash of uncommitted changes; null outside git */
+  codeRevision?: string | null;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    timedOut: number;
+    flaky: number;
+    skipped: number;
+    duration: number;
+  };
+  results: TestResult[];
+  artifacts: {
+    htmlReport?: string;
+    jsonReport?: string;
+    /** Output of the app server while it served this run */
+    appLog?: string;
+    screenshots: string[];
+    traces: string[];
+    videos: string[];
+  };
+  /** Errors reported outside any test (config, global setup, worker crashes) */
+  errors: string[];
+}
+
+/** A parsed report, before it is assigned an id and stored */
+export type ParsedRun = Omit<TestRunResult, 'runId' | 'featureId' | 'acId' | 'startedAt' | 'codeRevision'>;
@@ -0,0 +1,164 @@
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { breakStaleLock, lockWorkspace, writeFileAtomic } from './concurrency.js';
+
+const MINUTE_AGO = () => new Date(Date.now() - 60_000);
+
+describe('lockWorkspace', () => {
+  let workspace: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'lock-'));
+    lockPath = join(workspace, '.lock');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('lets one writer in at a time', async () => {
+    const order: string[] = [];
+    const release = await lockWorkspace(workspace);
+
+    const second = lockWorkspace(workspace).then((releaseSecond) => {
+      order.push('second');
+      releaseSecond();
+    });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    order.push('first');
+    release();
+    await second;
+
+    expect(order).toEqual(['first', 'second']);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('does not lock a workspace that does not exist', async () => {
+    const release = await lockWorkspace(join(workspace, 'missing'));
+    expect(release).not.toThrow();
+  });
+
+  it('times out while another writer holds the lock', async () => {
+    vi.useFakeTimers();
+    writeFileSync(lockPath, '1:other');
+
+    const taking = expect(lockWorkspace(workspace)).rejects.toMatchObject({ code: 'WORKSPACE_LOCKED' });
+    await vi.advanceTimersByTimeAsync(10_100);
+    await taking;
+    expect(readFileSync(lockPath, 'utf-8')).toBe('1:other');
+  });
+
+  it('breaks a lock left over by a crashed process', async () => {
+    writeFileSync(lockPath, '1:crashed');
+    utimesSync(lockPath, MINUTE_AGO(), MINUTE_AGO());
+
+    const release = await lockWorkspace(workspace);
+
+    expect(readFileSync(lockPath, 'utf-8')).toMatch(new RegExp(`^${process.pid}:`));
+    release();
+    expect(readdirSync(workspace)).toEqual([]);
+  });
+
+  it('keeps a long write from looking stale', async () => {
+    vi.useFakeTimers();
+    const release = await lockWorkspace(workspace);
+    const owner = readFileSync(lockPath, 'utf-8');
+
+    await vi.advanceTimersByTimeAsync(45_000);
+    expect(Date.now() - statSync(lockPath).mtimeMs).toBeLessThan(30_000);
+
+    const waiting = expect(lockWorkspace(workspace)).rejects.toMatchObject({ code: 'WORKSPACE_LOCKED' });
+    await vi.advanceTimersByTimeAsync(10_100);
+    await waiting;
+    expect(readFileSync(lockPath, 'utf-8')).toBe(owner);
+    release();
+  });
+
+  it('only releases its own lock', async () => {
+    const release = await lockWorkspace(workspace);
+    writeFileSync(lockPath, '1:other');
+
+    release();
+    expect(readFileSync(lockPath, 'utf-8')).toBe('1:other');
+  });
+});
+
+describe('breakStaleLock', () => {
+  let workspace: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'lock-'));
+    lockPath = join(workspace, '.lock');
+    writeFileSync(lockPath, '1:crashed');
+    utimesSync(lockPath, MINUTE_AGO(), MINUTE_AGO());
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('removes the stale lock that was seen', () => {
+    expect(breakStaleLock(lockPath, statSync(lockPath))).toBe(true);
+    expect(readdirSync(workspace)).toEqual([]);
+  });
+
+  it('leaves a lock that replaced the stale one in place', () => {
+    const seen = statSync(lockPath);
+    // Another waiter broke the stale lock and took a fresh one meanwhile
+    rmSync(lockPath);
+    writeFileSync(lockPath, '2:fresh');
+
+    expect(breakStaleLock(lockPath, seen)).toBe(false);
+    expect(readFileSync(lockPath, 'utf-8')).toBe('2:fresh');
+    expect(readdirSync(workspace)).toEqual(['.lock']);
+  });
+
+  it('leaves a lock whose holder touched it since', () => {
+    const seen = statSync(lockPath);
+    utimesSync(lockPath, new Date(), new Date());
+
+    expect(breakStaleLock(lockPath, seen)).toBe(false);
+    expect(readFileSync(lockPath, 'utf-8')).toBe('1:crashed');
+  });
+
+  it('does nothing when the lock is already gone', () => {
+    const seen = statSync(lockPath);
+    rmSync(lockPath);
+
+    expect(breakStaleLock(lockPath, seen)).toBe(false);
+    expect(readdirSync(workspace)).toEqual([]);
+  });
+});
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'atomic-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replaces the file without leaving temp files behind', () => {
+    const path = join(dir, 'state.json');
+    writeFileSync(path, 'old');
+
+    writeFileAtomic(path, 'new');
+
+    expect(readFileSync(path, 'utf-8')).toBe('new');
+    expect(readdirSync(dir)).toEqual(['state.json']);
+  });
+
+  it('cleans up when the target cannot be replaced', () => {
+    expect(() => writeFileAtomic(join(dir, 'missing', 'state.json'), 'new')).toThrow();
+    expect(() => writeFileAtomic(dir, 'new')).toThrow();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+});
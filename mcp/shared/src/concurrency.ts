@@ -0,0 +1,182 @@
+/**
+ * Safe concurrent writes to a feature workspace.
+ *
+ * Sub-agents working in parallel may each talk to their own server process,
+ * so in-process serialization is not enough. Mutating tools hold a lock file
+ * in the workspace for the whole read-modify-write, files are replaced
+ * atomically (temp file plus rename) so readers never see a partial write,
+ * and callers can pass the revision they last saw to detect changes made
+ * in between.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  Stats,
+  closeSync,
+  existsSync,
+  linkSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+  writeSync,
+} from 'fs';
+import { join } from 'path';
+import { OrchestratorError } from './errors.js';
+
+const LOCK_FILE = '.lock';
+const LOCK_TIMEOUT = 10_000;
+const LOCK_RETRY_INTERVAL = 25;
+/** A lock older than this is assumed to be left over from a crashed process */
+const STALE_LOCK_AGE = 30_000;
+/** How often the holder touches its lock so long writes never look stale */
+const LOCK_REFRESH_INTERVAL = STALE_LOCK_AGE / 3;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Writes `content` to a temp file next to `path` and renames it into place.
+ */
+export function writeFileAtomic(path: string, content: string) {
+  const tmpPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    writeFileSync(tmpPath, content);
+    renameSync(tmpPath, path);
+  } catch (error) {
+    rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+function isStale(stats: Stats): boolean {
+  return Date.now() - stats.mtimeMs > STALE_LOCK_AGE;
+}
+
+function holds(lockPath: string, owner: string): boolean {
+  try {
+    return readFileSync(lockPath, 'utf-8') === owner;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes the lock at `lockPath` that was seen as `stale`. Several waiters
+ * can see the same stale lock, and by the time one acts another may already
+ * have replaced it with a fresh one, so the lock is first renamed to a name
+ * only this call uses. If what was moved aside is not the stale lock that
+ * was seen (a different inode, or touched since), it is linked back, which
+ * fails rather than overwrite a lock taken in the meantime. Returns whether
+ * the stale lock was removed.
+ */
+export function breakStaleLock(lockPath: string, stale: Stats): boolean {
+  const asidePath = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+  try {
+    renameSync(lockPath, asidePath);
+  } catch {
+    return false; // Already broken or released by someone else
+  }
+
+  const moved = statSync(asidePath);
+  if (moved.ino === stale.ino && moved.dev === stale.dev && isStale(moved)) {
+    rmSync(asidePath, { force: true });
+    return true;
+  }
+  try {
+    linkSync(asidePath, lockPath);
+  } catch {
+    // Another waiter took the lock in between; the holder we moved aside
+    // notices on its next refresh that it no longer owns the lock file.
+  }
+  rmSync(asidePath, { force: true });
+  return false;
+}
+
+/**
+ * Takes the workspace lock, waiting for other writers to finish. Returns the
+ * function that releases it. If the workspace does not exist there is
+ * nothing to lock, and the caller's own existence checks report it.
+ *
+ * While held, the lock file's mtime is refreshed every
+ * LOCK_REFRESH_INTERVAL, so only the lock of a process that stopped running
+ * ever becomes stale.
+ */
+export async function lockWorkspace(workspacePath: string): Promise<() => void> {
+  const lockPath = join(workspacePath, LOCK_FILE);
+  const deadline = Date.now() + LOCK_TIMEOUT;
+  const owner = `${process.pid}:${randomUUID()}`;
+
+  for (;;) {
+    if (!existsSync(workspacePath)) {
+      return () => {};
+    }
+
+    try {
+      const fd = openSync(lockPath, 'wx');
+      writeSync(fd, owner);
+      closeSync(fd);
+
+      const refresh = setInterval(() => {
+        if (!holds(lockPath, owner)) return clearInterval(refresh);
+        try {
+          const now = new Date();
+          utimesSync(lockPath, now, now);
+        } catch {
+          // Released or workspace deleted since the check
+        }
+      }, LOCK_REFRESH_INTERVAL);
+      refresh.unref();
+
+      return () => {
+        clearInterval(refresh);
+        if (holds(lockPath, owner)) rmSync(lockPath, { force: true });
+      };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT') continue; // Workspace deleted meanwhile
+      if (code !== 'EEXIST') throw error;
+    }
+
+    try {
+      const stats = statSync(lockPath);
+      if (isStale(stats) && breakStaleLock(lockPath, stats)) {
+        continue;
+      }
+    } catch {
+      continue; // Released between the open and the stat
+    }
+
+    if (Date.now() > deadline) {
+      throw new OrchestratorError(
+        `Timed out after ${LOCK_TIMEOUT}ms waiting for another writer to release ${lockPath}`,
+        'WORKSPACE_LOCKED',
+        { lock: lockPath }
+      );
+    }
+    await sleep(LOCK_RETRY_INTERVAL);
+  }
+}
+
+/**
+ * Error raised when a write names an `expected_revision` that is no longer
+ * current. Details carry the current state so the caller can re-apply its
+ * change on top of it.
+ */
+export class RevisionConflictError extends OrchestratorError {
+  constructor(
+    message: string,
+    details: {
+      expected_revision: number;
+      current_revision: number;
+      artifact?: string;
+      current_state?: unknown;
+    }
+  ) {
+    super(message, 'REVISION_CONFLICT', details);
+  }
+}
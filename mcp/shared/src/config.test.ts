@@ -0,0 +1,143 @@
+import { mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, ProjectConfigStore, loadConfig, parseConfig } from './config.js';
+
+const CONFIG_PATH = '.claude/feature-orchestrator.yml';
+
+describe('parseConfig', () => {
+  it('merges the file over the defaults and records where each value came from', () => {
+    const loaded = parseConfig(
+      ['tests:', '  e2e:', '    command: npm run e2e', 'docs:', '  paths: [handbook]'].join('\n'),
+      CONFIG_PATH
+    );
+
+    expect(loaded).toMatchObject({ exists: true, valid: true, errors: [], warnings: [] });
+    expect(loaded.fallback).toBeUndefined();
+    expect(loaded.config.tests?.e2e).toMatchObject({ runner: 'playwright', command: 'npm run e2e' });
+    expect(loaded.config.docs?.paths).toEqual(['handbook']);
+    expect(loaded.sources['tests.e2e.command']).toBe('file');
+    expect(loaded.sources['tests.e2e.runner']).toBe('default');
+    expect(loaded.sources['docs.paths']).toBe('file');
+  });
+
+  it('reads top-level behavior keys as if they were under behavior', () => {
+    const loaded = parseConfig('max_iterations: 8\n', CONFIG_PATH);
+
+    expect(loaded.config.behavior?.max_iterations).toBe(8);
+    expect(loaded.sources['behavior.max_iterations']).toBe('file');
+  });
+
+  it('warns when a top-level behavior key is shadowed by behavior', () => {
+    const loaded = parseConfig('max_iterations: 8\nbehavior:\n  max_iterations: 2\n', CONFIG_PATH);
+
+    expect(loaded.config.behavior?.max_iterations).toBe(2);
+    expect(loaded.warnings).toEqual([
+      expect.objectContaining({ path: 'max_iterations', line: 1 }),
+    ]);
+  });
+
+  it('reports invalid values with their line and falls back to the defaults for them', () => {
+    const loaded = parseConfig(
+      ['behavior:', '  max_iterations: -1', '  create_branch: true'].join('\n'),
+      CONFIG_PATH
+    );
+
+    expect(loaded.valid).toBe(false);
+    expect(loaded.errors).toEqual([
+      expect.objectContaining({ path: 'behavior.max_iterations', line: 2 }),
+    ]);
+    expect(loaded.config.behavior?.max_iterations).toBe(DEFAULT_CONFIG.behavior?.max_iterations);
+    expect(loaded.sources['behavior.max_iterations']).toBe('default');
+    expect(loaded.config.behavior?.create_branch).toBe(true);
+    expect(loaded.fallback).toBeUndefined();
+  });
+
+  it('reports unknown keys without merging them', () => {
+    const loaded = parseConfig('behaviour:\n  max_iterations: 2\n', CONFIG_PATH);
+
+    expect([...loaded.errors, ...loaded.warnings]).toContainEqual(
+      expect.objectContaining({ line: 1 })
+    );
+    expect(loaded.config).not.toHaveProperty('behaviour');
+  });
+
+  it('falls back to the defaults when the file does not parse', () => {
+    const loaded = parseConfig('tests: [unclosed\n', CONFIG_PATH);
+
+    expect(loaded).toMatchObject({ exists: true, valid: false, fallback: 'defaults' });
+    expect(loaded.errors[0]).toMatchObject({ path: '(root)', line: expect.any(Number) });
+    expect(loaded.config).toEqual(parseConfig('', CONFIG_PATH).config);
+  });
+
+  it('rejects a file that is not a mapping', () => {
+    const loaded = parseConfig('- a\n- b\n', CONFIG_PATH);
+    expect(loaded).toMatchObject({ valid: false, fallback: 'defaults' });
+    expect(loaded.errors[0].message).toBe('Config must be a mapping of sections');
+  });
+});
+
+describe('loadConfig', () => {
+  it('uses the defaults without errors when there is no file', () => {
+    const loaded = loadConfig(join(tmpdir(), 'missing', 'feature-orchestrator.yml'));
+
+    expect(loaded).toMatchObject({ exists: false, valid: true, errors: [] });
+    expect(loaded.fallback).toBeUndefined();
+    expect(loaded.config.tests?.e2e?.test_directory).toBe('tests/e2e');
+  });
+});
+
+describe('ProjectConfigStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'config-'));
+    path = join(dir, 'feature-orchestrator.yml');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('re-reads the file when it changes', () => {
+    writeFileSync(path, 'behavior:\n  max_iterations: 4\n');
+    const store = new ProjectConfigStore(path);
+    expect(store.config.behavior?.max_iterations).toBe(4);
+
+    writeFileSync(path, 'behavior:\n  max_iterations: 12\n');
+    expect(store.config.behavior?.max_iterations).toBe(12);
+
+    unlinkSync(path);
+    expect(store.get()).toMatchObject({ exists: false });
+    expect(store.config.behavior?.max_iterations).toBe(DEFAULT_CONFIG.behavior?.max_iterations);
+  });
+
+  it('keeps the last config that parsed while the file is broken', () => {
+    writeFileSync(path, 'behavior:\n  max_iterations: 4\n');
+    const store = new ProjectConfigStore(path);
+
+    writeFileSync(path, 'behavior:\n  max_iterations: [4\n');
+    const broken = store.get();
+
+    expect(broken).toMatchObject({ valid: false, fallback: 'last_good' });
+    expect(broken.config.behavior?.max_iterations).toBe(4);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('using the last valid config'));
+
+    writeFileSync(path, 'behavior:\n  max_iterations: 6\n');
+    expect(store.get()).toMatchObject({ valid: true });
+    expect(store.get().fallback).toBeUndefined();
+    expect(store.config.behavior?.max_iterations).toBe(6);
+  });
+
+  it('uses the defaults for a broken file when nothing parsed before', () => {
+    writeFileSync(path, 'behavior: [\n');
+    const store = new ProjectConfigStore(path);
+
+    expect(store.get()).toMatchObject({ fallback: 'defaults' });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('using the defaults'));
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Project configuration (`.claude/feature-orchestrator.yml`).
+ *
+ * Parses the YAML file, validates it against the ProjectConfig schema with
+ * line-numbered errors, and merges it over the built-in defaults. Every
+ * resolved leaf value is tagged with where it came from, so agents can tell
+ * a project setting from a fallback.
+ *
+ * The docs, feature-orchestrator and playwright-orchestrator servers all
+ * read this file through this module, so they resolve it the same way.
+ */
+
+import Ajv, { ErrorObject } from 'ajv';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { LineCounter, isMap, isNode, isScalar, parseDocument } from 'yaml';
+import type { Document } from 'yaml';
+
+export interface ProjectConfig {
+  tests?: {
+    e2e?: {
+      runner: string;
+      command: string;
+      tag_flag?: string;
+      test_directory?: string;
+      /** Stored runs the Playwright orchestrator keeps per feature */
+      run_retention?: { max_runs_per_feature?: number; max_age_days?: number };
+    };
+    unit?: { runner: string; command: string };
+    integration?: { runner: string; command: string };
+  };
+  docs?: {
+    paths?: string[];
+    guidelines?: Record<string, string>;
+  };
+  default_feature_env?: {
+    base_url?: string;
+    api_base_url?: string;
+    test_user_email?: string;
+    test_user_password?: string;
+  };
+  /** How to start the app under test for E2E runs */
+  app?: {
+    command: string;
+    /** Defaults to default_feature_env.base_url */
+    ready_url?: string;
+    port?: number;
+    timeout?: number;
+    cwd?: string;
+  };
+  behavior?: {
+    auto_approve_plan?: boolean;
+    auto_approve_spec?: boolean;
+    create_branch?: boolean;
+    enable_hooks?: boolean;
+    max_iterations?: number;
+    /** Iterations a single phase may use out of max_iterations */
+    max_iterations_per_phase?: number;
+    /** Status a feature moves to when its iteration budget runs out */
+    on_iteration_limit?: 'paused' | 'failed';
+  };
+}
+
+export interface ConfigIssue {
+  /** Dotted path of the offending value, e.g. `tests.e2e.command` */
+  path: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface LoadedConfig {
+  exists: boolean;
+  config_path: string;
+  valid: boolean;
+  config: ProjectConfig;
+  /** Dotted leaf path -> whether the value came from the file or the defaults */
+  sources: Record<string, 'file' | 'default'>;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+  /**
+   * Set when the file exists but could not be parsed: whether the built-in
+   * defaults or the last config that parsed are in effect instead.
+   */
+  fallback?: 'defaults' | 'last_good';
+}
+
+export const DEFAULT_CONFIG: ProjectConfig = {
+  tests: {
+    e2e: {
+      runner: 'playwright',
+      command: 'npx playwright test',
+      tag_flag: '--grep',
+      test_directory: 'tests/e2e',
+      run_retention: { max_runs_per_feature: 20, max_age_days: 30 },
+    },
+    unit: { runner: 'vitest', command: 'npm run test:unit' },
+  },
+  docs: {
+    paths: ['docs', 'specs', 'design', 'architecture', 'README.md'],
+  },
+  default_feature_env: {
+    base_url: 'http://localhost:3000',
+  },
+  behavior: {
+    max_iterations: 5,
+    max_iterations_per_phase: 3,
+    on_iteration_limit: 'paused',
+  },
+};
+
+/**
+ * Behavior keys the README examples place at the top level of the file.
+ * They are read as if they were nested under `behavior`.
+ */
+const TOP_LEVEL_BEHAVIOR_KEYS = [
+  'auto_approve_plan',
+  'auto_approve_spec',
+  'create_branch',
+  'enable_hooks',
+  'max_iterations',
+];
+
+const nonEmptyString = { type: 'string', minLength: 1 };
+// e2e and unit have defaults, so a file may override just one field of them
+const runner = {
+  type: 'object',
+  additionalProperties: false,
+  properties: { runner: nonEmptyString, command: nonEmptyString },
+};
+
+const CONFIG_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    tests: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        e2e: {
+          ...runner,
+          properties: {
+            ...runner.properties,
+            tag_flag: nonEmptyString,
+            test_directory: nonEmptyString,
+            run_retention: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                max_runs_per_feature: { type: 'integer', minimum: 1 },
+                max_age_days: { type: 'integer', minimum: 1 },
+              },
+            },
+          },
+        },
+        unit: runner,
+        integration: { ...runner, required: ['runner', 'command'] },
+      },
+    },
+    docs: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        paths: { type: 'array', items: nonEmptyString },
+        guidelines: { type: 'object', additionalProperties: nonEmptyString },
+      },
+    },
+    default_feature_env: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        base_url: { type: 'string', pattern: '^https?://' },
+        api_base_url: { type: 'string', pattern: '^https?://' },
+        test_user_email: { type: 'string' },
+        test_user_password: { type: 'string' },
+      },
+    },
+    app: {
+      type: 'object',
+      required: ['command'],
+      additionalProperties: false,
+      properties: {
+        command: nonEmptyString,
+        ready_url: { type: 'string', pattern: '^https?://' },
+        port: { type: 'integer', minimum: 1, maximum: 65535 },
+        timeout: { type: 'integer', minimum: 1 },
+        cwd: nonEmptyString,
+      },
+    },
+    behavior: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        auto_approve_plan: { type: 'boolean' },
+        auto_approve_spec: { type: 'boolean' },
+        create_branch: { type: 'boolean' },
+        enable_hooks: { type: 'boolean' },
+        max_iterations: { type: 'integer', minimum: 1 },
+        max_iterations_per_phase: { type: 'integer', minimum: 1 },
+        on_iteration_limit: { enum: ['paused', 'failed'] },
+      },
+    },
+  },
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateConfig = ajv.compile(CONFIG_SCHEMA);
+
+type Path = Array<string | number>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function dotted(path: Path): string {
+  return path.join('.') || '(root)';
+}
+
+/**
+ * Finds the line/column of the YAML node at `path`, falling back to the
+ * nearest ancestor that exists in the document.
+ */
+function positionOf(
+  doc: Document,
+  lineCounter: LineCounter,
+  path: Path
+): { line: number; column: number } | undefined {
+  for (let p = path; ; p = p.slice(0, -1)) {
+    let node: unknown = p.length > 0 ? doc.getIn(p, true) : doc.contents;
+
+    // Point at the key rather than the value, so `key:` with an empty value still has a position
+    if (p.length > 0) {
+      const parent = p.length > 1 ? doc.getIn(p.slice(0, -1), true) : doc.contents;
+      if (isMap(parent)) {
+        const pair = parent.items.find((item) => isScalar(item.key) && item.key.value === p[p.length - 1]);
+        if (pair && isNode(pair.key)) node = pair.key;
+      }
+    }
+
+    if (isNode(node) && node.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+    if (p.length === 0) return undefined;
+  }
+}
+
+function instancePath(error: ErrorObject): Path {
+  return error.instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * Converts an ajv error into a config issue. Unknown keys are warnings;
+ * everything else is an error. `locate` maps a normalized path back to where
+ * the value sits in the YAML document.
+ */
+function schemaIssue(
+  error: ErrorObject,
+  locate: (path: Path) => Path
+): { issue: Omit<ConfigIssue, 'line' | 'column'>; yamlPath: Path; warning: boolean } {
+  const path = instancePath(error);
+
+  if (error.keyword === 'additionalProperties') {
+    const key = (error.params as { additionalProperty: string }).additionalProperty;
+    const keyPath = [...path, key];
+    return {
+      issue: { path: dotted(keyPath), message: `Unknown key "${key}" is ignored` },
+      yamlPath: locate(keyPath),
+      warning: true,
+    };
+  }
+
+  let message = error.message || 'is invalid';
+  if (error.keyword === 'required') {
+    message = `must have required property "${(error.params as { missingProperty: string }).missingProperty}"`;
+  } else if (error.keyword === 'pattern' && path[path.length - 1]?.toString().endsWith('url')) {
+    message = 'must be an http:// or https:// URL';
+  }
+
+  return { issue: { path: dotted(path), message }, yamlPath: locate(path), warning: false };
+}
+
+/**
+ * Deep-merges `file` over `defaults`. Objects merge key by key; arrays and
+ * scalars from the file replace the default outright.
+ */
+function mergeWithSources(
+  defaults: unknown,
+  file: unknown,
+  path: Path,
+  sources: Record<string, 'file' | 'default'>
+): unknown {
+  if (isPlainObject(defaults) && isPlainObject(file)) {
+    const merged: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(defaults), ...Object.keys(file)])) {
+      merged[key] = mergeWithSources(defaults[key], file[key], [...path, key], sources);
+    }
+    return merged;
+  }
+
+  const value = file !== undefined ? file : defaults;
+  markLeaves(value, path, file !== undefined ? 'file' : 'default', sources);
+  return value;
+}
+
+function markLeaves(value: unknown, path: Path, source: 'file' | 'default', sources: Record<string, 'file' | 'default'>) {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      markLeaves(child, [...path, key], source, sources);
+    }
+  } else if (value !== undefined) {
+    sources[dotted(path)] = source;
+  }
+}
+
+/** First line of a yaml error, without the position we report separately */
+function yamlMessage(message: string): string {
+  return message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+}
+
+function defaultsOnly(configPath: string, exists: boolean, errors: ConfigIssue[] = []): LoadedConfig {
+  const sources: Record<string, 'file' | 'default'> = {};
+  const config = mergeWithSources(DEFAULT_CONFIG, undefined, [], sources) as ProjectConfig;
+  return {
+    exists,
+    config_path: configPath,
+    valid: errors.length === 0,
+    config,
+    sources,
+    errors,
+    warnings: [],
+    ...(errors.length > 0 ? { fallback: 'defaults' as const } : {}),
+  };
+}
+
+/**
+ * Returns `value` without the values at `paths`, so the defaults apply in
+ * their place. Removed array items close up.
+ */
+function withoutPaths(value: unknown, paths: Path[]): unknown {
+  if (paths.some((path) => path.length === 0)) return undefined;
+  if (paths.length === 0 || typeof value !== 'object' || value === null) return value;
+
+  const child = (key: string | number, item: unknown) =>
+    withoutPaths(
+      item,
+      paths.filter((path) => String(path[0]) === String(key)).map((path) => path.slice(1))
+    );
+  if (Array.isArray(value)) {
+    return value.map((item, index) => child(index, item)).filter((item) => item !== undefined);
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .map(([key, item]) => [key, child(key, item)])
+      .filter(([, item]) => item !== undefined)
+  );
+}
+
+/**
+ * Parses and resolves config file content. A file that does not parse
+ * leaves the defaults in effect; values that fail the schema are reported
+ * and replaced by their defaults.
+ */
+export function parseConfig(content: string, configPath: string): LoadedConfig {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+
+  if (doc.errors.length > 0) {
+    return defaultsOnly(
+      configPath,
+      true,
+      doc.errors.map((error) => ({
+        path: '(root)',
+        line: error.linePos?.[0].line,
+        column: error.linePos?.[0].col,
+        message: yamlMessage(error.message),
+      }))
+    );
+  }
+
+  const data = doc.toJS() ?? {};
+  if (!isPlainObject(data)) {
+    return defaultsOnly(configPath, true, [
+      { path: '(root)', line: 1, column: 1, message: 'Config must be a mapping of sections' },
+    ]);
+  }
+
+  // Fold top-level behavior keys into `behavior`, remembering where they really live
+  const moved = new Set<string>();
+  const shadowed: string[] = [];
+  const normalized: Record<string, unknown> = { ...data };
+  for (const key of TOP_LEVEL_BEHAVIOR_KEYS) {
+    if (!(key in normalized)) continue;
+    const behavior = isPlainObject(normalized.behavior) ? { ...normalized.behavior } : {};
+    if (key in behavior) {
+      shadowed.push(key);
+    } else {
+      behavior[key] = normalized[key];
+      moved.add(key);
+    }
+    normalized.behavior = behavior;
+    delete normalized[key];
+  }
+  const locate = (path: Path): Path =>
+    path[0] === 'behavior' && typeof path[1] === 'string' && moved.has(path[1]) ? path.slice(1) : path;
+
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+  const invalidPaths: Path[] = [];
+
+  if (!validateConfig(normalized)) {
+    for (const error of validateConfig.errors || []) {
+      const { issue, yamlPath, warning } = schemaIssue(error, locate);
+      (warning ? warnings : errors).push({ ...issue, ...positionOf(doc, lineCounter, yamlPath) });
+      if (!warning) invalidPaths.push(instancePath(error));
+    }
+  }
+  for (const key of shadowed) {
+    warnings.push({
+      path: key,
+      ...positionOf(doc, lineCounter, [key]),
+      message: `Top-level "${key}" is ignored because behavior.${key} is also set`,
+    });
+  }
+  for (const warning of doc.warnings) {
+    warnings.push({
+      path: '(root)',
+      line: warning.linePos?.[0].line,
+      column: warning.linePos?.[0].col,
+      message: yamlMessage(warning.message),
+    });
+  }
+
+  // Unknown keys and invalid values are reported, not merged
+  const known = (value: unknown, schema: Record<string, unknown>): unknown => {
+    const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
+    if (!isPlainObject(value) || !properties || schema.additionalProperties !== false) return value;
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key in properties)
+        .map(([key, child]) => [key, known(child, properties[key])])
+    );
+  };
+
+  const sources: Record<string, 'file' | 'default'> = {};
+  const config = mergeWithSources(
+    DEFAULT_CONFIG,
+    withoutPaths(known(normalized, CONFIG_SCHEMA), invalidPaths),
+    [],
+    sources
+  ) as ProjectConfig;
+
+  return {
+    exists: true,
+    config_path: configPath,
+    valid: errors.length === 0,
+    config,
+    sources,
+    errors,
+    warnings,
+  };
+}
+
+export function loadConfig(configPath: string): LoadedConfig {
+  if (!existsSync(configPath)) {
+    return defaultsOnly(configPath, false);
+  }
+  return parseConfig(readFileSync(configPath, 'utf-8'), configPath);
+}
+
+/**
+ * Holds the project config loaded at startup and re-reads it whenever the
+ * file is created, changed or removed, so edits apply without restarting
+ * the server. A file that stops parsing keeps the last config that parsed
+ * in effect until it is fixed; its errors are still reported.
+ */
+export class ProjectConfigStore {
+  private loaded: LoadedConfig;
+  private stamp: string;
+
+  constructor(private readonly configPath: string) {
+    this.stamp = this.fileStamp();
+    this.loaded = loadConfig(configPath);
+    this.report();
+  }
+
+  private fileStamp(): string {
+    try {
+      const stat = statSync(this.configPath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return 'missing';
+    }
+  }
+
+  private report() {
+    for (const error of this.loaded.errors) {
+      console.error(`[config] ${this.configPath}:${error.line ?? '?'}: ${error.path} ${error.message}`);
+    }
+    if (this.loaded.fallback) {
+      const inEffect = this.loaded.fallback === 'last_good' ? 'the last valid config' : 'the defaults';
+      console.error(`[config] ${this.configPath} could not be parsed; using ${inEffect}`);
+    }
+  }
+
+  get(): LoadedConfig {
+    const stamp = this.fileStamp();
+    if (stamp !== this.stamp) {
+      this.stamp = stamp;
+      const previous = this.loaded;
+      this.loaded = loadConfig(this.configPath);
+      if (this.loaded.fallback && previous.exists && previous.fallback !== 'defaults') {
+        this.loaded = {
+          ...this.loaded,
+          config: previous.config,
+          sources: previous.sources,
+          fallback: 'last_good',
+        };
+      }
+      this.report();
+    }
+    return this.loaded;
+  }
+
+  get config(): ProjectConfig {
+    return this.get().config;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Errors that carry a machine-readable code and details payload.
+ * The servers return both to the caller so agents can react to the failure
+ * instead of parsing the message.
+ */
+export class OrchestratorError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly details: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,151 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  EventLog,
+  WorkspaceEvent,
+  applyChanges,
+  diffState,
+  filterEvents,
+  replayState,
+} from './events.js';
+
+function event(seq: number, fields: Partial<WorkspaceEvent> = {}): WorkspaceEvent {
+  return {
+    seq,
+    timestamp: `2026-01-0${seq}T00:00:00.000Z`,
+    feature_id: 'feat-2fa',
+    tool: 'update_state',
+    actor: 'orchestrator',
+    changes: [],
+    ...fields,
+  };
+}
+
+describe('diffState', () => {
+  it('lists changed, added and removed leaves by dotted path', () => {
+    const before = { status: 'in_progress', scope: { plan: 'a', tests: 'b' }, removed: 1 };
+    const after = { status: 'done', scope: { plan: 'a', docs: 'c' } };
+
+    expect(diffState(before, after)).toEqual([
+      { path: 'status', before: 'in_progress', after: 'done' },
+      { path: 'scope.tests', before: 'b', after: undefined },
+      { path: 'scope.docs', before: undefined, after: 'c' },
+      { path: 'removed', before: 1, after: undefined },
+    ]);
+  });
+
+  it('compares arrays as whole values', () => {
+    expect(diffState({ phases: ['a'] }, { phases: ['a'] })).toEqual([]);
+    expect(diffState({ phases: ['a'] }, { phases: ['a', 'b'] })).toEqual([
+      { path: 'phases', before: ['a'], after: ['a', 'b'] },
+    ]);
+  });
+
+  it('keeps new empty objects', () => {
+    expect(diffState({}, { scope: {} })).toEqual([{ path: 'scope', after: {} }]);
+  });
+});
+
+describe('applyChanges', () => {
+  it('sets, creates and deletes fields', () => {
+    const state: Record<string, unknown> = { status: 'in_progress', scope: { tests: 'b' } };
+
+    applyChanges(state, [
+      { path: 'status', before: 'in_progress', after: 'done' },
+      { path: 'scope.tests', before: 'b' },
+      { path: 'review.approved_by', after: 'lead' },
+    ]);
+
+    expect(state).toEqual({ status: 'done', scope: {}, review: { approved_by: 'lead' } });
+  });
+
+  it('does not share values with the change', () => {
+    const change = { path: 'phases', after: ['a'] };
+    const state: Record<string, unknown> = {};
+
+    applyChanges(state, [change]);
+    (state.phases as string[]).push('b');
+
+    expect(change.after).toEqual(['a']);
+  });
+});
+
+describe('replayState', () => {
+  it('rebuilds the state the diffs were taken from', () => {
+    const initial = { status: 'created', scope: {}, phases_completed: [] };
+    const next = { status: 'in_progress', scope: { plan: 'plan.md' }, phases_completed: ['plan'] };
+    const last = { status: 'in_progress', scope: {}, phases_completed: ['plan', 'build'] };
+
+    const events = [
+      event(1, { tool: 'create_workspace', changes: diffState(undefined, initial) }),
+      event(2, { changes: diffState(initial, next) }),
+      event(3, { tool: 'save_artifact' }),
+      event(4, { changes: diffState(next, last) }),
+    ];
+
+    expect(replayState(events)).toEqual(last);
+    expect(replayState(events.slice(0, 2))).toEqual(next);
+  });
+
+  it('needs the log to start with create_workspace', () => {
+    expect(replayState([])).toBeNull();
+    expect(replayState([event(1)])).toBeNull();
+  });
+});
+
+describe('filterEvents', () => {
+  const events = [
+    event(1, { tool: 'create_workspace', changes: [{ path: 'status', after: 'created' }] }),
+    event(2, { actor: 'planner', changes: [{ path: 'scope.plan', after: 'plan.md' }] }),
+    event(3, { tool: 'save_artifact', artifact: { name: 'plan.md' } }),
+    event(4, { changes: [{ path: 'scopes', after: [] }] }),
+  ];
+  const seqs = (filter: Parameters<typeof filterEvents>[1]) =>
+    filterEvents(events, filter).map((e) => e.seq);
+
+  it('filters by tool, actor and artifact', () => {
+    expect(seqs({ tool: 'update_state' })).toEqual([2, 4]);
+    expect(seqs({ actor: 'planner' })).toEqual([2]);
+    expect(seqs({ artifact: 'plan.md' })).toEqual([3]);
+  });
+
+  it('matches a state path and the paths below it only', () => {
+    expect(seqs({ path: 'scope' })).toEqual([2]);
+    expect(seqs({ path: 'scope.plan' })).toEqual([2]);
+  });
+
+  it('filters by time and sequence number', () => {
+    const since = '2026-01-02T00:00:00.000Z';
+    const until = '2026-01-03T00:00:00.000Z';
+    expect(seqs({ since, until })).toEqual([2, 3]);
+    expect(seqs({ after_seq: 2 })).toEqual([3, 4]);
+    expect(seqs({ after_seq: 0, tool: 'save_artifact' })).toEqual([3]);
+  });
+});
+
+describe('EventLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'events-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('numbers events and reads them back in order', () => {
+    const log = new EventLog(join(dir, 'events.jsonl'));
+    expect(log.read()).toEqual([]);
+
+    const entry = { feature_id: 'feat-2fa', actor: 'orchestrator', changes: [] };
+    const first = log.append({ ...entry, tool: 'create_workspace' });
+    const second = log.append({ ...entry, tool: 'update_state' });
+
+    expect([first.seq, second.seq]).toEqual([1, 2]);
+    expect(log.read()).toEqual([first, second]);
+    expect(Date.parse(first.timestamp)).not.toBeNaN();
+  });
+});
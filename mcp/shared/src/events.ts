@@ -0,0 +1,170 @@
+/**
+ * Append-only event log for a feature workspace (`events.jsonl`).
+ *
+ * Every mutating tool appends one event recording who changed what: the
+ * state fields that changed (before and after, by dotted path) and, for
+ * artifact writes, the content hash of the old and new artifact. Because the
+ * first event holds the full initial state, `state.json` can be rebuilt by
+ * replaying the log.
+ */
+
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+
+export interface StateChange {
+  /** Dotted path into state.json, e.g. `scope.implementation_scope` */
+  path: string;
+  /** Absent when the field did not exist before */
+  before?: unknown;
+  /** Absent when the field was removed */
+  after?: unknown;
+}
+
+export interface ArtifactVersion {
+  sha256: string;
+  size: number;
+}
+
+export interface ArtifactChange {
+  name: string;
+  /** Absent when the artifact was created */
+  before?: ArtifactVersion;
+  after?: ArtifactVersion;
+  /** Numbered revision the write produced (see versions.ts) */
+  version?: number;
+}
+
+export interface WorkspaceEvent {
+  seq: number;
+  timestamp: string;
+  feature_id: string;
+  tool: string;
+  actor: string;
+  changes: StateChange[];
+  artifact?: ArtifactChange;
+}
+
+export interface EventFilter {
+  tool?: string;
+  actor?: string;
+  /** Only events changing this state path or anything below it */
+  path?: string;
+  artifact?: string;
+  since?: string;
+  until?: string;
+  after_seq?: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lists the leaf-level differences between two states. Objects are compared
+ * key by key; arrays and scalars are compared as whole values.
+ */
+export function diffState(before: unknown, after: unknown, path = ''): StateChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffState(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+  if (isPlainObject(after) && before === undefined) {
+    // Keep empty objects, otherwise a replay would not recreate them
+    return Object.keys(after).length > 0 ? diffState({}, after, path) : [{ path, after }];
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path, before, after }];
+}
+
+/**
+ * Applies `changes` to `state` in place, creating intermediate objects as
+ * needed and deleting fields whose `after` is absent.
+ */
+export function applyChanges(state: Record<string, unknown>, changes: StateChange[]) {
+  for (const change of changes) {
+    const keys = change.path.split('.');
+    const last = keys.pop()!;
+    let target = state;
+    for (const key of keys) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+
+    if (change.after === undefined) {
+      delete target[last];
+    } else {
+      target[last] = structuredClone(change.after);
+    }
+  }
+}
+
+export function artifactVersion(content: string | Buffer): ArtifactVersion {
+  return {
+    sha256: createHash('sha256').update(content).digest('hex'),
+    size: Buffer.byteLength(content),
+  };
+}
+
+export class EventLog {
+  constructor(readonly path: string) {}
+
+  read(): WorkspaceEvent[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return readFileSync(this.path, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as WorkspaceEvent);
+  }
+
+  append(event: Omit<WorkspaceEvent, 'seq' | 'timestamp'>): WorkspaceEvent {
+    const events = this.read();
+    const entry: WorkspaceEvent = {
+      seq: events.length > 0 ? events[events.length - 1].seq + 1 : 1,
+      timestamp: new Date().toISOString(),
+      ...event,
+    };
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+    return entry;
+  }
+}
+
+export function filterEvents(events: WorkspaceEvent[], filter: EventFilter): WorkspaceEvent[] {
+  return events.filter(
+    (event) =>
+      (!filter.tool || event.tool === filter.tool) &&
+      (!filter.actor || event.actor === filter.actor) &&
+      (!filter.artifact || event.artifact?.name === filter.artifact) &&
+      (!filter.path ||
+        event.changes.some(
+          (c) => c.path === filter.path || c.path.startsWith(`${filter.path}.`)
+        )) &&
+      (!filter.since || event.timestamp >= filter.since) &&
+      (!filter.until || event.timestamp <= filter.until) &&
+      (filter.after_seq === undefined || event.seq > filter.after_seq)
+  );
+}
+
+/**
+ * Rebuilds the state by replaying `events` from the `create_workspace` event
+ * onwards. Returns null if the log does not start with one, e.g. for
+ * workspaces created before the log existed.
+ */
+export function replayState(events: WorkspaceEvent[]): Record<string, unknown> | null {
+  if (events.length === 0 || events[0].tool !== 'create_workspace') {
+    return null;
+  }
+
+  const state: Record<string, unknown> = {};
+  for (const event of events) {
+    applyChanges(state, event.changes);
+  }
+  return state;
+}
@@ -0,0 +1,13 @@
+/**
+ * Code shared by the docs, feature-orchestrator and playwright-orchestrator
+ * MCP servers, so that each behaves the same wherever they overlap.
+ */
+
+export * from './concurrency.js';
+export * from './config.js';
+export * from './errors.js';
+export * from './events.js';
+export * from './sandbox.js';
+export * from './tag-scanner.js';
+export * from './versions.js';
+export * from './workspace.js';
@@ -0,0 +1,108 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  PathOutsideSandboxError,
+  ReservedArtifactError,
+  artifactFile,
+  resolveInSandbox,
+  workspaceDir,
+} from './sandbox.js';
+
+describe('resolveInSandbox', () => {
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'sandbox-'));
+    outside = mkdtempSync(join(tmpdir(), 'outside-'));
+    mkdirSync(join(root, 'docs'));
+    writeFileSync(join(outside, 'secret.md'), 'secret');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  it('resolves relative and absolute paths inside a root', () => {
+    expect(resolveInSandbox('docs/a.md', root, ['.'])).toBe(join(root, 'docs/a.md'));
+    expect(resolveInSandbox(join(root, 'docs'), root, ['docs'])).toBe(join(root, 'docs'));
+  });
+
+  it('rejects paths that climb out of every root', () => {
+    expect(() => resolveInSandbox('../etc/passwd', root, ['.'])).toThrow(PathOutsideSandboxError);
+    expect(() => resolveInSandbox('/etc/passwd', root, ['.'])).toThrow(PathOutsideSandboxError);
+    expect(() => resolveInSandbox('README.md', root, ['docs'])).toThrow(PathOutsideSandboxError);
+  });
+
+  it('accepts roots outside the base', () => {
+    expect(resolveInSandbox(join(outside, 'secret.md'), root, ['.', outside])).toBe(
+      join(outside, 'secret.md')
+    );
+  });
+
+  it('rejects symlinks that lead out of the sandbox, including to files not yet created', () => {
+    symlinkSync(outside, join(root, 'docs/link'));
+
+    expect(() => resolveInSandbox('docs/link/secret.md', root, ['.'])).toThrow(PathOutsideSandboxError);
+    expect(() => resolveInSandbox('docs/link/new.md', root, ['.'])).toThrow(PathOutsideSandboxError);
+  });
+
+  it('reports the path and the sandbox with a code', () => {
+    try {
+      resolveInSandbox('../x', root, ['.']);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({
+        name: 'PathOutsideSandboxError',
+        code: 'PATH_OUTSIDE_SANDBOX',
+        details: { path: '../x', sandbox: [root] },
+      });
+    }
+  });
+});
+
+describe('workspaceDir', () => {
+  const workspaces = join(tmpdir(), 'feature-dev');
+
+  it('returns the directory of a feature', () => {
+    expect(workspaceDir(workspaces, 'feat-2fa')).toBe(join(workspaces, 'feat-2fa'));
+  });
+
+  it.each(['../feat', 'a/b', 'a\\b', '.deleted', '.', '..', 'feat\0'])('rejects "%s"', (featureId) => {
+    expect(() => workspaceDir(workspaces, featureId)).toThrow(/is not a valid feature ID/);
+  });
+});
+
+describe('artifactFile', () => {
+  const workspace = join(tmpdir(), 'feature-dev', 'feat-2fa');
+
+  it('allows nested artifacts', () => {
+    expect(artifactFile(workspace, 'reports/coverage.json', 'write')).toBe(
+      join(workspace, 'reports/coverage.json')
+    );
+  });
+
+  it('hides workspace bookkeeping', () => {
+    for (const name of ['.lock', '.versions/plan.md/1', 'reports/.hidden', '', '.', '../feat-other/plan.md']) {
+      expect(() => artifactFile(workspace, name)).toThrow(PathOutsideSandboxError);
+    }
+  });
+
+  it('lets server-owned files be read but not written', () => {
+    expect(artifactFile(workspace, 'state.json')).toBe(join(workspace, 'state.json'));
+    expect(() => artifactFile(workspace, 'state.json', 'write')).toThrow(ReservedArtifactError);
+    expect(() => artifactFile(workspace, 'events.jsonl', 'write')).toThrow(ReservedArtifactError);
+  });
+
+  it('keeps stored test runs read-only', () => {
+    expect(artifactFile(workspace, 'runs/run-1.json')).toBe(join(workspace, 'runs/run-1.json'));
+    expect(() => artifactFile(workspace, 'runs/run-1.json', 'write')).toThrow(ReservedArtifactError);
+    expect(() => artifactFile(workspace, 'reports/../runs/fake.json', 'write')).toThrow(ReservedArtifactError);
+    expect(artifactFile(workspace, 'reports/runs/summary.json', 'write')).toBe(
+      join(workspace, 'reports/runs/summary.json')
+    );
+  });
+});
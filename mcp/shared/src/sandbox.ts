@@ -0,0 +1,143 @@
+/**
+ * Path sandboxing for tool arguments.
+ *
+ * Feature IDs, artifact names, run IDs, test directories and doc paths
+ * arrive from LLM output, so every path built from them is resolved and
+ * checked against the directories the tool may touch before anything is
+ * read, written, scanned or spawned in. Existing paths are checked again
+ * after resolving symlinks, so a link inside the sandbox cannot lead out
+ * of it.
+ */
+
+import { existsSync, realpathSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { OrchestratorError } from './errors.js';
+
+/**
+ * Error raised when a path argument resolves outside the directories the
+ * tool is confined to. `sandbox` lists those directories.
+ */
+export class PathOutsideSandboxError extends OrchestratorError {
+  constructor(
+    path: string,
+    sandbox: string[],
+    reason = 'resolves outside the allowed directories'
+  ) {
+    super(`Path "${path}" ${reason}: ${sandbox.join(', ')}`, 'PATH_OUTSIDE_SANDBOX', {
+      path,
+      sandbox,
+    });
+  }
+}
+
+function contains(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/**
+ * Resolves symlinks in `path`, or in its closest existing ancestor when the
+ * path itself does not exist yet (e.g. an artifact about to be created).
+ */
+function realPath(path: string): string {
+  let existing = path;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+  const real = realpathSync(existing);
+  return existing === path ? real : resolve(real, relative(existing, path));
+}
+
+/**
+ * Resolves `path` against `base` and returns it if it lies inside one of
+ * `roots`, both before and after resolving symlinks. Absolute paths are
+ * accepted as long as they land inside a root.
+ */
+export function resolveInSandbox(path: string, base: string, roots: string[]): string {
+  const fullPath = resolve(base, path);
+  const resolvedRoots = roots.map((root) => resolve(base, root));
+
+  const inside = resolvedRoots.some(
+    (root) => contains(root, fullPath) && contains(realPath(root), realPath(fullPath))
+  );
+  if (!inside) {
+    throw new PathOutsideSandboxError(path, resolvedRoots);
+  }
+  return fullPath;
+}
+
+/**
+ * Returns the workspace directory for `featureId`. A feature ID is a single
+ * path segment; dot-prefixed names are reserved for the server's own
+ * directories such as `.deleted`.
+ */
+export function workspaceDir(workspacesDir: string, featureId: string): string {
+  if (
+    featureId.includes('/') ||
+    featureId.includes('\\') ||
+    featureId.startsWith('.') ||
+    featureId.includes('\0')
+  ) {
+    throw new PathOutsideSandboxError(featureId, [workspacesDir], 'is not a valid feature ID');
+  }
+  return resolveInSandbox(featureId, workspacesDir, [workspacesDir]);
+}
+
+/**
+ * Workspace files the server maintains itself. They can be read as
+ * artifacts but only change through their own tools (update_state,
+ * set_scope, the event log), which check the phase graph, the iteration
+ * budget and revisions.
+ */
+export const SERVER_OWNED_FILES: readonly string[] = ['state.json', 'scope.json', 'events.jsonl'];
+
+/**
+ * Workspace directories another server maintains: `runs/` holds the
+ * playwright-orchestrator's stored test runs, which the traceability matrix
+ * trusts as evidence. Like SERVER_OWNED_FILES, they are readable as
+ * artifacts but not writable.
+ */
+export const SERVER_OWNED_DIRS: readonly string[] = ['runs'];
+
+/**
+ * Error raised when a tool tries to write a server-owned workspace file as
+ * an artifact.
+ */
+export class ReservedArtifactError extends OrchestratorError {
+  constructor(name: string) {
+    super(
+      `Artifact "${name}" is maintained by the server and cannot be written as an artifact`,
+      'ARTIFACT_RESERVED',
+      {
+        artifact: name,
+        reserved: [...SERVER_OWNED_FILES, ...SERVER_OWNED_DIRS.map((dir) => `${dir}/`), '.lock', '.versions/'],
+      }
+    );
+  }
+}
+
+/**
+ * Returns the path of artifact `name` inside `workspacePath`. Dot-prefixed
+ * segments (`.versions`, `.lock`) are workspace bookkeeping and not
+ * reachable as artifacts; with `access` `write`, neither are the
+ * SERVER_OWNED_FILES or anything in SERVER_OWNED_DIRS.
+ */
+export function artifactFile(
+  workspacePath: string,
+  name: string,
+  access: 'read' | 'write' = 'read'
+): string {
+  const fullPath = resolveInSandbox(name, workspacePath, [workspacePath]);
+  const rel = relative(workspacePath, fullPath);
+  const segments = rel.split(/[\\/]/);
+  if (rel === '' || segments.some((segment) => segment.startsWith('.'))) {
+    throw new PathOutsideSandboxError(name, [workspacePath], 'is not a valid artifact name');
+  }
+  if (
+    access === 'write' &&
+    (SERVER_OWNED_FILES.includes(rel) || SERVER_OWNED_DIRS.includes(segments[0]))
+  ) {
+    throw new ReservedArtifactError(rel);
+  }
+  return fullPath;
+}
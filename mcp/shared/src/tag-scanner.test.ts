@@ -0,0 +1,180 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { scanSource, scanTestTags } from './tag-scanner.js';
+
+describe('scanSource', () => {
+  it('collects tags from titles, describe scopes and tag options', () => {
+    const source = `
+import { test, expect } from '@playwright/test';
+
+test.describe('2FA reset @feat-2fa', { tag: '@slow' }, () => {
+  test('sends a code @AC1', async ({ page }) => {
+    await page.goto('/reset');
+  });
+
+  test.describe('expired codes', () => {
+    test('rejects them', { tag: ['@AC2', '@AC3'] }, async () => {});
+  });
+});
+
+test('outside any describe', async () => {});
+`;
+
+    expect(scanSource(source, 'reset.spec.ts')).toEqual([
+      {
+        file: 'reset.spec.ts',
+        line: 5,
+        title: 'sends a code @AC1',
+        titlePath: ['2FA reset @feat-2fa', 'sends a code @AC1'],
+        tags: ['@feat-2fa', '@slow', '@AC1'],
+        modifiers: [],
+      },
+      {
+        file: 'reset.spec.ts',
+        line: 10,
+        title: 'rejects them',
+        titlePath: ['2FA reset @feat-2fa', 'expired codes', 'rejects them'],
+        tags: ['@feat-2fa', '@slow', '@AC2', '@AC3'],
+        modifiers: [],
+      },
+      {
+        file: 'reset.spec.ts',
+        line: 14,
+        title: 'outside any describe',
+        titlePath: ['outside any describe'],
+        tags: [],
+        modifiers: [],
+      },
+    ]);
+  });
+
+  it('records modifiers from the test and its describes', () => {
+    const source = `
+test.describe.serial('flow', () => {
+  test.skip('skipped', async () => {});
+  test.fixme('broken', async () => {});
+});
+test.only('focused', async () => {});
+`;
+
+    expect(scanSource(source, 'a.spec.ts').map((t) => [t.title, t.modifiers])).toEqual([
+      ['skipped', ['serial', 'skip']],
+      ['broken', ['serial', 'fixme']],
+      ['focused', ['only']],
+    ]);
+  });
+
+  it('ignores hooks, steps and other test members', () => {
+    const source = `
+test.beforeEach(async ({ page }) => {});
+test('real', async () => {
+  await test.step('a step @AC9', async () => {});
+  test.info().annotations.push({ type: 'note' });
+});
+test.use({ locale: 'de' });
+`;
+
+    expect(scanSource(source, 'a.spec.ts').map((t) => t.title)).toEqual(['real']);
+  });
+
+  it('is not confused by comments, strings and regex literals', () => {
+    const source = `
+// test('commented out @AC1', async () => {});
+/* test('also commented @AC2', async () => {}); */
+const quote = "test('in a string')";
+test.describe('scope @feat-x', () => {
+  const pattern = /[}'"]/g;
+  test(\`template \${quote} @AC3\`, async () => {
+    expect('}').toMatch(pattern);
+  });
+});
+test('after the scope', async () => {});
+`;
+
+    expect(scanSource(source, 'a.spec.ts').map((t) => [t.title, t.tags])).toEqual([
+      ['template  @AC3', ['@feat-x', '@AC3']],
+      ['after the scope', []],
+    ]);
+  });
+
+  it('does not scope tests under a describe whose callback is a reference', () => {
+    const source = `
+test.describe('shared @feat-x', sharedTests);
+test('standalone', async () => {});
+`;
+
+    expect(scanSource(source, 'a.spec.ts')).toEqual([
+      expect.objectContaining({ title: 'standalone', titlePath: ['standalone'], tags: [] }),
+    ]);
+  });
+});
+
+describe('scanTestTags', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'tag-scanner-'));
+    mkdirSync(join(root, 'e2e/auth'), { recursive: true });
+    mkdirSync(join(root, 'e2e/node_modules'), { recursive: true });
+    writeFileSync(
+      join(root, 'e2e/auth/reset.spec.ts'),
+      `
+test.describe('reset @feat-2fa', () => {
+  test('sends a code @AC1', async () => {});
+  test('resends a code @AC1 @AC1', async () => {});
+  test('audits @AC2', async () => {});
+  test('loads the page', async () => {});
+});
+test('logs in @feat-login @AC1', async () => {});
+`
+    );
+    writeFileSync(
+      join(root, 'e2e/misc.test.ts'),
+      `
+test('orphan @AC4', async () => {});
+test('untagged', async () => {});
+`
+    );
+    writeFileSync(join(root, 'e2e/helpers.ts'), `test('not a spec file', async () => {});`);
+    writeFileSync(join(root, 'e2e/node_modules/dep.spec.ts'), `test('vendored', async () => {});`);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('indexes tests by feature and AC and reports tagging problems', () => {
+    const index = scanTestTags(root, 'e2e');
+    const ref = (title: string) => expect.objectContaining({ title });
+
+    expect(index.filesScanned).toBe(2);
+    expect(index.totalTests).toBe(7);
+    expect(index.features['feat-2fa']).toEqual({
+      totalTests: 4,
+      acs: {
+        AC1: [ref('sends a code @AC1'), ref('resends a code @AC1 @AC1')],
+        AC2: [ref('audits @AC2')],
+      },
+      testsWithoutAc: [ref('loads the page')],
+    });
+    expect(index.features['feat-login'].acs).toEqual({ AC1: [ref('logs in @feat-login @AC1')] });
+    expect(index.duplicateAcTags).toEqual([
+      expect.objectContaining({ title: 'resends a code @AC1 @AC1', acTags: ['@AC1'] }),
+    ]);
+    expect(index.orphanedAcTags).toEqual([
+      { file: join('e2e', 'misc.test.ts'), line: 2, title: 'orphan @AC4', acTags: ['@AC4'] },
+    ]);
+    expect(index.untaggedTests).toEqual([ref('untagged')]);
+  });
+
+  it('limits the index to one feature', () => {
+    const index = scanTestTags(root, 'e2e', 'feat-login');
+
+    expect(Object.keys(index.features)).toEqual(['feat-login']);
+    expect(index.totalTests).toBe(1);
+    expect(index.untaggedTests).toEqual([]);
+    expect(index.orphanedAcTags).toEqual([]);
+  });
+});
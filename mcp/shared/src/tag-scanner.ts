@@ -0,0 +1,326 @@
+/**
+ * Static Playwright tag scanner.
+ *
+ * Parses spec files without running them and collects every `test(...)` call
+ * with its effective tags: tags in the test title, tags in enclosing
+ * `test.describe(...)` titles, and Playwright's `{ tag: [...] }` option on
+ * either. This is a lightweight tokenizer, not a full TypeScript parser; it
+ * understands the call shapes Playwright tests use in practice.
+ *
+ * The playwright-orchestrator and feature-orchestrator servers both use this
+ * module, so scan_test_tags and the coverage gate agree on which tags a test
+ * has.
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join, relative } from 'path';
+
+export interface ScannedTest {
+  file: string;
+  line: number;
+  title: string;
+  titlePath: string[];
+  tags: string[];
+  modifiers: string[];
+}
+
+export interface TagIndex {
+  filesScanned: number;
+  totalTests: number;
+  features: Record<
+    string,
+    {
+      totalTests: number;
+      acs: Record<string, Array<Pick<ScannedTest, 'file' | 'line' | 'title'>>>;
+      testsWithoutAc: Array<Pick<ScannedTest, 'file' | 'line' | 'title'>>;
+    }
+  >;
+  untaggedTests: Array<Pick<ScannedTest, 'file' | 'line' | 'title'>>;
+  orphanedAcTags: Array<Pick<ScannedTest, 'file' | 'line' | 'title'> & { acTags: string[] }>;
+  duplicateAcTags: Array<Pick<ScannedTest, 'file' | 'line' | 'title'> & { acTags: string[] }>;
+}
+
+interface Token {
+  type: 'ident' | 'string' | 'punct';
+  value: string;
+  line: number;
+}
+
+const SPEC_FILE = /\.(spec|test)\.[cm]?[jt]sx?$/;
+const TEST_MODIFIERS = new Set(['only', 'skip', 'fixme', 'fail', 'slow']);
+const DESCRIBE_MODIFIERS = new Set(['only', 'skip', 'fixme', 'serial', 'parallel']);
+const REGEX_PRECEDERS = new Set(['(', ',', '=', ':', '[', '!', '&', '|', '?', '{', '}', ';', '=>']);
+
+export const FEATURE_TAG = /^@feat-[\w-]+$/;
+export const AC_TAG = /^@AC\d+$/;
+
+export function extractTitleTags(title: string): string[] {
+  return title.match(/@[\w-]+/g) || [];
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+
+  const readQuoted = (quote: string) => {
+    let value = '';
+    i++;
+    while (i < source.length && source[i] !== quote) {
+      if (source[i] === '\\') {
+        value += source[i + 1] ?? '';
+        i += 2;
+        continue;
+      }
+      if (source[i] === '\n') {
+        line++;
+        if (quote !== '`') break;
+      }
+      // Template expressions are skipped; their static text still carries tags
+      if (quote === '`' && source[i] === '$' && source[i + 1] === '{') {
+        i++;
+        let depth = 0;
+        do {
+          if (source[i] === '{') depth++;
+          else if (source[i] === '}') depth--;
+          else if (source[i] === '\n') line++;
+          i++;
+        } while (i < source.length && depth > 0);
+        continue;
+      }
+      value += source[i++];
+    }
+    i++;
+    return value;
+  };
+
+  while (i < source.length) {
+    const c = source[i];
+    const startLine = line;
+
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (c === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (c === '/' && source[i + 1] === '*') {
+      i += 2;
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+        if (source[i] === '\n') line++;
+        i++;
+      }
+      i += 2;
+    } else if (c === '"' || c === "'" || c === '`') {
+      tokens.push({ type: 'string', value: readQuoted(c), line: startLine });
+    } else if (c === '/' && (tokens.length === 0 || REGEX_PRECEDERS.has(tokens[tokens.length - 1].value))) {
+      // Regex literal: skip it so quotes and braces inside don't confuse the scan
+      let inClass = false;
+      i++;
+      while (i < source.length && source[i] !== '\n') {
+        if (source[i] === '\\') i++;
+        else if (source[i] === '[') inClass = true;
+        else if (source[i] === ']') inClass = false;
+        else if (source[i] === '/' && !inClass) break;
+        i++;
+      }
+      i++;
+      while (i < source.length && /[a-z]/i.test(source[i])) i++;
+    } else if (/[A-Za-z_$]/.test(c)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/)!;
+      tokens.push({ type: 'ident', value: match[0], line: startLine });
+      i += match[0].length;
+    } else if (c === '=' && source[i + 1] === '>') {
+      tokens.push({ type: 'punct', value: '=>', line: startLine });
+      i += 2;
+    } else {
+      tokens.push({ type: 'punct', value: c, line: startLine });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Reads the `tag` property of a Playwright details object starting at the `{`
+ * token at index `start`.
+ */
+function readDetailsTags(tokens: Token[], start: number): string[] {
+  const tags: string[] = [];
+  let depth = 0;
+
+  for (let i = start; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'punct' && token.value === '{') depth++;
+    else if (token.type === 'punct' && token.value === '}' && --depth === 0) break;
+
+    if (
+      depth === 1 &&
+      (token.type === 'ident' || token.type === 'string') &&
+      token.value === 'tag' &&
+      tokens[i + 1]?.value === ':'
+    ) {
+      const value = tokens[i + 2];
+      if (value?.type === 'string') {
+        tags.push(value.value);
+      } else if (value?.value === '[') {
+        for (let j = i + 3; j < tokens.length && tokens[j].value !== ']'; j++) {
+          if (tokens[j].type === 'string') tags.push(tokens[j].value);
+        }
+      }
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Extracts all tests from a spec file's source.
+ */
+export function scanSource(source: string, file: string): ScannedTest[] {
+  const tokens = tokenize(source);
+  const tests: ScannedTest[] = [];
+  const scopes: Array<{ title: string; tags: string[]; modifiers: string[]; depth: number }> = [];
+  let pending: { title: string; tags: string[]; modifiers: string[]; parenDepth: number } | null = null;
+  let braceDepth = 0;
+  let parenDepth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const punct = token.type === 'punct' ? token.value : '';
+
+    if (punct === '(') parenDepth++;
+    else if (punct === ')') {
+      parenDepth--;
+      // A describe whose callback is a reference rather than an inline body
+      if (pending && parenDepth < pending.parenDepth) pending = null;
+    } else if (punct === '{') {
+      braceDepth++;
+      const prev = tokens[i - 1]?.value;
+      if (pending && (prev === '=>' || prev === ')')) {
+        scopes.push({ ...pending, depth: braceDepth });
+        pending = null;
+      }
+    } else if (punct === '}') {
+      if (scopes.length > 0 && scopes[scopes.length - 1].depth === braceDepth) {
+        scopes.pop();
+      }
+      braceDepth--;
+    }
+
+    if (token.type !== 'ident' || token.value !== 'test' || tokens[i - 1]?.value === '.') {
+      continue;
+    }
+
+    // Read the callee chain: test.describe.only(...), test.skip(...), ...
+    const members: string[] = [];
+    let j = i + 1;
+    while (tokens[j]?.value === '.' && tokens[j + 1]?.type === 'ident') {
+      members.push(tokens[j + 1].value);
+      j += 2;
+    }
+
+    const isDescribe = members[0] === 'describe' && members.slice(1).every((m) => DESCRIBE_MODIFIERS.has(m));
+    const isTest = members.every((m) => TEST_MODIFIERS.has(m));
+    if ((!isDescribe && !isTest) || tokens[j]?.value !== '(' || tokens[j + 1]?.type !== 'string') {
+      continue;
+    }
+
+    const title = tokens[j + 1].value;
+    const ownTags = [
+      ...extractTitleTags(title),
+      ...(tokens[j + 2]?.value === ',' && tokens[j + 3]?.value === '{' ? readDetailsTags(tokens, j + 3) : []),
+    ];
+    const modifiers = isDescribe ? members.slice(1) : members;
+
+    if (isDescribe) {
+      // The body brace is seen by the main loop once it reaches the callback
+      pending = { title, tags: ownTags, modifiers, parenDepth: parenDepth + 1 };
+      continue;
+    }
+
+    tests.push({
+      file,
+      line: token.line,
+      title,
+      titlePath: [...scopes.map((s) => s.title), title],
+      tags: [...scopes.flatMap((s) => s.tags), ...ownTags],
+      modifiers: [...new Set([...scopes.flatMap((s) => s.modifiers), ...modifiers])],
+    });
+  }
+
+  return tests;
+}
+
+function findSpecFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...findSpecFiles(path));
+    else if (SPEC_FILE.test(entry.name)) files.push(path);
+  }
+  return files;
+}
+
+/**
+ * Scans every spec file under `testDir` and builds a feature -> AC -> test index.
+ */
+export function scanTestTags(projectRoot: string, testDir: string, featureId?: string): TagIndex {
+  const files = findSpecFiles(join(projectRoot, testDir));
+  const tests = files.flatMap((path) =>
+    scanSource(readFileSync(path, 'utf-8'), relative(projectRoot, path))
+  );
+
+  const index: TagIndex = {
+    filesScanned: files.length,
+    totalTests: tests.length,
+    features: {},
+    untaggedTests: [],
+    orphanedAcTags: [],
+    duplicateAcTags: [],
+  };
+
+  for (const test of tests) {
+    const ref = { file: test.file, line: test.line, title: test.title };
+    const featureTags = test.tags.filter((t) => FEATURE_TAG.test(t));
+    const acTags = test.tags.filter((t) => AC_TAG.test(t));
+    const uniqueAcTags = [...new Set(acTags)];
+
+    if (featureId && !featureTags.includes(`@${featureId}`)) continue;
+
+    if (uniqueAcTags.length < acTags.length) {
+      const duplicated = uniqueAcTags.filter((t) => acTags.indexOf(t) !== acTags.lastIndexOf(t));
+      index.duplicateAcTags.push({ ...ref, acTags: duplicated });
+    }
+
+    if (featureTags.length === 0) {
+      if (acTags.length > 0) index.orphanedAcTags.push({ ...ref, acTags: uniqueAcTags });
+      else index.untaggedTests.push(ref);
+      continue;
+    }
+
+    for (const featureTag of new Set(featureTags)) {
+      const feature = (index.features[featureTag.slice(1)] ??= {
+        totalTests: 0,
+        acs: {},
+        testsWithoutAc: [],
+      });
+      feature.totalTests++;
+      if (uniqueAcTags.length === 0) {
+        feature.testsWithoutAc.push(ref);
+      }
+      for (const acTag of uniqueAcTags) {
+        (feature.acs[acTag.slice(1)] ??= []).push(ref);
+      }
+    }
+  }
+
+  if (featureId) {
+    index.totalTests = Object.values(index.features).reduce((sum, f) => sum + f.totalTests, 0);
+  }
+
+  return index;
+}
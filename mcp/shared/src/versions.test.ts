@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { artifactVersion } from './events.js';
+import { PathOutsideSandboxError } from './sandbox.js';
+import { ArtifactVersions, diffJson, diffLines } from './versions.js';
+
+describe('ArtifactVersions', () => {
+  let workspace: string;
+  let versions: ArtifactVersions;
+  const meta = { tool: 'save_artifact', actor: 'planner' };
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'versions-'));
+    versions = new ArtifactVersions(workspace);
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('numbers each new content and keeps every version readable', () => {
+    versions.record('plan.md', 'one', meta);
+    const second = versions.record('plan.md', 'two', { ...meta, restored_from: 1 });
+
+    expect(second).toMatchObject({
+      version: 2,
+      ...artifactVersion('two'),
+      ...meta,
+      restored_from: 1,
+    });
+    expect(versions.list('plan.md').map((v) => v.version)).toEqual([1, 2]);
+    expect(versions.latest('plan.md')).toEqual(second);
+    expect(versions.read('plan.md', 1)).toBe('one');
+    expect(versions.read('plan.md', 2)).toBe('two');
+  });
+
+  it('does not add a version for unchanged content', () => {
+    const first = versions.record('plan.md', 'one', meta);
+    expect(versions.record('plan.md', 'one', { tool: 'other', actor: 'other' })).toEqual(first);
+    expect(versions.list('plan.md')).toHaveLength(1);
+  });
+
+  it('keeps content written before versioning as version 1', () => {
+    const info = versions.record('reports/coverage.json', '{"b":2}', meta, '{"a":1}');
+
+    expect(info.version).toBe(2);
+    expect(versions.list('reports/coverage.json')[0]).toMatchObject({
+      version: 1,
+      tool: 'unknown',
+      actor: 'unknown',
+    });
+    expect(versions.read('reports/coverage.json', 1)).toBe('{"a":1}');
+  });
+
+  it('has no versions for an artifact never recorded', () => {
+    expect(versions.list('plan.md')).toEqual([]);
+    expect(versions.latest('plan.md')).toBeUndefined();
+    expect(() => versions.read('plan.md', 1)).toThrow('Version 1 of artifact plan.md not found');
+  });
+
+  it('rejects artifact names outside the workspace', () => {
+    expect(() => versions.list('../feat-other/plan.md')).toThrow(PathOutsideSandboxError);
+    expect(() => versions.record('.versions/plan.md/1', 'x', meta)).toThrow(
+      PathOutsideSandboxError
+    );
+  });
+});
+
+describe('diffJson', () => {
+  it('reports object fields by JSON Pointer', () => {
+    expect(diffJson({ a: 1, b: { c: 2 }, d: 3 }, { a: 1, b: { c: 4 }, e: 5 })).toEqual([
+      { path: '/b/c', op: 'changed', before: 2, after: 4 },
+      { path: '/d', op: 'removed', before: 3 },
+      { path: '/e', op: 'added', after: 5 },
+    ]);
+  });
+
+  it('compares arrays by index', () => {
+    const before = { items: [{ id: 1, priority: 'low' }, { id: 2 }] };
+    const after = { items: [{ id: 1, priority: 'high' }, { id: 2 }, { id: 3 }] };
+
+    expect(diffJson(before, after)).toEqual([
+      { path: '/items/0/priority', op: 'changed', before: 'low', after: 'high' },
+      { path: '/items/2', op: 'added', after: { id: 3 } },
+    ]);
+    expect(diffJson([1, 2], [1])).toEqual([{ path: '/1', op: 'removed', before: 2 }]);
+  });
+
+  it('escapes keys and reports a changed root as "/"', () => {
+    expect(diffJson({ 'a/b~c': 1 }, { 'a/b~c': 2 })[0].path).toBe('/a~1b~0c');
+    expect(diffJson([1], { a: 1 })).toEqual([
+      { path: '/', op: 'changed', before: [1], after: { a: 1 } },
+    ]);
+    expect(diffJson({ a: [1] }, { a: [1] })).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+  it('is empty for identical texts', () => {
+    expect(diffLines('a\nb', 'a\nb', 'v1', 'v2')).toEqual({ added: 0, removed: 0, diff: '' });
+  });
+
+  it('writes a unified diff with three lines of context', () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    expect(diffLines(before.join('\n'), after.join('\n'), 'plan.md@1', 'plan.md@2')).toEqual({
+      added: 1,
+      removed: 1,
+      diff: [
+        '--- plan.md@1',
+        '+++ plan.md@2',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+changed',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+      ].join('\n'),
+    });
+  });
+
+  it('splits changes far apart into separate hunks', () => {
+    const before = lines(30);
+    const after = before.filter((line) => line !== 'line 3');
+    after.splice(24, 0, 'inserted');
+
+    const { added, removed, diff } = diffLines(before.join('\n'), after.join('\n'), 'a', 'b');
+
+    expect({ added, removed }).toEqual({ added: 1, removed: 1 });
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,6 +1,5 @@', '@@ -23,6 +22,7 @@']);
+  });
+
+  it('numbers the lines of a new text from 1', () => {
+    expect(diffLines('', 'a\nb', 'a', 'b').diff).toBe('--- a\n+++ b\n@@ -1,1 +1,2 @@\n-\n+a\n+b');
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Numbered artifact revisions.
+ *
+ * Every artifact write keeps a copy of the new content under
+ * `.versions/<artifact>/<n>` in the workspace, with a `manifest.json` that
+ * records when, by which tool and by whom each version was saved. Also
+ * provides the diffs `diff_artifacts` reports: a structural diff for JSON
+ * artifacts and a unified line diff for everything else.
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './concurrency.js';
+import { artifactVersion } from './events.js';
+import { artifactFile } from './sandbox.js';
+
+export interface ArtifactVersionInfo {
+  version: number;
+  saved_at: string;
+  size: number;
+  sha256: string;
+  tool: string;
+  actor: string;
+  /** Set when the version was created by restoring an older one */
+  restored_from?: number;
+}
+
+export interface JsonChange {
+  /** JSON Pointer of the changed value, e.g. `/items/2/priority` */
+  path: string;
+  op: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface LineDiff {
+  added: number;
+  removed: number;
+  /** Unified diff with three lines of context */
+  diff: string;
+}
+
+const CONTEXT_LINES = 3;
+/** Above this many line pairs the changed region is reported as replaced wholesale */
+const MAX_LCS_CELLS = 4_000_000;
+
+export class ArtifactVersions {
+  constructor(private readonly workspacePath: string) {}
+
+  private dir(name: string): string {
+    artifactFile(this.workspacePath, name);
+    return join(this.workspacePath, '.versions', name);
+  }
+
+  list(name: string): ArtifactVersionInfo[] {
+    const manifest = join(this.dir(name), 'manifest.json');
+    return existsSync(manifest)
+      ? (JSON.parse(readFileSync(manifest, 'utf-8')) as ArtifactVersionInfo[])
+      : [];
+  }
+
+  latest(name: string): ArtifactVersionInfo | undefined {
+    const versions = this.list(name);
+    return versions[versions.length - 1];
+  }
+
+  read(name: string, version: number): string {
+    const path = join(this.dir(name), String(version));
+    if (!this.list(name).some((v) => v.version === version) || !existsSync(path)) {
+      throw new Error(`Version ${version} of artifact ${name} not found`);
+    }
+    return readFileSync(path, 'utf-8');
+  }
+
+  /**
+   * Records `content` as the next version of `name`, unless it is identical
+   * to the latest one. An artifact written before versioning existed is
+   * recorded as version 1 first, so its content is not lost.
+   */
+  record(
+    name: string,
+    content: string,
+    meta: { tool: string; actor: string; restored_from?: number },
+    previous?: string
+  ): ArtifactVersionInfo {
+    const versions = this.list(name);
+    const hash = artifactVersion(content);
+
+    if (versions.length === 0 && previous !== undefined) {
+      const artifactPath = join(this.workspacePath, name);
+      versions.push(
+        this.store(name, 1, previous, {
+          saved_at: existsSync(artifactPath)
+            ? statSync(artifactPath).mtime.toISOString()
+            : new Date().toISOString(),
+          tool: 'unknown',
+          actor: 'unknown',
+        })
+      );
+    }
+
+    const latest = versions[versions.length - 1];
+    if (latest && latest.sha256 === hash.sha256) {
+      this.writeManifest(name, versions);
+      return latest;
+    }
+
+    const info = this.store(name, (latest?.version ?? 0) + 1, content, {
+      saved_at: new Date().toISOString(),
+      ...meta,
+    });
+    versions.push(info);
+    this.writeManifest(name, versions);
+    return info;
+  }
+
+  private store(
+    name: string,
+    version: number,
+    content: string,
+    meta: Omit<ArtifactVersionInfo, 'version' | 'size' | 'sha256'>
+  ): ArtifactVersionInfo {
+    mkdirSync(this.dir(name), { recursive: true });
+    writeFileAtomic(join(this.dir(name), String(version)), content);
+    return { version, ...artifactVersion(content), ...meta };
+  }
+
+  private writeManifest(name: string, versions: ArtifactVersionInfo[]) {
+    mkdirSync(this.dir(name), { recursive: true });
+    writeFileAtomic(join(this.dir(name), 'manifest.json'), JSON.stringify(versions, null, 2));
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/**
+ * Structural diff of two JSON values. Objects are compared by key and arrays
+ * by index, so an item edited in place shows up as a change to that item's
+ * fields rather than as a removed and an added item.
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): JsonChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => {
+      const at = pointer(path, key);
+      if (!(key in after)) return [{ path: at, op: 'removed', before: before[key] }];
+      if (!(key in before)) return [{ path: at, op: 'added', after: after[key] }];
+      return diffJson(before[key], after[key], at);
+    });
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const at = pointer(path, i);
+      if (i >= after.length) changes.push({ path: at, op: 'removed', before: before[i] });
+      else if (i >= before.length) changes.push({ path: at, op: 'added', after: after[i] });
+      else changes.push(...diffJson(before[i], after[i], at));
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path: path || '/', op: 'changed', before, after }];
+}
+
+type LineOp = { op: ' ' | '-' | '+'; line: string };
+
+/**
+ * Line-level edit script via longest common subsequence, after trimming the
+ * common prefix and suffix so typical small edits stay cheap.
+ */
+function lineOps(a: string[], b: string[]): LineOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const prefix = a.slice(0, start).map((line): LineOp => ({ op: ' ', line }));
+  const suffix = a.slice(endA).map((line): LineOp => ({ op: ' ', line }));
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map((line): LineOp => ({ op: '-', line })),
+      ...midB.map((line): LineOp => ({ op: '+', line })),
+      ...suffix,
+    ];
+  }
+
+  const width = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: LineOp[] = [...prefix];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      ops.push({ op: ' ', line: midA[i++] });
+      j++;
+    } else if (
+      i < midA.length &&
+      (j >= midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+    ) {
+      ops.push({ op: '-', line: midA[i++] });
+    } else {
+      ops.push({ op: '+', line: midB[j++] });
+    }
+  }
+  return [...ops, ...suffix];
+}
+
+/**
+ * Unified line diff of two texts, labelled with `fromLabel` and `toLabel`.
+ */
+export function diffLines(
+  before: string,
+  after: string,
+  fromLabel: string,
+  toLabel: string
+): LineDiff {
+  const ops = lineOps(before.split('\n'), after.split('\n'));
+  const hunks: string[] = [];
+  let added = 0;
+  let removed = 0;
+
+  // Line numbers (1-based) in the old and new text for every op
+  let oldLine = 1;
+  let newLine = 1;
+  const numbered = ops.map((op) => {
+    const entry = { ...op, oldLine, newLine };
+    if (op.op !== '+') oldLine++;
+    if (op.op !== '-') newLine++;
+    return entry;
+  });
+
+  let k = 0;
+  while (k < numbered.length) {
+    if (numbered[k].op === ' ') {
+      k++;
+      continue;
+    }
+
+    // Grow the hunk while changes are within 2 * CONTEXT_LINES of each other
+    const first = Math.max(0, k - CONTEXT_LINES);
+    let last = k;
+    for (let m = k; m < numbered.length && m <= last + 2 * CONTEXT_LINES; m++) {
+      if (numbered[m].op !== ' ') last = m;
+    }
+    const end = Math.min(numbered.length - 1, last + CONTEXT_LINES);
+
+    const lines = numbered.slice(first, end + 1);
+    const oldCount = lines.filter((l) => l.op !== '+').length;
+    const newCount = lines.filter((l) => l.op !== '-').length;
+    added += lines.filter((l) => l.op === '+').length;
+    removed += lines.filter((l) => l.op === '-').length;
+
+    hunks.push(
+      `@@ -${numbered[first].oldLine},${oldCount} +${numbered[first].newLine},${newCount} @@\n` +
+        lines.map((l) => `${l.op}${l.line}`).join('\n')
+    );
+    k = end + 1;
+  }
+
+  return {
+    added,
+    removed,
+    diff: hunks.length > 0 ? [`--- ${fromLabel}`, `+++ ${toLabel}`, ...hunks].join('\n') : '',
+  };
+}
@@ -0,0 +1,64 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EventLog, artifactVersion } from './events.js';
+import { ReservedArtifactError } from './sandbox.js';
+import { ArtifactVersions } from './versions.js';
+import { writeWorkspaceArtifact } from './workspace.js';
+
+describe('writeWorkspaceArtifact', () => {
+  let workspace: string;
+  const meta = { tool: 'correlate_run_with_checklist', actor: 'playwright-tester' };
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'workspace-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('writes, versions and logs the artifact', () => {
+    const written = writeWorkspaceArtifact(workspace, 'feat-2fa', 'playwright-results.json', '{"passed":1}', meta);
+
+    expect(written).toMatchObject({ path: join(workspace, 'playwright-results.json'), version: 1 });
+    expect(readFileSync(written.path, 'utf-8')).toBe('{"passed":1}');
+    expect(new ArtifactVersions(workspace).latest('playwright-results.json')).toMatchObject({
+      version: 1,
+      ...meta,
+    });
+    expect(new EventLog(join(workspace, 'events.jsonl')).read()).toEqual([
+      expect.objectContaining({
+        seq: 1,
+        feature_id: 'feat-2fa',
+        ...meta,
+        changes: [],
+        artifact: {
+          name: 'playwright-results.json',
+          after: artifactVersion('{"passed":1}'),
+          version: 1,
+        },
+      }),
+    ]);
+  });
+
+  it('records the content it replaces', () => {
+    writeFileSync(join(workspace, 'playwright-results.json'), 'written by hand');
+
+    const written = writeWorkspaceArtifact(workspace, 'feat-2fa', 'playwright-results.json', 'new', meta);
+
+    expect(written.version).toBe(2);
+    expect(new ArtifactVersions(workspace).read('playwright-results.json', 1)).toBe('written by hand');
+    expect(written.event.artifact?.before).toEqual(artifactVersion('written by hand'));
+  });
+
+  it('refuses server-owned names', () => {
+    expect(() => writeWorkspaceArtifact(workspace, 'feat-2fa', 'state.json', '{}', meta)).toThrow(
+      ReservedArtifactError
+    );
+    expect(() => writeWorkspaceArtifact(workspace, 'feat-2fa', 'runs/run-1.json', '{}', meta)).toThrow(
+      ReservedArtifactError
+    );
+  });
+});
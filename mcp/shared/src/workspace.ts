@@ -0,0 +1,55 @@
+/**
+ * Artifact writes into a feature workspace.
+ *
+ * The feature orchestrator owns the workspace, but the playwright
+ * orchestrator writes `playwright-results.json` into it too. Both go through
+ * writeWorkspaceArtifact, so every write is sandboxed, kept as a numbered
+ * version and logged to `events.jsonl` the same way, whichever server made
+ * it.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './concurrency.js';
+import { EventLog, WorkspaceEvent, artifactVersion } from './events.js';
+import { artifactFile } from './sandbox.js';
+import { ArtifactVersions } from './versions.js';
+
+export interface ArtifactWrite {
+  path: string;
+  version: number;
+  event: WorkspaceEvent;
+}
+
+/**
+ * Writes artifact `name` into `workspacePath`, keeps it as a numbered
+ * version, and logs the content hash of the version it replaced and the new
+ * one. The caller holds the workspace lock (see lockWorkspace).
+ */
+export function writeWorkspaceArtifact(
+  workspacePath: string,
+  featureId: string,
+  name: string,
+  content: string,
+  meta: { tool: string; actor: string; restored_from?: number }
+): ArtifactWrite {
+  const path = artifactFile(workspacePath, name, 'write');
+  const previous = existsSync(path) ? readFileSync(path, 'utf-8') : undefined;
+
+  const { version } = new ArtifactVersions(workspacePath).record(name, content, meta, previous);
+  writeFileAtomic(path, content);
+  const event = new EventLog(join(workspacePath, 'events.jsonl')).append({
+    feature_id: featureId,
+    tool: meta.tool,
+    actor: meta.actor,
+    changes: [],
+    artifact: {
+      name,
+      before: previous !== undefined ? artifactVersion(previous) : undefined,
+      after: artifactVersion(content),
+      version,
+    },
+  });
+
+  return { path, version, event };
+}